@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationMode" AS ENUM ('DISABLED', 'REPORT_ONLY', 'AUTO_CORRECT');
+
+-- AlterTable
+ALTER TABLE "Copier" ADD COLUMN     "reconciliationIntervalMs" INTEGER NOT NULL DEFAULT 60000,
+ADD COLUMN     "reconciliationMode" "ReconciliationMode" NOT NULL DEFAULT 'REPORT_ONLY';
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "ScalingRounding" AS ENUM ('FLOOR', 'ROUND', 'CEIL');
+
+-- AlterEnum
+ALTER TYPE "RiskScalingType" ADD VALUE 'ACCOUNT_SIZE_RATIO';
+
+-- AlterTable
+ALTER TABLE "CopierAccountConfig" ADD COLUMN     "minimumOneContract" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "roundingMode" "ScalingRounding" NOT NULL DEFAULT 'FLOOR';
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "StaleSignalAction" AS ENUM ('SKIP', 'LIMIT');
+
+-- AlterTable
+ALTER TABLE "Copier" ADD COLUMN     "maxSlippage" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "staleSignalAction" "StaleSignalAction" NOT NULL DEFAULT 'SKIP';
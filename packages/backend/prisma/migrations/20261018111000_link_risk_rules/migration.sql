@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "RiskRule" ADD COLUMN     "params" JSONB;
+
+-- AddForeignKey
+ALTER TABLE "RiskRule" ADD CONSTRAINT "RiskRule_copierConfigId_fkey" FOREIGN KEY ("copierConfigId") REFERENCES "CopierAccountConfig"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TradingAccount" ADD COLUMN     "rulePresetVersion" TEXT;
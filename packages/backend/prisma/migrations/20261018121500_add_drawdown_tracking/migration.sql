@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "DrawdownMode" AS ENUM ('INTRADAY_TRAILING', 'END_OF_DAY_TRAILING');
+
+-- AlterTable
+ALTER TABLE "TradingAccount" ADD COLUMN     "distanceToBreach" DOUBLE PRECISION,
+ADD COLUMN     "drawdownFloor" DOUBLE PRECISION,
+ADD COLUMN     "drawdownMode" "DrawdownMode" NOT NULL DEFAULT 'INTRADAY_TRAILING',
+ADD COLUMN     "drawdownUpdatedAt" TIMESTAMP(3),
+ADD COLUMN     "drawdownWarningThresholds" INTEGER[] DEFAULT ARRAY[50, 75, 90]::INTEGER[],
+ADD COLUMN     "highWaterMark" DOUBLE PRECISION,
+ADD COLUMN     "lastDrawdownWarning" INTEGER;
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "ProcessedMasterEvent" (
+    "id" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "eventKey" TEXT NOT NULL,
+    "externalTradeId" TEXT,
+    "externalOrderId" TEXT,
+    "executedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProcessedMasterEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MasterEventCursor" (
+    "accountId" TEXT NOT NULL,
+    "lastTradeId" TEXT,
+    "lastExecutedAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MasterEventCursor_pkey" PRIMARY KEY ("accountId")
+);
+
+-- CreateIndex
+CREATE INDEX "ProcessedMasterEvent_accountId_executedAt_idx" ON "ProcessedMasterEvent"("accountId", "executedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProcessedMasterEvent_accountId_eventKey_key" ON "ProcessedMasterEvent"("accountId", "eventKey");
+
+-- AddForeignKey
+ALTER TABLE "ProcessedMasterEvent" ADD CONSTRAINT "ProcessedMasterEvent_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "TradingAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MasterEventCursor" ADD CONSTRAINT "MasterEventCursor_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "TradingAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
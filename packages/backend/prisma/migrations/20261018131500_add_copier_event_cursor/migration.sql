@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Copier" ADD COLUMN     "lastMasterEventAt" TIMESTAMP(3),
+ADD COLUMN     "lastMasterTradeId" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Copier" ADD COLUMN     "statusReason" TEXT;
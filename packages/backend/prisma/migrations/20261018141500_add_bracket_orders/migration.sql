@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "BracketMode" AS ENUM ('PRICE', 'TICK_OFFSET');
+
+-- AlterTable
+ALTER TABLE "Copier" ADD COLUMN     "bracketMode" "BracketMode" NOT NULL DEFAULT 'PRICE',
+ADD COLUMN     "copyBrackets" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "BracketOrder" (
+    "id" TEXT NOT NULL,
+    "copierId" TEXT NOT NULL,
+    "slaveAccountId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "side" "TradeSide" NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "stopLoss" DOUBLE PRECISION,
+    "takeProfit" DOUBLE PRECISION,
+    "stopOrderId" TEXT,
+    "targetOrderId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BracketOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BracketOrder_copierId_idx" ON "BracketOrder"("copierId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BracketOrder_copierId_slaveAccountId_symbol_key" ON "BracketOrder"("copierId", "slaveAccountId", "symbol");
+
+-- AddForeignKey
+ALTER TABLE "BracketOrder" ADD CONSTRAINT "BracketOrder_copierId_fkey" FOREIGN KEY ("copierId") REFERENCES "Copier"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Copier" ADD COLUMN     "mirrorPendingOrders" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "OrderMapping" (
+    "id" TEXT NOT NULL,
+    "copierId" TEXT NOT NULL,
+    "masterOrderId" TEXT NOT NULL,
+    "slaveOrderId" TEXT,
+    "slaveAccountId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "side" "TradeSide" NOT NULL,
+    "type" "TradeType" NOT NULL,
+    "masterQuantity" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'working',
+    "errorMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrderMapping_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderMapping_copierId_status_idx" ON "OrderMapping"("copierId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderMapping_copierId_masterOrderId_slaveAccountId_key" ON "OrderMapping"("copierId", "masterOrderId", "slaveAccountId");
+
+-- AddForeignKey
+ALTER TABLE "OrderMapping" ADD CONSTRAINT "OrderMapping_copierId_fkey" FOREIGN KEY ("copierId") REFERENCES "Copier"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "SymbolMapping" (
+    "id" TEXT NOT NULL,
+    "copierId" TEXT NOT NULL,
+    "copierConfigId" TEXT,
+    "masterSymbol" TEXT NOT NULL,
+    "slaveSymbol" TEXT NOT NULL,
+    "multiplier" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SymbolMapping_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SymbolMapping_copierId_idx" ON "SymbolMapping"("copierId");
+
+-- CreateIndex
+CREATE INDEX "SymbolMapping_copierConfigId_idx" ON "SymbolMapping"("copierConfigId");
+
+-- AddForeignKey
+ALTER TABLE "SymbolMapping" ADD CONSTRAINT "SymbolMapping_copierId_fkey" FOREIGN KEY ("copierId") REFERENCES "Copier"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SymbolMapping" ADD CONSTRAINT "SymbolMapping_copierConfigId_fkey" FOREIGN KEY ("copierConfigId") REFERENCES "CopierAccountConfig"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CopierAccountConfig" ADD COLUMN     "invertDirection" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Copier" ADD COLUMN     "tradingSchedule" JSONB;
+
+-- AlterTable
+ALTER TABLE "CopierAccountConfig" ADD COLUMN     "tradingSchedule" JSONB;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "NewsImpact" AS ENUM ('LOW', 'MEDIUM', 'HIGH');
+
+-- AlterTable
+ALTER TABLE "Copier" ADD COLUMN     "newsBlackoutAfterMinutes" INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN     "newsBlackoutBeforeMinutes" INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN     "newsBlackoutCurrencies" TEXT[] DEFAULT ARRAY['USD']::TEXT[],
+ADD COLUMN     "newsBlackoutEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "newsBlackoutImpacts" "NewsImpact"[] DEFAULT ARRAY['HIGH']::"NewsImpact"[];
+
+-- CreateTable
+CREATE TABLE "NewsEvent" (
+    "id" TEXT NOT NULL,
+    "eventKey" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "impact" "NewsImpact" NOT NULL,
+    "scheduledAt" TIMESTAMP(3) NOT NULL,
+    "source" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NewsEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NewsEvent_eventKey_key" ON "NewsEvent"("eventKey");
+
+-- CreateIndex
+CREATE INDEX "NewsEvent_scheduledAt_idx" ON "NewsEvent"("scheduledAt");
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "SignalAggregationMode" AS ENUM ('NET_POSITION', 'FIRST_SIGNAL_WINS');
+
+-- AlterTable
+ALTER TABLE "Copier" ADD COLUMN     "aggregationMode" "SignalAggregationMode" NOT NULL DEFAULT 'NET_POSITION';
+
+-- CreateTable
+CREATE TABLE "CopierMaster" (
+    "id" TEXT NOT NULL,
+    "copierId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "weight" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CopierMaster_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CopierMaster_accountId_idx" ON "CopierMaster"("accountId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CopierMaster_copierId_accountId_key" ON "CopierMaster"("copierId", "accountId");
+
+-- AddForeignKey
+ALTER TABLE "CopierMaster" ADD CONSTRAINT "CopierMaster_copierId_fkey" FOREIGN KEY ("copierId") REFERENCES "Copier"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CopierMaster" ADD CONSTRAINT "CopierMaster_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "TradingAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing copiers keep their master as the only one
+INSERT INTO "CopierMaster" ("id", "copierId", "accountId", "updatedAt")
+SELECT 'cm_' || "id", "id", "masterAccountId", CURRENT_TIMESTAMP FROM "Copier";
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "CopyDirectionFilter" AS ENUM ('BOTH', 'LONG_ONLY', 'SHORT_ONLY');
+
+-- AlterTable
+ALTER TABLE "CopierAccountConfig" ADD COLUMN     "directionFilter" "CopyDirectionFilter" NOT NULL DEFAULT 'BOTH',
+ADD COLUMN     "excludeSymbols" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "includeSymbols" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "maxTradesPerSession" INTEGER,
+ADD COLUMN     "minMasterQuantity" INTEGER;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "killSwitchEngagedAt" TIMESTAMP(3),
+ADD COLUMN     "killSwitchReason" TEXT;
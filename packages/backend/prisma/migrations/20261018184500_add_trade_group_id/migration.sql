@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Trade" ADD COLUMN     "groupId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Trade_groupId_idx" ON "Trade"("groupId");
@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "Copier" ADD COLUMN     "slaveGroupId" TEXT;
+
+-- AlterTable
+ALTER TABLE "CopierAccountConfig" ADD COLUMN     "accountGroupId" TEXT;
+
+-- CreateTable
+CREATE TABLE "AccountGroup" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "color" TEXT,
+    "scalingType" "RiskScalingType" NOT NULL DEFAULT 'FIXED',
+    "fixedContracts" INTEGER,
+    "percentageScale" DOUBLE PRECISION,
+    "maxContracts" INTEGER,
+    "roundingMode" "ScalingRounding" NOT NULL DEFAULT 'FLOOR',
+    "minimumOneContract" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AccountGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AccountGroupMember" (
+    "id" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AccountGroupMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AccountGroup_userId_idx" ON "AccountGroup"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccountGroup_userId_name_key" ON "AccountGroup"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "AccountGroupMember_accountId_idx" ON "AccountGroupMember"("accountId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccountGroupMember_groupId_accountId_key" ON "AccountGroupMember"("groupId", "accountId");
+
+-- AddForeignKey
+ALTER TABLE "Copier" ADD CONSTRAINT "Copier_slaveGroupId_fkey" FOREIGN KEY ("slaveGroupId") REFERENCES "AccountGroup"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CopierAccountConfig" ADD CONSTRAINT "CopierAccountConfig_accountGroupId_fkey" FOREIGN KEY ("accountGroupId") REFERENCES "AccountGroup"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AccountGroup" ADD CONSTRAINT "AccountGroup_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AccountGroupMember" ADD CONSTRAINT "AccountGroupMember_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "AccountGroup"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AccountGroupMember" ADD CONSTRAINT "AccountGroupMember_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "TradingAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
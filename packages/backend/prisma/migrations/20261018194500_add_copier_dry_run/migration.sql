@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "Copier" ADD COLUMN     "dryRun" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ShadowTrade" (
+    "id" TEXT NOT NULL,
+    "copierId" TEXT NOT NULL,
+    "slaveAccountId" TEXT NOT NULL,
+    "masterTradeId" TEXT,
+    "eventType" TEXT NOT NULL,
+    "masterSymbol" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "side" "TradeSide" NOT NULL,
+    "type" "TradeType" NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "limitPrice" DOUBLE PRECISION,
+    "stopLoss" DOUBLE PRECISION,
+    "takeProfit" DOUBLE PRECISION,
+    "entry" BOOLEAN NOT NULL DEFAULT false,
+    "realizedPnL" DOUBLE PRECISION,
+    "signalLatencyMs" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShadowTrade_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShadowTrade_copierId_createdAt_idx" ON "ShadowTrade"("copierId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ShadowTrade_slaveAccountId_idx" ON "ShadowTrade"("slaveAccountId");
+
+-- AddForeignKey
+ALTER TABLE "ShadowTrade" ADD CONSTRAINT "ShadowTrade_copierId_fkey" FOREIGN KEY ("copierId") REFERENCES "Copier"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShadowTrade" ADD CONSTRAINT "ShadowTrade_slaveAccountId_fkey" FOREIGN KEY ("slaveAccountId") REFERENCES "TradingAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
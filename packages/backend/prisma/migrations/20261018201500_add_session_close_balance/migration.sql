@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TradingAccount" ADD COLUMN     "sessionCloseAt" TIMESTAMP(3),
+ADD COLUMN     "sessionCloseBalance" DOUBLE PRECISION;
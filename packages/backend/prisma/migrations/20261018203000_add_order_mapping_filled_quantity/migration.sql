@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "OrderMapping" ADD COLUMN     "masterFilledQuantity" INTEGER NOT NULL DEFAULT 0;
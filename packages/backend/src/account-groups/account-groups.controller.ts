@@ -0,0 +1,76 @@
+import { Controller, Get, Post, Body, Patch, Param, Delete, Query, UseGuards, Request } from "@nestjs/common";
+import { AccountGroupsService } from "./account-groups.service";
+import { CreateAccountGroupDto, UpdateAccountGroupDto, AddGroupAccountsDto } from "./dto";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+
+@UseGuards(JwtAuthGuard)
+@Controller("account-groups")
+export class AccountGroupsController {
+  constructor(private readonly accountGroupsService: AccountGroupsService) {}
+
+  @Post()
+  create(@Request() req, @Body() dto: CreateAccountGroupDto) {
+    return this.accountGroupsService.create(req.user.id, dto);
+  }
+
+  @Get()
+  findAll(@Request() req) {
+    return this.accountGroupsService.findAll(req.user.id);
+  }
+
+  /**
+   * Stats of every group, for dashboards
+   * IMPORTANT: This route must be BEFORE @Get(":id") to avoid route conflicts
+   */
+  @Get("stats")
+  getAllStats(@Request() req, @Query("startDate") startDate?: string, @Query("endDate") endDate?: string) {
+    return this.accountGroupsService.getAllStats(
+      req.user.id,
+      startDate ? new Date(startDate) : undefined,
+      endDate ? new Date(endDate) : undefined
+    );
+  }
+
+  @Get(":id")
+  findOne(@Request() req, @Param("id") id: string) {
+    return this.accountGroupsService.findOne(id, req.user.id);
+  }
+
+  @Patch(":id")
+  update(@Request() req, @Param("id") id: string, @Body() dto: UpdateAccountGroupDto) {
+    return this.accountGroupsService.update(id, req.user.id, dto);
+  }
+
+  @Delete(":id")
+  remove(@Request() req, @Param("id") id: string) {
+    return this.accountGroupsService.remove(id, req.user.id);
+  }
+
+  @Get(":id/stats")
+  getStats(
+    @Request() req,
+    @Param("id") id: string,
+    @Query("startDate") startDate?: string,
+    @Query("endDate") endDate?: string
+  ) {
+    return this.accountGroupsService.getStats(
+      id,
+      req.user.id,
+      startDate ? new Date(startDate) : undefined,
+      endDate ? new Date(endDate) : undefined
+    );
+  }
+
+  /**
+   * Add accounts to the group; copiers following the group pick them up as slaves
+   */
+  @Post(":id/accounts")
+  addAccounts(@Request() req, @Param("id") id: string, @Body() dto: AddGroupAccountsDto) {
+    return this.accountGroupsService.addAccounts(id, req.user.id, dto);
+  }
+
+  @Delete(":id/accounts/:accountId")
+  removeAccount(@Request() req, @Param("id") id: string, @Param("accountId") accountId: string) {
+    return this.accountGroupsService.removeAccount(id, req.user.id, accountId);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from "@nestjs/common";
+import { AccountGroupsService } from "./account-groups.service";
+import { AccountGroupsController } from "./account-groups.controller";
+import { CopierModule } from "../copier/copier.module";
+
+@Module({
+  imports: [CopierModule],
+  controllers: [AccountGroupsController],
+  providers: [AccountGroupsService],
+})
+export class AccountGroupsModule {}
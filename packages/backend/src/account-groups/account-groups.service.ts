@@ -0,0 +1,273 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from "@nestjs/common";
+import { Prisma, TradingAccount } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { CopierService } from "../copier/copier.service";
+import { CreateAccountGroupDto, UpdateAccountGroupDto, AddGroupAccountsDto } from "./dto";
+
+export interface AccountGroupStats {
+  groupId: string;
+  name: string;
+  color: string | null;
+  accounts: number;
+  connectedAccounts: number;
+  totalAccountSize: number;
+  totalBalance: number;
+  openTrades: number;
+  closedTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number; // Percentage of closed trades with a positive PnL
+  realizedPnL: number;
+}
+
+/**
+ * Account Groups Service
+ * User-defined sets of trading accounts (e.g. "Eval 50k batch", "Funded PA"). Copiers that
+ * follow a group get its members as slaves, so membership changes are pushed to them, and
+ * stats can be rolled up per group.
+ */
+@Injectable()
+export class AccountGroupsService {
+  private readonly logger = new Logger(AccountGroupsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private copierService: CopierService
+  ) {}
+
+  async create(userId: string, dto: CreateAccountGroupDto) {
+    const { accountIds, ...data } = dto;
+    await this.assertUniqueName(userId, data.name);
+    if (accountIds) {
+      await this.findAccounts(userId, accountIds);
+    }
+
+    const group = await this.prisma.accountGroup.create({
+      data: {
+        ...data,
+        userId,
+        members: accountIds && {
+          create: Array.from(new Set(accountIds)).map((accountId) => ({ accountId })),
+        },
+      },
+    });
+
+    return this.findOne(group.id, userId);
+  }
+
+  async findAll(userId: string) {
+    return this.prisma.accountGroup.findMany({
+      where: { userId },
+      include: {
+        members: {
+          include: {
+            account: true,
+          },
+        },
+        copiers: true,
+      },
+      orderBy: { name: "asc" },
+    });
+  }
+
+  async findOne(id: string, userId?: string) {
+    const group = await this.prisma.accountGroup.findUnique({
+      where: { id },
+      include: {
+        members: {
+          include: {
+            account: true,
+          },
+        },
+        copiers: true,
+      },
+    });
+
+    if (!group) {
+      throw new NotFoundException(`Account group with ID ${id} not found`);
+    }
+
+    if (userId && group.userId !== userId) {
+      throw new BadRequestException("Unauthorized");
+    }
+
+    return group;
+  }
+
+  /**
+   * Changes to the default scaling only apply to slaves added from then on; existing slaves
+   * keep their (possibly tuned) configuration
+   */
+  async update(id: string, userId: string, dto: UpdateAccountGroupDto) {
+    const group = await this.findOne(id, userId);
+    if (dto.name && dto.name !== group.name) {
+      await this.assertUniqueName(userId, dto.name);
+    }
+
+    await this.prisma.accountGroup.update({
+      where: { id },
+      data: dto,
+    });
+
+    return this.findOne(id, userId);
+  }
+
+  async remove(id: string, userId: string) {
+    await this.findOne(id, userId);
+
+    // Detach the copiers first so the slaves the group brought in are removed with it
+    const copiers = await this.prisma.copier.findMany({
+      where: { slaveGroupId: id },
+      select: { id: true },
+    });
+    await this.prisma.copier.updateMany({
+      where: { slaveGroupId: id },
+      data: { slaveGroupId: null },
+    });
+    await this.syncCopiers(copiers.map((copier) => copier.id));
+
+    return this.prisma.accountGroup.delete({
+      where: { id },
+    });
+  }
+
+  async addAccounts(id: string, userId: string, dto: AddGroupAccountsDto) {
+    await this.findOne(id, userId);
+    await this.findAccounts(userId, dto.accountIds);
+
+    await this.prisma.accountGroupMember.createMany({
+      data: dto.accountIds.map((accountId) => ({ groupId: id, accountId })),
+      skipDuplicates: true,
+    });
+    await this.syncGroupCopiers(id);
+
+    return this.findOne(id, userId);
+  }
+
+  async removeAccount(id: string, userId: string, accountId: string) {
+    await this.findOne(id, userId);
+
+    const member = await this.prisma.accountGroupMember.findUnique({
+      where: { groupId_accountId: { groupId: id, accountId } },
+    });
+
+    if (!member) {
+      throw new NotFoundException("Account not found in this group");
+    }
+
+    await this.prisma.accountGroupMember.delete({
+      where: { id: member.id },
+    });
+    await this.syncGroupCopiers(id);
+
+    return this.findOne(id, userId);
+  }
+
+  /**
+   * Stats of every group of the user, for dashboards
+   */
+  async getAllStats(userId: string, startDate?: Date, endDate?: Date): Promise<AccountGroupStats[]> {
+    const groups = await this.findAll(userId);
+
+    return Promise.all(
+      groups.map((group) => this.buildStats(group, this.getAccounts(group), startDate, endDate))
+    );
+  }
+
+  async getStats(id: string, userId: string, startDate?: Date, endDate?: Date): Promise<AccountGroupStats> {
+    const group = await this.findOne(id, userId);
+
+    return this.buildStats(group, this.getAccounts(group), startDate, endDate);
+  }
+
+  private getAccounts(group: { members: { account: TradingAccount }[] }) {
+    return group.members.map((member) => member.account);
+  }
+
+  private async buildStats(
+    group: { id: string; name: string; color: string | null },
+    accounts: TradingAccount[],
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<AccountGroupStats> {
+    const accountIds = accounts.map((account) => account.id);
+
+    const closedWhere: Prisma.TradeWhereInput = { accountId: { in: accountIds }, closedAt: { not: null } };
+    if (startDate || endDate) {
+      closedWhere.closedAt = { not: null, gte: startDate, lte: endDate };
+    }
+
+    const [closedTrades, openTrades] = await Promise.all([
+      this.prisma.trade.findMany({
+        where: closedWhere,
+        select: { realizedPnL: true },
+      }),
+      this.prisma.trade.count({
+        where: { accountId: { in: accountIds }, openedAt: { not: null }, closedAt: null },
+      }),
+    ]);
+
+    const wins = closedTrades.filter((trade) => (trade.realizedPnL || 0) > 0).length;
+    const losses = closedTrades.filter((trade) => (trade.realizedPnL || 0) < 0).length;
+
+    return {
+      groupId: group.id,
+      name: group.name,
+      color: group.color,
+      accounts: accounts.length,
+      connectedAccounts: accounts.filter((account) => account.isConnected).length,
+      totalAccountSize: accounts.reduce((sum, account) => sum + account.accountSize, 0),
+      totalBalance: accounts.reduce((sum, account) => sum + account.currentBalance, 0),
+      openTrades,
+      closedTrades: closedTrades.length,
+      wins,
+      losses,
+      winRate: closedTrades.length > 0 ? (wins / closedTrades.length) * 100 : 0,
+      realizedPnL: closedTrades.reduce((sum, trade) => sum + (trade.realizedPnL || 0), 0),
+    };
+  }
+
+  /**
+   * Push the group's membership to the copiers that follow it
+   */
+  private async syncGroupCopiers(id: string) {
+    const copiers = await this.prisma.copier.findMany({
+      where: { slaveGroupId: id },
+      select: { id: true },
+    });
+
+    await this.syncCopiers(copiers.map((copier) => copier.id));
+  }
+
+  private async syncCopiers(copierIds: string[]) {
+    for (const copierId of copierIds) {
+      const { added, removed } = await this.copierService.syncGroupSlaves(copierId);
+      if (added > 0 || removed > 0) {
+        this.logger.log(`Copier ${copierId}: ${added} slave(s) added, ${removed} removed from its account group`);
+      }
+    }
+  }
+
+  private async findAccounts(userId: string, accountIds: string[]) {
+    const ids = Array.from(new Set(accountIds));
+    const accounts = await this.prisma.tradingAccount.findMany({
+      where: { id: { in: ids }, userId },
+    });
+
+    if (accounts.length !== ids.length) {
+      throw new NotFoundException("Account not found");
+    }
+
+    return accounts;
+  }
+
+  private async assertUniqueName(userId: string, name: string) {
+    const existing = await this.prisma.accountGroup.findUnique({
+      where: { userId_name: { userId, name } },
+    });
+
+    if (existing) {
+      throw new BadRequestException(`An account group named "${name}" already exists`);
+    }
+  }
+}
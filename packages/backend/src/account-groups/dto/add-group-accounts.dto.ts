@@ -0,0 +1,7 @@
+import { IsString, ArrayNotEmpty } from "class-validator";
+
+export class AddGroupAccountsDto {
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  accountIds: string[];
+}
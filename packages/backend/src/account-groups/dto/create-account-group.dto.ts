@@ -0,0 +1,44 @@
+import { IsString, IsNumber, IsBoolean, IsOptional, IsEnum } from "class-validator";
+import { RiskScalingType, ScalingRounding } from "@prisma/client";
+
+export class CreateAccountGroupDto {
+  @IsString()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  color?: string;
+
+  @IsOptional()
+  @IsString({ each: true })
+  accountIds?: string[]; // Initial members
+
+  // Default scaling of the slaves copiers get from the group
+  @IsOptional()
+  @IsEnum(RiskScalingType)
+  scalingType?: RiskScalingType;
+
+  @IsOptional()
+  @IsNumber()
+  fixedContracts?: number;
+
+  @IsOptional()
+  @IsNumber()
+  percentageScale?: number;
+
+  @IsOptional()
+  @IsNumber()
+  maxContracts?: number;
+
+  @IsOptional()
+  @IsEnum(ScalingRounding)
+  roundingMode?: ScalingRounding;
+
+  @IsOptional()
+  @IsBoolean()
+  minimumOneContract?: boolean;
+}
@@ -0,0 +1,3 @@
+export * from "./create-account-group.dto";
+export * from "./update-account-group.dto";
+export * from "./add-group-accounts.dto";
@@ -0,0 +1,5 @@
+import { OmitType, PartialType } from "@nestjs/mapped-types";
+import { CreateAccountGroupDto } from "./create-account-group.dto";
+
+// Members are managed through the group's accounts routes
+export class UpdateAccountGroupDto extends PartialType(OmitType(CreateAccountGroupDto, ["accountIds"] as const)) {}
@@ -43,12 +43,14 @@ export class AccountingController {
   getStats(
     @Request() req,
     @Query("startDate") startDate?: string,
-    @Query("endDate") endDate?: string
+    @Query("endDate") endDate?: string,
+    @Query("accountGroupId") accountGroupId?: string
   ) {
     return this.accountingService.getStats(
       req.user.id,
       startDate ? new Date(startDate) : undefined,
-      endDate ? new Date(endDate) : undefined
+      endDate ? new Date(endDate) : undefined,
+      accountGroupId
     );
   }
 
@@ -167,12 +167,17 @@ export class AccountingService {
   /**
    * Obtener estadísticas de contabilidad
    */
-  async getStats(userId: string, startDate?: Date, endDate?: Date) {
+  async getStats(userId: string, startDate?: Date, endDate?: Date, accountGroupId?: string) {
     const where: any = {
       userId,
       status: "COMPLETED",
     };
 
+    // Only transactions of the group's accounts
+    if (accountGroupId) {
+      where.tradingAccount = { groupMemberships: { some: { groupId: accountGroupId } } };
+    }
+
     if (startDate || endDate) {
       where.transactionDate = {};
       if (startDate) where.transactionDate.gte = startDate;
@@ -0,0 +1,119 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { TradeSide, TradingAccount } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { AdapterRegistry } from "./adapters/adapter.registry";
+import { ITradingAdapter } from "./adapters/trading-adapter.interface";
+
+export interface AccountFlattenResult {
+  accountId: string;
+  accountNumber: string;
+  cancelledOrders: string[]; // Platform order ids
+  closedPositions: Array<{ symbol: string; quantity: number; price: number }>;
+  errors: Array<{ target: string; error: string }>; // Order id, symbol or "connection"
+}
+
+/**
+ * Account Flattener
+ * Emergency flatten of whole accounts: every working order is cancelled and every position
+ * closed at market, for all accounts in parallel. Unlike the slave flattener it does not look
+ * at what a copier placed, whatever is working on the account goes.
+ */
+@Injectable()
+export class AccountFlattener {
+  private readonly logger = new Logger(AccountFlattener.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private adapterRegistry: AdapterRegistry
+  ) {}
+
+  async flatten(accounts: TradingAccount[]): Promise<AccountFlattenResult[]> {
+    return Promise.all(accounts.map((account) => this.flattenAccount(account)));
+  }
+
+  private async flattenAccount(account: TradingAccount): Promise<AccountFlattenResult> {
+    const result: AccountFlattenResult = {
+      accountId: account.id,
+      accountNumber: account.accountNumber,
+      cancelledOrders: [],
+      closedPositions: [],
+      errors: [],
+    };
+
+    let adapter: ITradingAdapter;
+    try {
+      adapter = await this.adapterRegistry.getOrConnect(account);
+    } catch (error) {
+      result.errors.push({ target: "connection", error: error.message });
+      return result;
+    }
+
+    // Orders first, so no entry or bracket leg fills against the flat account
+    await this.cancelOrders(adapter, result);
+    await this.closePositions(adapter, result);
+
+    // Copier records of the account follow the platform
+    await this.prisma.orderMapping.updateMany({
+      where: { slaveAccountId: account.id, status: "working" },
+      data: { status: "cancelled" },
+    });
+    await this.prisma.bracketOrder.deleteMany({
+      where: { slaveAccountId: account.id },
+    });
+    for (const position of result.closedPositions) {
+      await this.prisma.trade.updateMany({
+        where: { accountId: account.id, symbol: position.symbol, closedAt: null },
+        data: { exitPrice: position.price, closedAt: new Date() },
+      });
+    }
+
+    if (result.errors.length > 0) {
+      this.logger.error(`Flatten of account ${account.id} incomplete: ${JSON.stringify(result.errors)}`);
+    }
+
+    return result;
+  }
+
+  private async cancelOrders(adapter: ITradingAdapter, result: AccountFlattenResult): Promise<void> {
+    try {
+      const orders = await adapter.getWorkingOrders();
+      await Promise.all(
+        orders.map(async (order) => {
+          try {
+            await adapter.cancelOrder(order.orderId);
+            result.cancelledOrders.push(order.orderId);
+          } catch (error) {
+            result.errors.push({ target: order.orderId, error: error.message });
+          }
+        })
+      );
+    } catch (error) {
+      result.errors.push({ target: "orders", error: error.message });
+    }
+  }
+
+  private async closePositions(adapter: ITradingAdapter, result: AccountFlattenResult): Promise<void> {
+    try {
+      const accountInfo = await adapter.getAccountInfo();
+      await Promise.all(
+        accountInfo.positions
+          .filter((position) => position.quantity > 0)
+          .map(async (position) => {
+            try {
+              const closingSide = position.side === TradeSide.BUY ? TradeSide.SELL : TradeSide.BUY;
+              const execution = await adapter.closePosition(position.symbol, closingSide);
+              result.closedPositions.push({
+                symbol: position.symbol,
+                quantity: position.quantity,
+                price: execution.price,
+              });
+            } catch (error) {
+              result.errors.push({ target: position.symbol, error: error.message });
+            }
+          })
+      );
+    } catch (error) {
+      result.errors.push({ target: "positions", error: error.message });
+    }
+  }
+}
@@ -6,14 +6,16 @@ import {
   Patch,
   Param,
   Delete,
+  Query,
   UseGuards,
   Request,
 } from "@nestjs/common";
 import { AccountsService } from "./accounts.service";
-import { CreateAccountDto, UpdateAccountDto } from "./dto";
+import { CreateAccountDto, UpdateAccountDto, FlattenAccountsDto, EngageKillSwitchDto } from "./dto";
 import { ConnectPlatformDto } from "./dto/connect-platform.dto";
 import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
 import { TestConnectionDto } from "./adapters/test-connection.dto";
+import { TradingFirm } from "@prisma/client";
 
 @UseGuards(JwtAuthGuard)
 @Controller("accounts")
@@ -27,8 +29,35 @@ export class AccountsController {
   }
 
   @Get()
-  findAll(@Request() req) {
-    return this.accountsService.findAll(req.user.id);
+  findAll(@Request() req, @Query("accountGroupId") accountGroupId?: string) {
+    return this.accountsService.findAll(req.user.id, accountGroupId);
+  }
+
+  /**
+   * List live adapter sessions (one per connected trading account)
+   * IMPORTANT: This route must be BEFORE @Get(":id") to avoid route conflicts
+   */
+  @Get("sessions")
+  getLiveSessions(@Request() req) {
+    return this.accountsService.getLiveSessions(req.user.id);
+  }
+
+  /**
+   * Firm rule presets (drawdown, daily loss, max contracts) by account size
+   * IMPORTANT: This route must be BEFORE @Get(":id") to avoid route conflicts
+   */
+  @Get("presets")
+  getRulePresets(@Query("firm") firm?: TradingFirm) {
+    return this.accountsService.getRulePresets(firm);
+  }
+
+  /**
+   * Kill switch state of the user
+   * IMPORTANT: This route must be BEFORE @Get(":id") to avoid route conflicts
+   */
+  @Get("kill-switch")
+  getKillSwitch(@Request() req) {
+    return this.accountsService.getKillSwitch(req.user.id);
   }
 
   @Get(":id")
@@ -50,6 +79,27 @@ export class AccountsController {
     return this.accountsService.update(id, req.user.id, updateAccountDto);
   }
 
+  /**
+   * Cancel every working order and close every position on the user's accounts
+   */
+  @Post("flatten-all")
+  flattenAll(@Request() req, @Body() dto: FlattenAccountsDto) {
+    return this.accountsService.flattenAll(req.user.id, dto);
+  }
+
+  /**
+   * Block every new order from the copy engine until re-armed
+   */
+  @Post("kill-switch")
+  engageKillSwitch(@Request() req, @Body() dto: EngageKillSwitchDto) {
+    return this.accountsService.engageKillSwitch(req.user.id, dto.reason);
+  }
+
+  @Post("kill-switch/rearm")
+  rearmKillSwitch(@Request() req) {
+    return this.accountsService.rearmKillSwitch(req.user.id);
+  }
+
   @Post("test-connection")
   async testConnection(@Body() testConnectionDto: TestConnectionDto) {
     return this.accountsService.testConnection(testConnectionDto);
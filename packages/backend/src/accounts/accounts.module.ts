@@ -1,12 +1,24 @@
-import { Module } from "@nestjs/common";
+import { Module, forwardRef } from "@nestjs/common";
 import { AccountsService } from "./accounts.service";
 import { AccountsController } from "./accounts.controller";
 import { AdaptersModule } from "./adapters/adapters.module";
+import { FirmPresetsService } from "./presets/firm-presets.service";
+import { DrawdownTrackerService } from "./drawdown-tracker.service";
+import { AccountFlattener } from "./account.flattener";
+import { KillSwitchService } from "./kill-switch.service";
+import { CopierModule } from "../copier/copier.module";
 
 @Module({
-  imports: [AdaptersModule],
+  imports: [AdaptersModule, forwardRef(() => CopierModule)],
   controllers: [AccountsController],
-  providers: [AccountsService],
-  exports: [AccountsService, AdaptersModule],
+  providers: [AccountsService, FirmPresetsService, DrawdownTrackerService, AccountFlattener, KillSwitchService],
+  exports: [
+    AccountsService,
+    FirmPresetsService,
+    DrawdownTrackerService,
+    AccountFlattener,
+    KillSwitchService,
+    AdaptersModule,
+  ],
 })
 export class AccountsModule {}
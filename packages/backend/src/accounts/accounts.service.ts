@@ -1,8 +1,14 @@
-import { Injectable, NotFoundException, BadRequestException, Logger } from "@nestjs/common";
+import { Injectable, NotFoundException, BadRequestException, Logger, Inject, forwardRef } from "@nestjs/common";
 import { PrismaService } from "../prisma/prisma.service";
-import { CreateAccountDto, UpdateAccountDto } from "./dto";
+import { CreateAccountDto, UpdateAccountDto, FlattenAccountsDto } from "./dto";
 import { AdapterFactory } from "./adapters/adapter.factory";
+import { AdapterRegistry } from "./adapters/adapter.registry";
 import { TestConnectionDto } from "./adapters/test-connection.dto";
+import { FirmPresetsService } from "./presets/firm-presets.service";
+import { AccountFlattener } from "./account.flattener";
+import { KillSwitchService } from "./kill-switch.service";
+import { TradeCopierEngine } from "../copier/trade-copier.engine";
+import { CopierStatus, TradingFirm } from "@prisma/client";
 
 @Injectable()
 export class AccountsService {
@@ -10,24 +16,42 @@ export class AccountsService {
 
   constructor(
     private prisma: PrismaService,
-    private adapterFactory: AdapterFactory
+    private adapterFactory: AdapterFactory,
+    private adapterRegistry: AdapterRegistry,
+    private firmPresets: FirmPresetsService,
+    private accountFlattener: AccountFlattener,
+    private killSwitch: KillSwitchService,
+    @Inject(forwardRef(() => TradeCopierEngine))
+    private tradeCopierEngine: TradeCopierEngine
   ) {}
 
   async create(userId: string, createAccountDto: CreateAccountDto) {
     this.logger.log(`📝 Creating account for user ${userId}`);
     this.logger.log(`📝 Account data:`, JSON.stringify(createAccountDto, null, 2));
+
+    // Fill the risk limits the user left empty from the firm's rule preset
+    const presetDefaults = this.firmPresets.getAccountDefaults(
+      createAccountDto.firm,
+      createAccountDto.accountSize
+    );
     
     return this.prisma.tradingAccount.create({
       data: {
         ...createAccountDto,
+        maxDrawdown: createAccountDto.maxDrawdown ?? presetDefaults.maxDrawdown,
+        dailyLossLimit: createAccountDto.dailyLossLimit ?? presetDefaults.dailyLossLimit,
+        rulePresetVersion: presetDefaults.rulePresetVersion,
         userId: userId,
       } as any, // Type assertion to handle Prisma's complex types
     });
   }
 
-  async findAll(userId: string) {
+  async findAll(userId: string, accountGroupId?: string) {
     return this.prisma.tradingAccount.findMany({
-      where: { userId },
+      where: {
+        userId,
+        ...(accountGroupId && { groupMemberships: { some: { groupId: accountGroupId } } }),
+      },
       include: {
         masterCopiers: true,
         slaveConfigs: {
@@ -35,6 +59,11 @@ export class AccountsService {
             copier: true,
           },
         },
+        groupMemberships: {
+          include: {
+            group: true,
+          },
+        },
       },
     });
   }
@@ -117,13 +146,10 @@ export class AccountsService {
 
     try {
       // Disconnect the account first if connected
-      if (account.isConnected) {
-        this.logger.log(`Account ${id} is connected, attempting to disconnect...`);
+      if (this.adapterRegistry.has(id)) {
+        this.logger.log(`Account ${id} has a live session, attempting to disconnect...`);
         try {
-          const adapter = this.adapterFactory.getAdapter(account.platform, account.firm);
-          if (adapter.isConnected()) {
-            await adapter.disconnect();
-          }
+          await this.adapterRegistry.release(id);
         } catch (error) {
           this.logger.warn(`Failed to disconnect adapter for account ${id}, continuing with deletion:`, error);
         }
@@ -154,19 +180,9 @@ export class AccountsService {
   async connect(id: string, userId: string) {
     const account = await this.findOne(id, userId);
 
-    // Get adapter for this platform
-    const adapter = this.adapterFactory.getAdapter(account.platform, account.firm);
-
     try {
-      // Connect using email/password or API key/secret
-      await adapter.connect({
-        email: account.email || undefined,
-        password: account.password || undefined,
-        apiKey: account.apiKey || undefined,
-        apiSecret: account.apiSecret || undefined,
-        accountNumber: account.accountNumber,
-        config: account.additionalConfig,
-      });
+      // Open (or replace) the dedicated adapter session for this account
+      await this.adapterRegistry.reconnect(account);
 
       // Update account status
       return this.prisma.tradingAccount.update({
@@ -191,10 +207,7 @@ export class AccountsService {
   async disconnect(id: string, userId: string) {
     await this.findOne(id, userId);
 
-    const account = await this.findOne(id, userId);
-    const adapter = this.adapterFactory.getAdapter(account.platform, account.firm);
-
-    await adapter.disconnect();
+    await this.adapterRegistry.release(id);
 
     return this.prisma.tradingAccount.update({
       where: { id },
@@ -204,12 +217,99 @@ export class AccountsService {
     });
   }
 
+  /**
+   * Emergency flatten: engage the kill switch, stop the copiers that copy from or onto the
+   * selected accounts (all by default), then cancel all their working orders and close all positions
+   */
+  async flattenAll(userId: string, dto: FlattenAccountsDto) {
+    const accounts = await this.prisma.tradingAccount.findMany({
+      where: { userId, ...(dto.accountIds && { id: { in: dto.accountIds } }) },
+    });
+    if (dto.accountIds && accounts.length !== dto.accountIds.length) {
+      throw new NotFoundException("Account not found");
+    }
+
+    const reason = dto.reason || "Flatten all";
+    const killSwitch =
+      dto.engageKillSwitch === false
+        ? await this.killSwitch.getState(userId)
+        : await this.killSwitch.engage(userId, reason);
+
+    // Stopped first, so the copiers cannot copy anything back onto the flat accounts
+    const accountIds = accounts.map((account) => account.id);
+    const copiers = await this.prisma.copier.findMany({
+      where: {
+        userId,
+        status: { not: CopierStatus.STOPPED },
+        ...(dto.accountIds && {
+          OR: [
+            { masterAccountId: { in: accountIds } },
+            { masters: { some: { accountId: { in: accountIds } } } },
+            { slaveConfigs: { some: { slaveAccountId: { in: accountIds } } } },
+          ],
+        }),
+      },
+      select: { id: true },
+    });
+    for (const copier of copiers) {
+      await this.tradeCopierEngine.stop(copier.id);
+    }
+    await this.prisma.copier.updateMany({
+      where: { id: { in: copiers.map((copier) => copier.id) } },
+      data: { status: CopierStatus.STOPPED, statusReason: reason },
+    });
+
+    this.logger.warn(`Flattening ${accounts.length} account(s) of user ${userId}: ${reason}`);
+
+    return {
+      killSwitch,
+      stoppedCopiers: copiers.map((copier) => copier.id),
+      accounts: await this.accountFlattener.flatten(accounts),
+    };
+  }
+
+  async getKillSwitch(userId: string) {
+    return this.killSwitch.getState(userId);
+  }
+
+  async engageKillSwitch(userId: string, reason?: string) {
+    return this.killSwitch.engage(userId, reason || "Engaged manually");
+  }
+
+  async rearmKillSwitch(userId: string) {
+    return this.killSwitch.rearm(userId);
+  }
+
+  /**
+   * Firm rule presets used to fill account risk limits
+   */
+  getRulePresets(firm?: TradingFirm) {
+    return this.firmPresets.listPresets(firm);
+  }
+
+  /**
+   * List the live adapter sessions of the user's accounts
+   */
+  async getLiveSessions(userId: string) {
+    const accounts = await this.prisma.tradingAccount.findMany({
+      where: { userId },
+      select: { id: true, name: true },
+    });
+
+    const names = new Map(accounts.map((account) => [account.id, account.name]));
+
+    return this.adapterRegistry
+      .listSessions(accounts.map((account) => account.id))
+      .map((session) => ({ ...session, name: names.get(session.accountId) }));
+  }
+
   /**
    * Test connection to trading platform without saving account
    */
   async testConnection(testConnectionDto: TestConnectionDto) {
     try {
-      const adapter = this.adapterFactory.getAdapter(
+      // Use a throwaway adapter instance so live account sessions are not affected
+      const adapter = this.adapterFactory.createAdapter(
         testConnectionDto.platform,
         testConnectionDto.firm
       );
@@ -271,7 +371,7 @@ export class AccountsService {
       this.logger.log(`   Has API Secret: ${!!connectDto.apiSecret}`);
 
       // Get adapter
-      const adapter = this.adapterFactory.getAdapter(
+      const adapter = this.adapterFactory.createAdapter(
         connectDto.platform,
         connectDto.firm
       );
@@ -405,11 +505,21 @@ export class AccountsService {
           isConnected: true,
         };
 
+        const presetDefaults = this.firmPresets.getAccountDefaults(
+          accountData.firm as TradingFirm,
+          accountData.accountSize
+        );
+
         if (existingAccount) {
-          // Update existing account
+          // Update existing account (preset limits only fill what is still empty)
           const updated = await this.prisma.tradingAccount.update({
             where: { id: existingAccount.id },
-            data: accountPayload,
+            data: {
+              ...accountPayload,
+              maxDrawdown: existingAccount.maxDrawdown ?? presetDefaults.maxDrawdown,
+              dailyLossLimit: existingAccount.dailyLossLimit ?? presetDefaults.dailyLossLimit,
+              rulePresetVersion: existingAccount.rulePresetVersion ?? presetDefaults.rulePresetVersion,
+            },
           });
           updatedAccounts.push(updated);
         } else {
@@ -417,6 +527,7 @@ export class AccountsService {
           const created = await this.prisma.tradingAccount.create({
             data: {
               ...accountPayload,
+              ...presetDefaults,
               userId,
             },
           });
@@ -454,7 +565,7 @@ export class AccountsService {
   ) {
     try {
       // Get adapter
-      const adapter = this.adapterFactory.getAdapter(
+      const adapter = this.adapterFactory.createAdapter(
         platform as any,
         firm as any
       );
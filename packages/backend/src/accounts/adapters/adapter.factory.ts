@@ -10,9 +10,17 @@ import { TradefyRealAdapter } from "./tradefy-real.adapter";
 import { TradovateAdapter } from "./tradovate/tradovate-adapter";
 import { NinjaTraderAdapter } from "./ninjatrader/ninjatrader-adapter";
 
+/**
+ * Adapter Factory
+ *
+ * Resolves the adapter implementation for a platform/firm pair. `getAdapter` returns the
+ * shared instance (useful for one-off calls), while `createAdapter` builds a fresh instance
+ * so each trading account can hold its own connection (see AdapterRegistry).
+ */
 @Injectable()
 export class AdapterFactory {
   private adapters: Map<string, ITradingAdapter>;
+  private adapterFactories: Map<string, () => ITradingAdapter>;
 
   constructor(
     private topStepXAdapter: TopStepXAdapter,
@@ -27,36 +35,37 @@ export class AdapterFactory {
     @Inject("NinjaTraderAdapter_MyFunded") private ninjaTraderAdapterMyFunded: NinjaTraderAdapter
   ) {
     this.adapters = new Map();
+    this.adapterFactories = new Map();
     this.registerAdapters();
   }
 
   private registerAdapters() {
     // Register mock adapters (for testing/development)
-    this.adapters.set(this.getKey(Platform.RITHMIC, TradingFirm.TOPSTEPX), this.topStepXAdapter);
+    this.registerAdapter(Platform.RITHMIC, TradingFirm.TOPSTEPX, this.topStepXAdapter, () => new TopStepXAdapter());
     
     // Register real adapters (use environment variable to switch)
     const useRealAdapters = process.env.USE_REAL_ADAPTERS === "true";
     
     if (useRealAdapters) {
       // TopStepX uses ProjectX platform
-      this.adapters.set(this.getKey(Platform.PROJECTX, TradingFirm.TOPSTEPX), this.topStepXRealAdapter);
+      this.registerAdapter(Platform.PROJECTX, TradingFirm.TOPSTEPX, this.topStepXRealAdapter, () => new TopStepXRealAdapter());
       
       // TakeProfitTrader and MyFundedFutures - using Tradovate by default
       // If they use NinjaTrader, update the platform mapping accordingly
-      this.adapters.set(this.getKey(Platform.TRADOVATE, TradingFirm.TAKEPROFIT_TRADER), this.tradovateAdapterTakeProfit);
-      this.adapters.set(this.getKey(Platform.TRADOVATE, TradingFirm.MYFUNDED_FUTURES), this.tradovateAdapterMyFunded);
+      this.registerAdapter(Platform.TRADOVATE, TradingFirm.TAKEPROFIT_TRADER, this.tradovateAdapterTakeProfit, () => new TradovateAdapter(TradingFirm.TAKEPROFIT_TRADER));
+      this.registerAdapter(Platform.TRADOVATE, TradingFirm.MYFUNDED_FUTURES, this.tradovateAdapterMyFunded, () => new TradovateAdapter(TradingFirm.MYFUNDED_FUTURES));
       
       // NinjaTrader adapters (if needed)
-      this.adapters.set(this.getKey(Platform.NINJATRADER, TradingFirm.TAKEPROFIT_TRADER), this.ninjaTraderAdapterTakeProfit);
-      this.adapters.set(this.getKey(Platform.NINJATRADER, TradingFirm.MYFUNDED_FUTURES), this.ninjaTraderAdapterMyFunded);
+      this.registerAdapter(Platform.NINJATRADER, TradingFirm.TAKEPROFIT_TRADER, this.ninjaTraderAdapterTakeProfit, () => new NinjaTraderAdapter(TradingFirm.TAKEPROFIT_TRADER));
+      this.registerAdapter(Platform.NINJATRADER, TradingFirm.MYFUNDED_FUTURES, this.ninjaTraderAdapterMyFunded, () => new NinjaTraderAdapter(TradingFirm.MYFUNDED_FUTURES));
       
       // Keep Rithmic adapters for backward compatibility
-      this.adapters.set(this.getKey(Platform.RITHMIC, TradingFirm.TAKEPROFIT_TRADER), this.takeProfitTraderRealAdapter);
-      this.adapters.set(this.getKey(Platform.RITHMIC, TradingFirm.MYFUNDED_FUTURES), this.myFundedFuturesRealAdapter);
+      this.registerAdapter(Platform.RITHMIC, TradingFirm.TAKEPROFIT_TRADER, this.takeProfitTraderRealAdapter, () => new TakeProfitTraderRealAdapter());
+      this.registerAdapter(Platform.RITHMIC, TradingFirm.MYFUNDED_FUTURES, this.myFundedFuturesRealAdapter, () => new MyFundedFuturesRealAdapter());
       
       // Other firms
-      this.adapters.set(this.getKey(Platform.RITHMIC, TradingFirm.TRADEFY), this.tradefyRealAdapter);
-      this.adapters.set(this.getKey(Platform.RITHMIC, TradingFirm.ALPHA_FUTURES), this.alphaFuturesRealAdapter);
+      this.registerAdapter(Platform.RITHMIC, TradingFirm.TRADEFY, this.tradefyRealAdapter, () => new TradefyRealAdapter());
+      this.registerAdapter(Platform.RITHMIC, TradingFirm.ALPHA_FUTURES, this.alphaFuturesRealAdapter, () => new AlphaFuturesRealAdapter());
     }
   }
 
@@ -64,6 +73,9 @@ export class AdapterFactory {
     return `${platform}_${firm}`;
   }
 
+  /**
+   * Get the shared adapter instance for a platform/firm pair
+   */
   getAdapter(platform: Platform, firm: TradingFirm): ITradingAdapter {
     const key = this.getKey(platform, firm);
     const adapter = this.adapters.get(key);
@@ -75,8 +87,31 @@ export class AdapterFactory {
     return adapter;
   }
 
-  registerAdapter(platform: Platform, firm: TradingFirm, adapter: ITradingAdapter) {
+  /**
+   * Create a new, unconnected adapter instance for a platform/firm pair
+   */
+  createAdapter(platform: Platform, firm: TradingFirm): ITradingAdapter {
+    const key = this.getKey(platform, firm);
+    const create = this.adapterFactories.get(key);
+
+    if (!create) {
+      throw new Error(`No adapter found for platform ${platform} and firm ${firm}`);
+    }
+
+    return create();
+  }
+
+  /**
+   * Register an adapter: the shared instance and how to build a new one per account
+   */
+  registerAdapter(
+    platform: Platform,
+    firm: TradingFirm,
+    adapter: ITradingAdapter,
+    create: () => ITradingAdapter
+  ) {
     const key = this.getKey(platform, firm);
     this.adapters.set(key, adapter);
+    this.adapterFactories.set(key, create);
   }
 }
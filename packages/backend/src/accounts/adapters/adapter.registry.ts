@@ -0,0 +1,248 @@
+import { Injectable, Logger, OnModuleDestroy } from "@nestjs/common";
+import { Platform, TradingAccount, TradingFirm } from "@prisma/client";
+import { AdapterFactory } from "./adapter.factory";
+import {
+  ConnectionConfig,
+  ITradingAdapter,
+  Position,
+  TradeExecution,
+} from "./trading-adapter.interface";
+
+export interface AdapterSessionInfo {
+  accountId: string;
+  accountNumber: string;
+  platform: Platform;
+  firm: TradingFirm;
+  connected: boolean;
+  connectedAt: Date;
+  lastUsedAt: Date;
+  reconnectCount: number;
+  tradeListeners: number;
+  positionListeners: number;
+}
+
+interface AdapterSession {
+  account: TradingAccount;
+  adapter: ITradingAdapter;
+  connectedAt: Date;
+  lastUsedAt: Date;
+  reconnectCount: number;
+  tradeListeners: Set<(execution: TradeExecution) => void>;
+  positionListeners: Set<(position: Position) => void>;
+  detach: Array<() => void>;
+}
+
+/**
+ * Adapter Registry
+ * Keeps one connected adapter session per TradingAccount, so accounts sharing the same
+ * platform/firm never reuse each other's connection or account number.
+ *
+ * Listeners are registered on the session rather than on the adapter instance, so they
+ * survive reconnects (which replace the underlying adapter).
+ */
+@Injectable()
+export class AdapterRegistry implements OnModuleDestroy {
+  private readonly logger = new Logger(AdapterRegistry.name);
+  private sessions: Map<string, AdapterSession> = new Map();
+  private pendingConnections: Map<string, Promise<AdapterSession>> = new Map();
+
+  constructor(private adapterFactory: AdapterFactory) {}
+
+  /**
+   * Return the connected adapter for an account, opening a session if needed
+   */
+  async getOrConnect(account: TradingAccount): Promise<ITradingAdapter> {
+    const session = this.sessions.get(account.id);
+
+    if (session && session.adapter.isConnected()) {
+      session.lastUsedAt = new Date();
+      return session.adapter;
+    }
+
+    if (session) {
+      return this.reconnect(account);
+    }
+
+    const opened = await this.openSession(account);
+    return opened.adapter;
+  }
+
+  /**
+   * Get the adapter of an existing session without connecting
+   */
+  get(accountId: string): ITradingAdapter | undefined {
+    return this.sessions.get(accountId)?.adapter;
+  }
+
+  has(accountId: string): boolean {
+    return this.sessions.has(accountId);
+  }
+
+  /**
+   * Replace the adapter of an account with a freshly connected one
+   */
+  async reconnect(account: TradingAccount): Promise<ITradingAdapter> {
+    const existing = this.sessions.get(account.id);
+    const pending = this.pendingConnections.get(account.id);
+
+    if (pending) {
+      return (await pending).adapter;
+    }
+
+    if (existing) {
+      await this.teardown(existing);
+    }
+
+    const session = await this.openSession(account, existing);
+    return session.adapter;
+  }
+
+  /**
+   * Disconnect and forget the session of an account
+   */
+  async release(accountId: string): Promise<void> {
+    const session = this.sessions.get(accountId);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(accountId);
+    await this.teardown(session);
+    this.logger.log(`Released adapter session for account ${accountId}`);
+  }
+
+  /**
+   * Subscribe to trade updates of an account session.
+   * The session must have been opened with getOrConnect first.
+   */
+  onTradeUpdate(accountId: string, callback: (execution: TradeExecution) => void): () => void {
+    const session = this.requireSession(accountId);
+    session.tradeListeners.add(callback);
+    return () => {
+      session.tradeListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to position updates of an account session
+   */
+  onPositionUpdate(accountId: string, callback: (position: Position) => void): () => void {
+    const session = this.requireSession(accountId);
+    session.positionListeners.add(callback);
+    return () => {
+      session.positionListeners.delete(callback);
+    };
+  }
+
+  /**
+   * List live sessions, optionally restricted to some accounts
+   */
+  listSessions(accountIds?: string[]): AdapterSessionInfo[] {
+    const sessions = Array.from(this.sessions.values()).filter(
+      (session) => !accountIds || accountIds.includes(session.account.id)
+    );
+
+    return sessions.map((session) => ({
+      accountId: session.account.id,
+      accountNumber: session.account.accountNumber,
+      platform: session.account.platform,
+      firm: session.account.firm,
+      connected: session.adapter.isConnected(),
+      connectedAt: session.connectedAt,
+      lastUsedAt: session.lastUsedAt,
+      reconnectCount: session.reconnectCount,
+      tradeListeners: session.tradeListeners.size,
+      positionListeners: session.positionListeners.size,
+    }));
+  }
+
+  async onModuleDestroy() {
+    for (const accountId of Array.from(this.sessions.keys())) {
+      await this.release(accountId);
+    }
+  }
+
+  private async openSession(
+    account: TradingAccount,
+    previous?: AdapterSession
+  ): Promise<AdapterSession> {
+    const pending = this.pendingConnections.get(account.id);
+    if (pending) {
+      return pending;
+    }
+
+    const connection = this.connectSession(account, previous).finally(() => {
+      this.pendingConnections.delete(account.id);
+    });
+    this.pendingConnections.set(account.id, connection);
+
+    return connection;
+  }
+
+  private async connectSession(
+    account: TradingAccount,
+    previous?: AdapterSession
+  ): Promise<AdapterSession> {
+    this.logger.log(`Opening adapter session for account ${account.id} (${account.accountNumber})`);
+
+    const adapter = this.adapterFactory.createAdapter(account.platform, account.firm);
+    await adapter.connect(this.toConnectionConfig(account));
+
+    const now = new Date();
+    const session: AdapterSession = {
+      account,
+      adapter,
+      connectedAt: now,
+      lastUsedAt: now,
+      reconnectCount: previous ? previous.reconnectCount + 1 : 0,
+      tradeListeners: previous?.tradeListeners || new Set(),
+      positionListeners: previous?.positionListeners || new Set(),
+      detach: [],
+    };
+
+    // Forward adapter events to the session listeners
+    session.detach.push(
+      adapter.onTradeUpdate((execution) => {
+        session.tradeListeners.forEach((listener) => listener(execution));
+      }),
+      adapter.onPositionUpdate((position) => {
+        session.positionListeners.forEach((listener) => listener(position));
+      })
+    );
+
+    this.sessions.set(account.id, session);
+    return session;
+  }
+
+  private async teardown(session: AdapterSession): Promise<void> {
+    session.detach.forEach((detach) => detach());
+    session.detach = [];
+
+    try {
+      if (session.adapter.isConnected()) {
+        await session.adapter.disconnect();
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to disconnect adapter for account ${session.account.id}:`, error);
+    }
+  }
+
+  private requireSession(accountId: string): AdapterSession {
+    const session = this.sessions.get(accountId);
+    if (!session) {
+      throw new Error(`No adapter session for account ${accountId}`);
+    }
+    return session;
+  }
+
+  private toConnectionConfig(account: TradingAccount): ConnectionConfig {
+    return {
+      email: account.email || undefined,
+      password: account.password || undefined,
+      apiKey: account.apiKey || undefined,
+      apiSecret: account.apiSecret || undefined,
+      accountNumber: account.accountNumber,
+      config: account.additionalConfig ?? undefined,
+    };
+  }
+}
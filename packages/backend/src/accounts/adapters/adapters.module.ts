@@ -1,5 +1,6 @@
 import { Module } from "@nestjs/common";
 import { AdapterFactory } from "./adapter.factory";
+import { AdapterRegistry } from "./adapter.registry";
 import { TopStepXAdapter } from "./topstepx.adapter";
 import { TopStepXRealAdapter } from "./topstepx-real.adapter";
 import { TakeProfitTraderRealAdapter } from "./takeprofit-real.adapter";
@@ -14,6 +15,7 @@ import { TradingFirm } from "@prisma/client";
 @Module({
   providers: [
     AdapterFactory,
+    AdapterRegistry,
     TopStepXAdapter, // Mock adapter
     // Real adapters
     TopStepXRealAdapter, // Uses ProjectX
@@ -39,6 +41,6 @@ import { TradingFirm } from "@prisma/client";
       useFactory: () => new NinjaTraderAdapter(TradingFirm.MYFUNDED_FUTURES),
     },
   ],
-  exports: [AdapterFactory],
+  exports: [AdapterFactory, AdapterRegistry],
 })
 export class AdaptersModule {}
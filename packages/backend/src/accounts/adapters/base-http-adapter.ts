@@ -7,6 +7,7 @@ import {
   TradeExecution,
   AccountInfo,
   Position,
+  WorkingOrder,
 } from "./trading-adapter.interface";
 import { TradingFirm, Platform, TradeSide, TradeType } from "@prisma/client";
 
@@ -210,6 +211,30 @@ export abstract class BaseHttpAdapter implements ITradingAdapter {
     }
   }
 
+  /**
+   * Get fills executed since a point in time, oldest first
+   */
+  async getTradeHistory(since: Date): Promise<TradeExecution[]> {
+    const trades = await this.fetchTrades();
+    return trades
+      .filter((trade) => trade.status === "filled" || trade.status === "partially_filled")
+      .filter((trade) => new Date(trade.executedAt) >= since)
+      .sort((a, b) => new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime());
+  }
+
+  /**
+   * Get the orders still working on the platform
+   */
+  async getWorkingOrders(): Promise<WorkingOrder[]> {
+    if (!this.connected) {
+      throw new Error("Not connected to trading platform");
+    }
+
+    // Implementation depends on platform API
+    // This is a placeholder - override in subclass
+    throw new Error("getWorkingOrders not implemented");
+  }
+
   /**
    * Get all accounts - must be implemented by subclasses
    */
@@ -300,6 +325,8 @@ export abstract class BaseHttpAdapter implements ITradingAdapter {
       price: platformTrade.price || platformTrade.fillPrice,
       executedAt: new Date(platformTrade.executedAt || platformTrade.timestamp),
       status: this.normalizeStatus(platformTrade.status),
+      stopLoss: platformTrade.stopLoss,
+      takeProfit: platformTrade.takeProfit,
     };
   }
 
@@ -5,6 +5,7 @@ import {
   ConnectionConfig,
   TradeOrder,
   TradeExecution,
+  WorkingOrder,
   AccountInfo,
   Position,
 } from "../trading-adapter.interface";
@@ -283,6 +284,8 @@ export class NinjaTraderAdapter implements ITradingAdapter {
         price: message.price,
         executedAt: new Date(message.executedAt || message.timestamp),
         status: this.normalizeStatus(message.status),
+        stopLoss: message.stopLoss,
+        takeProfit: message.takeProfit,
       };
       this.tradeCallbacks.forEach((callback) => callback(execution));
     }
@@ -462,6 +465,50 @@ export class NinjaTraderAdapter implements ITradingAdapter {
     return await this.fetchAccountInfo();
   }
 
+  /**
+   * Get fills executed since a point in time, oldest first
+   */
+  async getTradeHistory(since: Date): Promise<TradeExecution[]> {
+    const trades = await this.fetchTrades();
+    return trades
+      .filter((trade) => trade.status === "filled" || trade.status === "partially_filled")
+      .filter((trade) => new Date(trade.executedAt) >= since)
+      .sort((a, b) => new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime());
+  }
+
+  /**
+   * Get the orders still working on the platform (e.g. stop-loss/take-profit brackets)
+   */
+  async getWorkingOrders(): Promise<WorkingOrder[]> {
+    if (!this.connected) {
+      throw new Error("Not connected to trading platform");
+    }
+
+    const orderEndpoints = ["/api/order/list", "/api/v1/order/list", "/api/orders", "/api/v1/orders"];
+
+    for (const endpoint of orderEndpoints) {
+      try {
+        const response = await this.httpClient.get(endpoint, {
+          params: { accountId: this.config?.accountNumber, status: "working" },
+          validateStatus: (status) => status < 500,
+        });
+
+        if (response.status === 200 && response.data) {
+          const orders = Array.isArray(response.data)
+            ? response.data
+            : response.data.orders || response.data.data || [];
+          return orders
+            .map((order: any) => this.normalizeWorkingOrder(order))
+            .filter((order: WorkingOrder) => order.type !== TradeType.MARKET);
+        }
+      } catch (error: any) {
+        continue;
+      }
+    }
+
+    throw new Error("Could not retrieve working orders from any known endpoint.");
+  }
+
   async getAllAccounts(): Promise<AccountInfo[]> {
     if (!this.connected) throw new Error("Not connected");
     
@@ -676,6 +723,21 @@ export class NinjaTraderAdapter implements ITradingAdapter {
       price: trade.price || trade.fillPrice,
       executedAt: new Date(trade.executedAt || trade.timestamp || trade.time),
       status: this.normalizeStatus(trade.status),
+      stopLoss: trade.stopLoss,
+      takeProfit: trade.takeProfit,
+    };
+  }
+
+  protected normalizeWorkingOrder(order: any): WorkingOrder {
+    const type = String(order.type || order.orderType || "").toUpperCase();
+
+    return {
+      orderId: String(order.orderId || order.id),
+      symbol: order.symbol,
+      side: this.normalizeSide(order.side || order.action),
+      type: type.includes("STOP") ? TradeType.STOP : type.includes("LIMIT") ? TradeType.LIMIT : TradeType.MARKET,
+      quantity: order.quantity || order.orderQty || order.size,
+      price: order.stopPrice || order.limitPrice || order.price,
     };
   }
 
@@ -5,6 +5,7 @@ import {
   ConnectionConfig,
   TradeOrder,
   TradeExecution,
+  WorkingOrder,
   AccountInfo,
   Position,
 } from "../trading-adapter.interface";
@@ -321,6 +322,8 @@ export class ProjectXAdapter implements ITradingAdapter {
         price: message.price,
         executedAt: new Date(message.executedAt || message.timestamp),
         status: this.normalizeStatus(message.status),
+        stopLoss: message.stopLoss,
+        takeProfit: message.takeProfit,
       };
 
       this.tradeCallbacks.forEach((callback) => callback(execution));
@@ -526,6 +529,40 @@ export class ProjectXAdapter implements ITradingAdapter {
     }
   }
 
+  /**
+   * Get fills executed since a point in time, oldest first
+   */
+  async getTradeHistory(since: Date): Promise<TradeExecution[]> {
+    const trades = await this.fetchTrades();
+    return trades
+      .filter((trade) => trade.status === "filled" || trade.status === "partially_filled")
+      .filter((trade) => new Date(trade.executedAt) >= since)
+      .sort((a, b) => new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime());
+  }
+
+  /**
+   * Get the orders still working on the platform (e.g. stop-loss/take-profit brackets)
+   */
+  async getWorkingOrders(): Promise<WorkingOrder[]> {
+    if (!this.connected) {
+      throw new Error("Not connected to trading platform");
+    }
+
+    try {
+      const response = await this.httpClient.get(`/accounts/${this.config?.accountNumber}/orders`, {
+        params: { status: "working" },
+      });
+
+      const orders = response.data.orders || response.data || [];
+      return orders
+        .map((order: any) => this.normalizeWorkingOrder(order))
+        .filter((order: WorkingOrder) => order.type !== TradeType.MARKET);
+    } catch (error) {
+      this.logger.error(`Failed to fetch working orders:`, error);
+      throw error;
+    }
+  }
+
   async getAllAccounts(): Promise<AccountInfo[]> {
     if (!this.connected) {
       throw new Error("Not connected to trading platform");
@@ -704,6 +741,24 @@ export class ProjectXAdapter implements ITradingAdapter {
       price: platformTrade.price || platformTrade.fillPrice,
       executedAt: new Date(platformTrade.executedAt || platformTrade.timestamp),
       status: this.normalizeStatus(platformTrade.status),
+      stopLoss: platformTrade.stopLoss,
+      takeProfit: platformTrade.takeProfit,
+    };
+  }
+
+  /**
+   * Convert a platform-specific working order to WorkingOrder
+   */
+  protected normalizeWorkingOrder(order: any): WorkingOrder {
+    const type = String(order.type || order.orderType || "").toUpperCase();
+
+    return {
+      orderId: String(order.orderId || order.id),
+      symbol: order.symbol,
+      side: this.normalizeSide(order.side || order.action),
+      type: type.includes("STOP") ? TradeType.STOP : type.includes("LIMIT") ? TradeType.LIMIT : TradeType.MARKET,
+      quantity: order.quantity || order.orderQty || order.size,
+      price: order.stopPrice || order.limitPrice || order.price,
     };
   }
 
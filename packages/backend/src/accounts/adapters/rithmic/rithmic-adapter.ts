@@ -5,6 +5,7 @@ import {
   ConnectionConfig,
   TradeOrder,
   TradeExecution,
+  WorkingOrder,
   AccountInfo,
   Position,
 } from "../trading-adapter.interface";
@@ -370,6 +371,8 @@ export class RithmicAdapter implements ITradingAdapter {
       price: message.price || message.fillPrice,
       executedAt: new Date(message.timestamp || message.executedAt || Date.now()),
       status: this.normalizeStatus(message.status),
+      stopLoss: message.stopLoss,
+      takeProfit: message.takeProfit,
     };
 
     this.tradeCallbacks.forEach((callback) => callback(execution));
@@ -606,6 +609,40 @@ export class RithmicAdapter implements ITradingAdapter {
     this.positionCallbacks = [];
   }
 
+  /**
+   * Get fills executed since a point in time, oldest first
+   */
+  async getTradeHistory(since: Date): Promise<TradeExecution[]> {
+    const trades = await this.fetchTrades();
+    return trades
+      .filter((trade) => trade.status === "filled" || trade.status === "partially_filled")
+      .filter((trade) => new Date(trade.executedAt) >= since)
+      .sort((a, b) => new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime());
+  }
+
+  /**
+   * Get the orders still working on the platform (e.g. stop-loss/take-profit brackets)
+   */
+  async getWorkingOrders(): Promise<WorkingOrder[]> {
+    if (!this.connected) {
+      throw new Error("Not connected to trading platform");
+    }
+
+    try {
+      const response = await this.httpClient.get(`/accounts/${this.config?.accountNumber}/orders`, {
+        params: { status: "working" },
+      });
+
+      const orders = response.data.orders || response.data || [];
+      return orders
+        .map((order: any) => this.normalizeWorkingOrder(order))
+        .filter((order: WorkingOrder) => order.type !== TradeType.MARKET);
+    } catch (error) {
+      this.logger.error(`Failed to fetch working orders:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Get all trading accounts associated with the provided credentials.
    * This is used for automatic account discovery after login.
@@ -686,6 +723,19 @@ export class RithmicAdapter implements ITradingAdapter {
   }
 
   // Helper methods
+  private normalizeWorkingOrder(order: any): WorkingOrder {
+    const type = String(order.type || order.orderType || "").toUpperCase();
+
+    return {
+      orderId: String(order.orderId || order.id),
+      symbol: order.symbol,
+      side: this.normalizeSide(order.side || order.action),
+      type: type.includes("STOP") ? TradeType.STOP : type.includes("LIMIT") ? TradeType.LIMIT : TradeType.MARKET,
+      quantity: order.quantity || order.orderQty || order.size,
+      price: order.stopPrice || order.limitPrice || order.price,
+    };
+  }
+
   private normalizeSide(side: string): TradeSide {
     const upper = side.toUpperCase();
     if (upper === "BUY" || upper === "LONG" || upper === "1") return TradeSide.BUY;
@@ -713,6 +763,8 @@ export class RithmicAdapter implements ITradingAdapter {
       price: data.price || data.fillPrice,
       executedAt: new Date(data.executedAt || data.timestamp || Date.now()),
       status: this.normalizeStatus(data.status),
+      stopLoss: data.stopLoss,
+      takeProfit: data.takeProfit,
     };
   }
 }
@@ -5,6 +5,7 @@ import {
   ConnectionConfig,
   TradeOrder,
   TradeExecution,
+  WorkingOrder,
   AccountInfo,
   Position,
 } from "./trading-adapter.interface";
@@ -158,6 +159,16 @@ export class TopStepXAdapter implements ITradingAdapter {
     };
   }
 
+  async getTradeHistory(since: Date): Promise<TradeExecution[]> {
+    // Mock implementation - no trade history
+    return [];
+  }
+
+  async getWorkingOrders(): Promise<WorkingOrder[]> {
+    // Mock implementation - no working orders
+    return [];
+  }
+
   async getAllAccounts(): Promise<AccountInfo[]> {
     // Mock implementation - return current account
     return [await this.getAccountInfo()];
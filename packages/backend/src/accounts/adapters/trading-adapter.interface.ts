@@ -35,6 +35,8 @@ export interface TradeExecution {
   price: number;
   executedAt: Date;
   status: "filled" | "partially_filled" | "pending" | "cancelled" | "rejected";
+  stopLoss?: number; // Set on working-order updates that move SL/TP
+  takeProfit?: number;
 }
 
 export interface Position {
@@ -45,6 +47,15 @@ export interface Position {
   unrealizedPnL: number;
 }
 
+export interface WorkingOrder {
+  orderId: string;
+  symbol: string;
+  side: TradeSide;
+  type: TradeType; // LIMIT or STOP
+  quantity: number;
+  price: number; // Limit price, or trigger price of a stop
+}
+
 export interface AccountInfo {
   accountId: string;
   balance: number;
@@ -108,6 +119,17 @@ export interface ITradingAdapter {
    */
   getAccountInfo(): Promise<AccountInfo>;
 
+  /**
+   * Get the fills executed since a point in time, oldest first
+   * Used to catch up on fills missed while the server was down
+   */
+  getTradeHistory(since: Date): Promise<TradeExecution[]>;
+
+  /**
+   * Get the orders still working on the platform (e.g. stop-loss/take-profit brackets)
+   */
+  getWorkingOrders(): Promise<WorkingOrder[]>;
+
   /**
    * Get all accounts associated with the authenticated user
    * This is used to automatically discover and add accounts after login
@@ -5,6 +5,7 @@ import {
   ConnectionConfig,
   TradeOrder,
   TradeExecution,
+  WorkingOrder,
   AccountInfo,
   Position,
 } from "../trading-adapter.interface";
@@ -254,6 +255,8 @@ export class TradovateAdapter implements ITradingAdapter {
           price: trade.price,
           executedAt: new Date(trade.executedAt || trade.timestamp),
           status: this.normalizeStatus(trade.status),
+          stopLoss: trade.stopLoss,
+          takeProfit: trade.takeProfit,
         };
         this.tradeCallbacks.forEach((callback) => callback(execution));
       }
@@ -412,6 +415,40 @@ export class TradovateAdapter implements ITradingAdapter {
     return await this.fetchAccountInfo();
   }
 
+  /**
+   * Get fills executed since a point in time, oldest first
+   */
+  async getTradeHistory(since: Date): Promise<TradeExecution[]> {
+    const trades = await this.fetchTrades();
+    return trades
+      .filter((trade) => trade.status === "filled" || trade.status === "partially_filled")
+      .filter((trade) => new Date(trade.executedAt) >= since)
+      .sort((a, b) => new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime());
+  }
+
+  /**
+   * Get the orders still working on the platform (e.g. stop-loss/take-profit brackets)
+   */
+  async getWorkingOrders(): Promise<WorkingOrder[]> {
+    if (!this.connected) {
+      throw new Error("Not connected to trading platform");
+    }
+
+    try {
+      const response = await this.httpClient.get(`/v1/order/find`, {
+        params: { accountId: this.config?.accountNumber, ordStatus: "Working" },
+      });
+
+      const orders = response.data.orders || response.data || [];
+      return orders
+        .map((order: any) => this.normalizeWorkingOrder(order))
+        .filter((order: WorkingOrder) => order.type !== TradeType.MARKET);
+    } catch (error) {
+      this.logger.error(`Failed to fetch working orders:`, error);
+      throw error;
+    }
+  }
+
   async getAllAccounts(): Promise<AccountInfo[]> {
     if (!this.connected) throw new Error("Not connected");
     
@@ -515,6 +552,21 @@ export class TradovateAdapter implements ITradingAdapter {
       price: trade.price || trade.fillPrice,
       executedAt: new Date(trade.executedAt || trade.timestamp || trade.time),
       status: this.normalizeStatus(trade.status),
+      stopLoss: trade.stopLoss,
+      takeProfit: trade.takeProfit,
+    };
+  }
+
+  protected normalizeWorkingOrder(order: any): WorkingOrder {
+    const type = String(order.type || order.orderType || "").toUpperCase();
+
+    return {
+      orderId: String(order.orderId || order.id),
+      symbol: order.symbol,
+      side: this.normalizeSide(order.side || order.action),
+      type: type.includes("STOP") ? TradeType.STOP : type.includes("LIMIT") ? TradeType.LIMIT : TradeType.MARKET,
+      quantity: order.quantity || order.orderQty || order.size,
+      price: order.stopPrice || order.limitPrice || order.price,
     };
   }
 
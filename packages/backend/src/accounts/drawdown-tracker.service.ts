@@ -0,0 +1,293 @@
+import { Injectable, Logger, OnModuleDestroy } from "@nestjs/common";
+import { DrawdownMode, TradingAccount } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { AdapterRegistry } from "./adapters/adapter.registry";
+import { AccountInfo } from "./adapters/trading-adapter.interface";
+import { getContractSpec } from "../common/contracts/contract-specs";
+import { getLastDailyTime } from "../common/sessions/trading-schedule";
+import { FIRM_SESSION_CLOSE } from "./presets/firm-presets";
+
+interface TrackedAccount {
+  account: TradingAccount;
+  copierIds: Set<string>;
+  poll: NodeJS.Timeout;
+  sessionClose: NodeJS.Timeout; // Fires at the next session close of the firm
+  detach: () => void;
+  lastRefreshAt: number;
+}
+
+export interface DrawdownCheckOrder {
+  symbol: string;
+  quantity: number;
+  price: number;
+  stopLoss?: number | null;
+}
+
+/**
+ * Drawdown Tracker Service
+ * Follows the equity high-water mark of accounts with a maxDrawdown, persists the drawdown
+ * floor and the distance to breach, and warns when configured thresholds are crossed.
+ * End-of-day trailing accounts trail the balance taken at each session close of their firm.
+ */
+@Injectable()
+export class DrawdownTrackerService implements OnModuleDestroy {
+  private readonly logger = new Logger(DrawdownTrackerService.name);
+  private tracked: Map<string, TrackedAccount> = new Map();
+  private readonly pollIntervalMs = parseInt(process.env.DRAWDOWN_POLL_INTERVAL_MS || "30000");
+  private readonly minRefreshIntervalMs = 2000; // Position updates can arrive in bursts
+
+  constructor(
+    private prisma: PrismaService,
+    private adapterRegistry: AdapterRegistry
+  ) {}
+
+  /**
+   * Start tracking an account on behalf of a copier (accounts without maxDrawdown are ignored)
+   */
+  async track(account: TradingAccount, copierId: string): Promise<void> {
+    if (!account.maxDrawdown) {
+      return;
+    }
+
+    const existing = this.tracked.get(account.id);
+    if (existing) {
+      existing.copierIds.add(copierId);
+      return;
+    }
+
+    await this.adapterRegistry.getOrConnect(account);
+
+    const entry: TrackedAccount = {
+      account,
+      copierIds: new Set([copierId]),
+      poll: setInterval(() => this.refreshSafely(account.id), this.pollIntervalMs),
+      sessionClose: this.scheduleSessionClose(account),
+      detach: this.adapterRegistry.onPositionUpdate(account.id, () => this.refreshSafely(account.id)),
+      lastRefreshAt: 0,
+    };
+    this.tracked.set(account.id, entry);
+
+    await this.refreshSafely(account.id);
+  }
+
+  /**
+   * Stop tracking the accounts of a copier that no other copier uses
+   */
+  untrackCopier(copierId: string): void {
+    for (const [accountId, entry] of Array.from(this.tracked.entries())) {
+      entry.copierIds.delete(copierId);
+      if (entry.copierIds.size === 0) {
+        clearInterval(entry.poll);
+        clearTimeout(entry.sessionClose);
+        entry.detach();
+        this.tracked.delete(accountId);
+      }
+    }
+  }
+
+  /**
+   * Fetch live account info and recompute the drawdown of a tracked account
+   */
+  async refresh(accountId: string): Promise<TradingAccount | null> {
+    const entry = this.tracked.get(accountId);
+    if (!entry || Date.now() - entry.lastRefreshAt < this.minRefreshIntervalMs) {
+      return null;
+    }
+    entry.lastRefreshAt = Date.now();
+
+    const adapter = await this.adapterRegistry.getOrConnect(entry.account);
+    const info = await adapter.getAccountInfo();
+
+    return this.update(accountId, info, entry.copierIds);
+  }
+
+  /**
+   * Persist the balance of a tracked account at a session close, then recompute its drawdown
+   */
+  async recordSessionClose(accountId: string, sessionCloseAt: Date): Promise<TradingAccount | null> {
+    const entry = this.tracked.get(accountId);
+    if (!entry) {
+      return null;
+    }
+
+    const adapter = await this.adapterRegistry.getOrConnect(entry.account);
+    const info = await adapter.getAccountInfo();
+
+    await this.prisma.tradingAccount.update({
+      where: { id: accountId },
+      data: { sessionCloseBalance: info.balance, sessionCloseAt },
+    });
+
+    return this.update(accountId, info, entry.copierIds);
+  }
+
+  /**
+   * Recompute and persist the drawdown state of an account from its live info
+   */
+  async update(
+    accountId: string,
+    info: AccountInfo,
+    copierIds: Set<string> = new Set()
+  ): Promise<TradingAccount | null> {
+    const account = await this.prisma.tradingAccount.findUnique({ where: { id: accountId } });
+    if (!account || !account.maxDrawdown) {
+      return account;
+    }
+
+    const now = new Date();
+    const allowance = (account.accountSize * account.maxDrawdown) / 100; // maxDrawdown is a percentage
+    const equity = info.equity || info.balance;
+    let highWaterMark = account.highWaterMark ?? account.accountSize;
+    let sessionCloseBalance = account.sessionCloseBalance;
+    let sessionCloseAt = account.sessionCloseAt;
+
+    if (account.drawdownMode === DrawdownMode.END_OF_DAY_TRAILING) {
+      // A close passed without being recorded (e.g. server down): the last balance seen before it stands in
+      const lastClose = this.getLastSessionClose(account, now);
+      const missedClose = !sessionCloseAt || sessionCloseAt < lastClose;
+      if (missedClose && account.drawdownUpdatedAt && account.drawdownUpdatedAt < lastClose) {
+        sessionCloseBalance = account.currentBalance;
+        sessionCloseAt = lastClose;
+      }
+      if (sessionCloseBalance !== null) {
+        highWaterMark = Math.max(highWaterMark, sessionCloseBalance);
+      }
+    } else {
+      highWaterMark = Math.max(highWaterMark, equity);
+    }
+
+    const drawdownFloor = highWaterMark - allowance;
+    const distanceToBreach = equity - drawdownFloor;
+    const usedPercent = ((highWaterMark - equity) / allowance) * 100;
+
+    const crossed = account.drawdownWarningThresholds
+      .filter((threshold) => usedPercent >= threshold)
+      .sort((a, b) => b - a)[0];
+
+    let lastDrawdownWarning = account.lastDrawdownWarning;
+    if (crossed === undefined) {
+      lastDrawdownWarning = null; // Recovered below every threshold
+    } else if (crossed > (lastDrawdownWarning ?? -1)) {
+      lastDrawdownWarning = crossed;
+      await this.warn(account, copierIds, usedPercent, distanceToBreach);
+    }
+
+    return this.prisma.tradingAccount.update({
+      where: { id: accountId },
+      data: {
+        currentBalance: info.balance,
+        highWaterMark,
+        drawdownFloor,
+        distanceToBreach,
+        lastDrawdownWarning,
+        drawdownUpdatedAt: now,
+        sessionCloseBalance,
+        sessionCloseAt,
+      },
+    });
+  }
+
+  /**
+   * Whether an order keeps the account above its drawdown floor.
+   * With a stop loss, the loss at the stop must fit in the remaining distance.
+   */
+  async checkOrder(accountId: string, order: DrawdownCheckOrder): Promise<{ allowed: boolean; reason?: string }> {
+    const account = await this.prisma.tradingAccount.findUnique({ where: { id: accountId } });
+    if (!account || !account.maxDrawdown || account.distanceToBreach === null) {
+      return { allowed: true };
+    }
+
+    const spec = getContractSpec(order.symbol);
+    const riskAtStop =
+      order.stopLoss && spec ? Math.abs(order.price - order.stopLoss) * spec.pointValue * order.quantity : 0;
+
+    if (account.distanceToBreach - riskAtStop <= 0) {
+      return {
+        allowed: false,
+        reason:
+          riskAtStop > 0
+            ? `Loss at stop (${riskAtStop.toFixed(2)}) exceeds distance to drawdown breach (${account.distanceToBreach.toFixed(2)})`
+            : `Account is at its drawdown floor (${account.drawdownFloor?.toFixed(2)})`,
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  onModuleDestroy() {
+    for (const entry of this.tracked.values()) {
+      clearInterval(entry.poll);
+      clearTimeout(entry.sessionClose);
+      entry.detach();
+    }
+    this.tracked.clear();
+  }
+
+  private async refreshSafely(accountId: string): Promise<void> {
+    try {
+      await this.refresh(accountId);
+    } catch (error) {
+      this.logger.warn(`Drawdown refresh failed for account ${accountId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Latest session close of the account's firm, in the firm's session timezone
+   */
+  private getLastSessionClose(account: TradingAccount, at: Date): Date {
+    const { time, timezone } = FIRM_SESSION_CLOSE[account.firm];
+    return getLastDailyTime(time, timezone, at);
+  }
+
+  /**
+   * Arm a timer for the next session close, re-armed after each close while the account is tracked
+   */
+  private scheduleSessionClose(account: TradingAccount): NodeJS.Timeout {
+    const now = new Date();
+    // The last close as seen a day ahead is the next one, also across a DST change
+    const nextClose = this.getLastSessionClose(account, new Date(now.getTime() + 24 * 60 * 60 * 1000));
+
+    return setTimeout(async () => {
+      try {
+        await this.recordSessionClose(account.id, this.getLastSessionClose(account, new Date()));
+      } catch (error) {
+        this.logger.warn(`Session close balance failed for account ${account.id}: ${error.message}`);
+      }
+
+      const entry = this.tracked.get(account.id);
+      if (entry) {
+        entry.sessionClose = this.scheduleSessionClose(account);
+      }
+    }, nextClose.getTime() - now.getTime() + 1000);
+  }
+
+  private async warn(
+    account: TradingAccount,
+    copierIds: Set<string>,
+    usedPercent: number,
+    distanceToBreach: number
+  ): Promise<void> {
+    const breached = distanceToBreach <= 0;
+    const message = breached
+      ? `Account ${account.accountNumber} breached its drawdown floor`
+      : `Account ${account.accountNumber} used ${usedPercent.toFixed(0)}% of its drawdown (${distanceToBreach.toFixed(2)} to breach)`;
+
+    this.logger.warn(message);
+
+    for (const copierId of copierIds) {
+      await this.prisma.executionLog.create({
+        data: {
+          copierId,
+          level: breached ? "error" : "warning",
+          message,
+          details: {
+            kind: "drawdown",
+            accountId: account.id,
+            usedPercent,
+            distanceToBreach,
+          },
+        },
+      });
+    }
+  }
+}
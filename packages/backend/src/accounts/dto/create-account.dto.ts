@@ -1,5 +1,5 @@
-import { IsString, IsNumber, IsOptional, IsEnum, IsObject } from "class-validator";
-import { TradingFirm, Platform } from "@prisma/client";
+import { IsString, IsNumber, IsOptional, IsEnum, IsObject, IsArray, IsInt } from "class-validator";
+import { TradingFirm, Platform, DrawdownMode } from "@prisma/client";
 
 export class CreateAccountDto {
   @IsString()
@@ -42,6 +42,15 @@ export class CreateAccountDto {
   @IsNumber()
   dailyLossLimit?: number;
 
+  @IsOptional()
+  @IsEnum(DrawdownMode)
+  drawdownMode?: DrawdownMode;
+
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  drawdownWarningThresholds?: number[];
+
   @IsOptional()
   @IsObject()
   additionalConfig?: any;
@@ -0,0 +1,15 @@
+import { IsOptional, IsString, IsBoolean } from "class-validator";
+
+export class FlattenAccountsDto {
+  @IsOptional()
+  @IsString({ each: true })
+  accountIds?: string[]; // All accounts of the user when omitted
+
+  @IsOptional()
+  @IsBoolean()
+  engageKillSwitch?: boolean; // Default true
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
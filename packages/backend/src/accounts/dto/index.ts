@@ -1,3 +1,5 @@
 export * from "./create-account.dto";
 export * from "./update-account.dto";
-export * from "./connect-platform.dto";
\ No newline at end of file
+export * from "./connect-platform.dto";
+export * from "./flatten-accounts.dto";
+export * from "./engage-kill-switch.dto";
@@ -1,7 +1,7 @@
 import { PartialType } from "@nestjs/mapped-types";
-import { IsOptional, IsString, IsNumber, IsBoolean, IsEnum, IsObject } from "class-validator";
+import { IsOptional, IsString, IsNumber, IsBoolean, IsEnum, IsObject, IsArray, IsInt } from "class-validator";
 import { CreateAccountDto } from "./create-account.dto";
-import { TradingFirm, Platform } from "@prisma/client";
+import { TradingFirm, Platform, DrawdownMode } from "@prisma/client";
 
 export class UpdateAccountDto extends PartialType(CreateAccountDto) {
   @IsOptional()
@@ -52,6 +52,15 @@ export class UpdateAccountDto extends PartialType(CreateAccountDto) {
   @IsNumber()
   dailyLossLimit?: number;
 
+  @IsOptional()
+  @IsEnum(DrawdownMode)
+  drawdownMode?: DrawdownMode;
+
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  drawdownWarningThresholds?: number[];
+
   @IsOptional()
   @IsBoolean()
   isConnected?: boolean;
@@ -0,0 +1,60 @@
+import { Injectable } from "@nestjs/common";
+import { PrismaService } from "../prisma/prisma.service";
+
+export interface KillSwitchState {
+  engaged: boolean;
+  engagedAt: Date | null;
+  reason: string | null;
+}
+
+/**
+ * Kill Switch Service
+ * User-wide emergency stop. While engaged, the copy engine sends no new orders for any copier
+ * of the user (copies, mirrored orders, brackets, drift corrections) and copiers cannot be
+ * started, until the user explicitly re-arms it.
+ */
+@Injectable()
+export class KillSwitchService {
+  constructor(private prisma: PrismaService) {}
+
+  async getState(userId: string): Promise<KillSwitchState> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { killSwitchEngagedAt: true, killSwitchReason: true },
+    });
+
+    return {
+      engaged: !!user?.killSwitchEngagedAt,
+      engagedAt: user?.killSwitchEngagedAt || null,
+      reason: user?.killSwitchReason || null,
+    };
+  }
+
+  async isEngaged(userId: string): Promise<boolean> {
+    return (await this.getState(userId)).engaged;
+  }
+
+  async engage(userId: string, reason: string): Promise<KillSwitchState> {
+    const state = await this.getState(userId);
+    // Engaging again keeps the original time and reason
+    if (state.engaged) {
+      return state;
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { killSwitchEngagedAt: new Date(), killSwitchReason: reason },
+    });
+
+    return this.getState(userId);
+  }
+
+  async rearm(userId: string): Promise<KillSwitchState> {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { killSwitchEngagedAt: null, killSwitchReason: null },
+    });
+
+    return this.getState(userId);
+  }
+}
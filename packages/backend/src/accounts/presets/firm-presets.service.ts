@@ -0,0 +1,132 @@
+import { Injectable } from "@nestjs/common";
+import { TradingAccount, TradingFirm } from "@prisma/client";
+import { CURRENT_PRESET_VERSION, FIRM_RULE_PRESETS, FirmRulePreset } from "./firm-presets";
+import { RiskRuleAction, RiskRuleType } from "../../copier/risk-rules/risk-rule.interface";
+
+export interface PresetRiskRule {
+  ruleType: RiskRuleType;
+  threshold: number;
+  action: RiskRuleAction;
+  params?: Record<string, any>;
+}
+
+/**
+ * Firm Presets Service
+ * Looks up the prop-firm rules of an account by firm and account size
+ */
+@Injectable()
+export class FirmPresetsService {
+  /**
+   * List the presets of a catalog version, optionally for one firm
+   */
+  listPresets(firm?: TradingFirm, version = CURRENT_PRESET_VERSION) {
+    const catalog = FIRM_RULE_PRESETS[version];
+    if (!catalog) {
+      return { version, presets: {} };
+    }
+
+    return {
+      version,
+      presets: firm ? { [firm]: catalog[firm] || [] } : catalog,
+    };
+  }
+
+  /**
+   * Preset of the given account size, or else of the next size down
+   * (discovered accounts report their balance, not their nominal size).
+   * Never the limits of a larger account: null when every preset is larger.
+   */
+  getPreset(
+    firm: TradingFirm,
+    accountSize: number,
+    version = CURRENT_PRESET_VERSION
+  ): FirmRulePreset | null {
+    const presets = FIRM_RULE_PRESETS[version]?.[firm] || [];
+    if (presets.length === 0 || !accountSize) {
+      return null;
+    }
+
+    return presets
+      .filter((preset) => preset.accountSize <= accountSize)
+      .reduce<FirmRulePreset | null>(
+        (best, preset) => (!best || preset.accountSize > best.accountSize ? preset : best),
+        null
+      );
+  }
+
+  /**
+   * Account risk limits derived from the preset of a firm and account size
+   */
+  getAccountDefaults(
+    firm: TradingFirm,
+    accountSize: number
+  ): { maxDrawdown?: number; dailyLossLimit?: number; rulePresetVersion?: string } {
+    const preset = this.getPreset(firm, accountSize);
+    if (!preset) {
+      return {};
+    }
+
+    return {
+      maxDrawdown: (preset.trailingDrawdown / preset.accountSize) * 100, // Stored as a percentage
+      dailyLossLimit: preset.dailyLossLimit ?? undefined,
+      rulePresetVersion: CURRENT_PRESET_VERSION,
+    };
+  }
+
+  /**
+   * Risk rules to seed on a slave config of an account created from a preset
+   */
+  buildRiskRules(account: TradingAccount): PresetRiskRule[] {
+    if (!account.rulePresetVersion) {
+      return [];
+    }
+
+    const preset = this.getPreset(account.firm, account.accountSize, account.rulePresetVersion);
+    if (!preset) {
+      return [];
+    }
+
+    const rules: PresetRiskRule[] = [
+      {
+        ruleType: RiskRuleType.TRAILING_DRAWDOWN,
+        threshold: preset.trailingDrawdown,
+        action: RiskRuleAction.FLATTEN_AND_DISABLE,
+      },
+      {
+        ruleType: RiskRuleType.MAX_CONTRACTS,
+        threshold: preset.maxContracts,
+        action: RiskRuleAction.BLOCK,
+      },
+    ];
+
+    if (preset.dailyLossLimit) {
+      rules.push({
+        ruleType: RiskRuleType.DAILY_LOSS,
+        threshold: preset.dailyLossLimit,
+        action: RiskRuleAction.FLATTEN_AND_DISABLE,
+      });
+    }
+
+    // Consistency is checked by the firm at payout, so breaking it only warns
+    if (preset.consistencyPercent) {
+      rules.push({
+        ruleType: RiskRuleType.CONSISTENCY,
+        threshold: preset.consistencyPercent,
+        action: RiskRuleAction.NOTIFY,
+      });
+    }
+
+    return rules;
+  }
+
+  /**
+   * Whether the firm of an account created from a preset bans trading around news releases
+   */
+  bansNewsTrading(account: TradingAccount): boolean {
+    if (!account.rulePresetVersion) {
+      return false;
+    }
+
+    return Boolean(this.getPreset(account.firm, account.accountSize, account.rulePresetVersion)?.newsTradingBanned);
+  }
+}
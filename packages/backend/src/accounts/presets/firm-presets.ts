@@ -0,0 +1,64 @@
+import { TradingFirm } from "@prisma/client";
+
+export interface FirmRulePreset {
+  accountSize: number;
+  trailingDrawdown: number; // Max loss from the high-water mark, in USD
+  dailyLossLimit: number | null; // In USD, null when the firm has none
+  maxContracts: number; // Mini contracts per account
+  consistencyPercent: number | null; // Max share of total profit a single day may hold
+  newsTradingBanned: boolean; // No trading around high-impact news releases
+}
+
+export interface SessionClose {
+  timezone: string; // IANA zone the firm's trading day is defined in
+  time: string; // "HH:mm" local close, when end-of-day balances are taken
+}
+
+/**
+ * Daily session close per firm (the CME Globex close), when the trading day rolls over
+ */
+export const FIRM_SESSION_CLOSE: Record<TradingFirm, SessionClose> = {
+  [TradingFirm.TOPSTEPX]: { timezone: "America/Chicago", time: "16:00" },
+  [TradingFirm.ALPHA_FUTURES]: { timezone: "America/Chicago", time: "16:00" },
+  [TradingFirm.MYFUNDED_FUTURES]: { timezone: "America/Chicago", time: "16:00" },
+  [TradingFirm.TAKEPROFIT_TRADER]: { timezone: "America/Chicago", time: "16:00" },
+  [TradingFirm.TRADEFY]: { timezone: "America/Chicago", time: "16:00" },
+};
+
+/**
+ * Rule presets per firm, versioned so accounts keep the rules they were created with.
+ * Add a new version instead of editing a published one when firms change their rules.
+ */
+export const FIRM_RULE_PRESETS: Record<string, Record<TradingFirm, FirmRulePreset[]>> = {
+  "2026-10": {
+    [TradingFirm.TOPSTEPX]: [
+      { accountSize: 50000, trailingDrawdown: 2000, dailyLossLimit: 1000, maxContracts: 5, consistencyPercent: 50, newsTradingBanned: false },
+      { accountSize: 100000, trailingDrawdown: 3000, dailyLossLimit: 2000, maxContracts: 10, consistencyPercent: 50, newsTradingBanned: false },
+      { accountSize: 150000, trailingDrawdown: 4500, dailyLossLimit: 3000, maxContracts: 15, consistencyPercent: 50, newsTradingBanned: false },
+    ],
+    [TradingFirm.ALPHA_FUTURES]: [
+      { accountSize: 50000, trailingDrawdown: 2000, dailyLossLimit: 1000, maxContracts: 5, consistencyPercent: 50, newsTradingBanned: true },
+      { accountSize: 100000, trailingDrawdown: 3000, dailyLossLimit: 2000, maxContracts: 10, consistencyPercent: 50, newsTradingBanned: true },
+      { accountSize: 150000, trailingDrawdown: 4500, dailyLossLimit: 3000, maxContracts: 15, consistencyPercent: 50, newsTradingBanned: true },
+    ],
+    [TradingFirm.MYFUNDED_FUTURES]: [
+      { accountSize: 50000, trailingDrawdown: 2000, dailyLossLimit: null, maxContracts: 5, consistencyPercent: 40, newsTradingBanned: false },
+      { accountSize: 100000, trailingDrawdown: 3000, dailyLossLimit: null, maxContracts: 10, consistencyPercent: 40, newsTradingBanned: false },
+      { accountSize: 150000, trailingDrawdown: 4500, dailyLossLimit: null, maxContracts: 15, consistencyPercent: 40, newsTradingBanned: false },
+    ],
+    [TradingFirm.TAKEPROFIT_TRADER]: [
+      { accountSize: 25000, trailingDrawdown: 1500, dailyLossLimit: null, maxContracts: 3, consistencyPercent: 50, newsTradingBanned: true },
+      { accountSize: 50000, trailingDrawdown: 2000, dailyLossLimit: null, maxContracts: 6, consistencyPercent: 50, newsTradingBanned: true },
+      { accountSize: 75000, trailingDrawdown: 2500, dailyLossLimit: null, maxContracts: 9, consistencyPercent: 50, newsTradingBanned: true },
+      { accountSize: 100000, trailingDrawdown: 3000, dailyLossLimit: null, maxContracts: 12, consistencyPercent: 50, newsTradingBanned: true },
+      { accountSize: 150000, trailingDrawdown: 4500, dailyLossLimit: null, maxContracts: 15, consistencyPercent: 50, newsTradingBanned: true },
+    ],
+    [TradingFirm.TRADEFY]: [
+      { accountSize: 50000, trailingDrawdown: 2000, dailyLossLimit: 1000, maxContracts: 5, consistencyPercent: 30, newsTradingBanned: false },
+      { accountSize: 100000, trailingDrawdown: 3000, dailyLossLimit: 2000, maxContracts: 10, consistencyPercent: 30, newsTradingBanned: false },
+      { accountSize: 150000, trailingDrawdown: 4500, dailyLossLimit: 3000, maxContracts: 15, consistencyPercent: 30, newsTradingBanned: false },
+    ],
+  },
+};
+
+export const CURRENT_PRESET_VERSION = "2026-10";
@@ -1,5 +1,6 @@
 import { Module } from "@nestjs/common";
-import { ConfigModule } from "@nestjs/config";
+import { ConfigModule, ConfigService } from "@nestjs/config";
+import { BullModule } from "@nestjs/bull";
 import { APP_GUARD } from "@nestjs/core";
 import { AuthModule } from "./auth/auth.module";
 import { UsersModule } from "./users/users.module";
@@ -8,6 +9,9 @@ import { CopierModule } from "./copier/copier.module";
 import { TradesModule } from "./trades/trades.module";
 import { WebSocketModule } from "./websocket/websocket.module";
 import { AccountingModule } from "./accounting/accounting.module";
+import { NewsModule } from "./news/news.module";
+import { GroupOrdersModule } from "./group-orders/group-orders.module";
+import { AccountGroupsModule } from "./account-groups/account-groups.module";
 import { PrismaModule } from "./prisma/prisma.module";
 import { JwtAuthGuard } from "./auth/guards/jwt-auth.guard";
 
@@ -17,6 +21,16 @@ import { JwtAuthGuard } from "./auth/guards/jwt-auth.guard";
       isGlobal: true,
       envFilePath: [".env.local", ".env"],
     }),
+    BullModule.forRootAsync({
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => ({
+        redis: {
+          host: config.get<string>("REDIS_HOST") || "localhost",
+          port: parseInt(config.get<string>("REDIS_PORT") || "6379"),
+          password: config.get<string>("REDIS_PASSWORD") || undefined,
+        },
+      }),
+    }),
     PrismaModule,
     AuthModule,
     UsersModule,
@@ -25,6 +39,9 @@ import { JwtAuthGuard } from "./auth/guards/jwt-auth.guard";
     TradesModule,
     WebSocketModule,
     AccountingModule,
+    NewsModule,
+    GroupOrdersModule,
+    AccountGroupsModule,
   ],
   providers: [
     {
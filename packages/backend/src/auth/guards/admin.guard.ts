@@ -0,0 +1,18 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from "@nestjs/common";
+import { UserRole } from "@prisma/client";
+
+/**
+ * Only lets admins through. Runs after JwtAuthGuard, which sets request.user.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext) {
+    const request = context.switchToHttp().getRequest();
+
+    if (request.user?.role !== UserRole.ADMIN) {
+      throw new ForbiddenException("Admin access required");
+    }
+
+    return true;
+  }
+}
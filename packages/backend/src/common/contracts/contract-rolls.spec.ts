@@ -0,0 +1,46 @@
+import { Platform } from "@prisma/client";
+import { formatContract, isRollableRoot, resolveFrontMonth } from "./contract-rolls";
+
+describe("contract rolls", () => {
+  describe("resolveFrontMonth", () => {
+    it("rolls equity index futures on the second Thursday of the expiry month", () => {
+      // December 2026: the second Thursday is the 10th
+      expect(resolveFrontMonth("ES", new Date("2026-12-09T23:59:00Z"))).toEqual({ root: "ES", month: 12, year: 2026 });
+      expect(resolveFrontMonth("ES", new Date("2026-12-10T00:00:00Z"))).toEqual({ root: "ES", month: 3, year: 2027 });
+      expect(resolveFrontMonth("ES", new Date("2026-12-11T12:00:00Z"))).toEqual({ root: "ES", month: 3, year: 2027 });
+    });
+
+    it("skips the months outside the contract cycle", () => {
+      expect(resolveFrontMonth("NQ", new Date("2026-04-20T12:00:00Z"))).toEqual({ root: "NQ", month: 6, year: 2026 });
+      expect(resolveFrontMonth("GC", new Date("2026-12-01T12:00:00Z"))).toEqual({ root: "GC", month: 2, year: 2027 });
+    });
+
+    it("rolls contracts in the month before delivery, across the year boundary", () => {
+      expect(resolveFrontMonth("CL", new Date("2026-11-13T12:00:00Z"))).toEqual({ root: "CL", month: 12, year: 2026 });
+      expect(resolveFrontMonth("CL", new Date("2026-11-14T12:00:00Z"))).toEqual({ root: "CL", month: 1, year: 2027 });
+      // The January contract rolls on December 14th of the year before
+      expect(resolveFrontMonth("CL", new Date("2026-12-14T12:00:00Z"))).toEqual({ root: "CL", month: 2, year: 2027 });
+    });
+
+    it("accepts lower-case roots and ignores roots without a roll schedule", () => {
+      expect(resolveFrontMonth("mes", new Date("2026-07-01T12:00:00Z"))).toEqual({ root: "MES", month: 9, year: 2026 });
+      expect(resolveFrontMonth("XYZ", new Date("2026-07-01T12:00:00Z"))).toBeUndefined();
+    });
+  });
+
+  describe("formatContract", () => {
+    it("formats contracts in the platform's notation", () => {
+      const contract = { root: "ES", month: 3, year: 2027 };
+
+      expect(formatContract(contract)).toBe("ESH7");
+      expect(formatContract(contract, Platform.NINJATRADER)).toBe("ES 03-27");
+    });
+  });
+
+  describe("isRollableRoot", () => {
+    it("only accepts bare roots", () => {
+      expect(isRollableRoot(" mes ")).toBe(true);
+      expect(isRollableRoot("MESH7")).toBe(false);
+    });
+  });
+});
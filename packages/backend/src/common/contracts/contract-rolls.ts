@@ -0,0 +1,110 @@
+import { Platform } from "@prisma/client";
+
+export interface RollSchedule {
+  cycle: string; // Month codes of the contracts that trade as front month, e.g. "HMUZ"
+  monthsBefore: number; // The roll happens in the expiry month (0) or the month before (1)
+  day: number | "second-thursday"; // Day of that month the next contract takes over
+}
+
+function schedule(cycle: string, monthsBefore: number, day: RollSchedule["day"]): RollSchedule {
+  return { cycle, monthsBefore, day };
+}
+
+const QUARTERLY = "HMUZ";
+const MONTHLY = "FGHJKMNQUVXZ";
+
+/**
+ * When the volume moves to the next contract, keyed by root symbol.
+ * Equity index and FX futures roll on the second Thursday of the expiry month (eight days
+ * before the third-Friday expiry), physically delivered contracts before their delivery month.
+ */
+export const ROLL_SCHEDULES: Record<string, RollSchedule> = {
+  ES: schedule(QUARTERLY, 0, "second-thursday"),
+  MES: schedule(QUARTERLY, 0, "second-thursday"),
+  NQ: schedule(QUARTERLY, 0, "second-thursday"),
+  MNQ: schedule(QUARTERLY, 0, "second-thursday"),
+  YM: schedule(QUARTERLY, 0, "second-thursday"),
+  MYM: schedule(QUARTERLY, 0, "second-thursday"),
+  RTY: schedule(QUARTERLY, 0, "second-thursday"),
+  M2K: schedule(QUARTERLY, 0, "second-thursday"),
+  "6E": schedule(QUARTERLY, 0, "second-thursday"),
+  "6J": schedule(QUARTERLY, 0, "second-thursday"),
+  ZB: schedule(QUARTERLY, 1, 25),
+  ZN: schedule(QUARTERLY, 1, 25),
+  CL: schedule(MONTHLY, 1, 14),
+  MCL: schedule(MONTHLY, 1, 14),
+  NG: schedule(MONTHLY, 1, 22),
+  GC: schedule("GJMQVZ", 1, 25),
+  MGC: schedule("GJMQVZ", 1, 25),
+  SI: schedule("HKNUZ", 1, 25),
+  HG: schedule("HKNUZ", 1, 25),
+};
+
+// Contract month codes (F = Jan ... Z = Dec)
+const MONTH_CODES = "FGHJKMNQUVXZ";
+
+export interface ContractMonth {
+  root: string;
+  month: number; // 1-12
+  year: number; // Four digits
+}
+
+/**
+ * Front-month contract of a root symbol at a point in time, e.g. ES on 2026-12-11 -> ESH7
+ */
+export function resolveFrontMonth(root: string, at: Date = new Date()): ContractMonth | undefined {
+  const schedule = ROLL_SCHEDULES[root.toUpperCase()];
+  if (!schedule) {
+    return undefined;
+  }
+
+  // Walk the listed contracts from the current month until one has not rolled yet
+  for (let offset = 0; offset <= 24; offset++) {
+    const month = ((at.getUTCMonth() + offset) % 12) + 1;
+    const year = at.getUTCFullYear() + Math.floor((at.getUTCMonth() + offset) / 12);
+
+    if (!schedule.cycle.includes(MONTH_CODES[month - 1])) {
+      continue;
+    }
+
+    if (at < getRollDate(schedule, month, year)) {
+      return { root: root.toUpperCase(), month, year };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Contract symbol in the format of a platform: "ES 03-27" on NinjaTrader, "ESH7" elsewhere
+ */
+export function formatContract(contract: ContractMonth, platform?: Platform): string {
+  if (platform === Platform.NINJATRADER) {
+    const month = String(contract.month).padStart(2, "0");
+    return `${contract.root} ${month}-${String(contract.year % 100).padStart(2, "0")}`;
+  }
+
+  return `${contract.root}${MONTH_CODES[contract.month - 1]}${contract.year % 10}`;
+}
+
+/**
+ * Whether a symbol is a bare root that can be resolved to its front month (e.g. "MES", not "MESH7")
+ */
+export function isRollableRoot(symbol: string): boolean {
+  return Boolean(ROLL_SCHEDULES[symbol.trim().toUpperCase()]);
+}
+
+function getRollDate(schedule: RollSchedule, month: number, year: number): Date {
+  const rollMonth = month - schedule.monthsBefore;
+  const date = new Date(Date.UTC(rollMonth < 1 ? year - 1 : year, (rollMonth + 11) % 12, 1));
+
+  if (schedule.day === "second-thursday") {
+    // Thursday = 4
+    const firstThursday = 1 + ((4 - date.getUTCDay() + 7) % 7);
+    date.setUTCDate(firstThursday + 7);
+  } else {
+    date.setUTCDate(schedule.day);
+  }
+
+  return date;
+}
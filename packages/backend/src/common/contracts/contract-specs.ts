@@ -0,0 +1,61 @@
+export interface ContractSpec {
+  root: string;
+  tickSize: number;
+  tickValue: number; // USD per tick per contract
+  pointValue: number; // USD per full point per contract
+}
+
+function spec(root: string, tickSize: number, tickValue: number): ContractSpec {
+  return { root, tickSize, tickValue, pointValue: tickValue / tickSize };
+}
+
+/**
+ * CME futures commonly traded on prop-firm accounts, keyed by root symbol
+ */
+export const CONTRACT_SPECS: Record<string, ContractSpec> = {
+  ES: spec("ES", 0.25, 12.5),
+  MES: spec("MES", 0.25, 1.25),
+  NQ: spec("NQ", 0.25, 5),
+  MNQ: spec("MNQ", 0.25, 0.5),
+  YM: spec("YM", 1, 5),
+  MYM: spec("MYM", 1, 0.5),
+  RTY: spec("RTY", 0.1, 5),
+  M2K: spec("M2K", 0.1, 0.5),
+  CL: spec("CL", 0.01, 10),
+  MCL: spec("MCL", 0.01, 1),
+  NG: spec("NG", 0.001, 10),
+  GC: spec("GC", 0.1, 10),
+  MGC: spec("MGC", 0.1, 1),
+  SI: spec("SI", 0.005, 25),
+  HG: spec("HG", 0.0005, 12.5),
+  ZB: spec("ZB", 0.03125, 31.25),
+  ZN: spec("ZN", 0.015625, 15.625),
+  "6E": spec("6E", 0.00005, 6.25),
+  "6J": spec("6J", 0.0000005, 6.25),
+};
+
+// Contract month codes (F = Jan ... Z = Dec)
+const MONTH_CODES = "FGHJKMNQUVXZ";
+
+/**
+ * Root symbol of a contract, e.g. "ESZ5", "ESZ25", "MNQH2026" or "ES 12-25" -> "ES"
+ */
+export function getRootSymbol(symbol: string): string {
+  const normalized = symbol.trim().toUpperCase();
+
+  const spaced = normalized.match(/^([A-Z0-9]+)\s+\d{2}-\d{2}$/);
+  if (spaced) {
+    return spaced[1];
+  }
+
+  const dated = normalized.match(new RegExp(`^([A-Z0-9]+?)[${MONTH_CODES}]\\d{1,4}$`));
+  if (dated && CONTRACT_SPECS[dated[1]]) {
+    return dated[1];
+  }
+
+  return normalized;
+}
+
+export function getContractSpec(symbol: string): ContractSpec | undefined {
+  return CONTRACT_SPECS[getRootSymbol(symbol)];
+}
@@ -0,0 +1,94 @@
+import { checkSchedule, checkSchedules, isFlattenTime, TradingSchedule } from "./trading-schedule";
+
+describe("trading schedule", () => {
+  const timezone = "America/New_York";
+
+  describe("isFlattenTime", () => {
+    const schedule: TradingSchedule = { timezone, flattenAt: "16:10", resumeAt: "18:00" };
+
+    it("follows the wall clock of the timezone through daylight saving time", () => {
+      // 20:15 UTC is 15:15 EST in winter but 16:15 EDT in summer
+      expect(isFlattenTime(schedule, new Date("2026-01-14T20:15:00Z"))).toBe(false);
+      expect(isFlattenTime(schedule, new Date("2026-07-15T20:15:00Z"))).toBe(true);
+      expect(isFlattenTime(schedule, new Date("2026-07-15T22:00:00Z"))).toBe(false);
+    });
+
+    it("moves the cutoff by an hour on the days the clocks change", () => {
+      // Clocks spring forward on 2026-03-08 and fall back on 2026-11-01
+      expect(isFlattenTime(schedule, new Date("2026-03-07T20:15:00Z"))).toBe(false);
+      expect(isFlattenTime(schedule, new Date("2026-03-08T20:15:00Z"))).toBe(true);
+      expect(isFlattenTime(schedule, new Date("2026-10-31T20:15:00Z"))).toBe(true);
+      expect(isFlattenTime(schedule, new Date("2026-11-01T20:15:00Z"))).toBe(false);
+    });
+
+    it("keeps positions flat past midnight until the resume time", () => {
+      const overnight: TradingSchedule = { timezone, flattenAt: "23:00", resumeAt: "01:00" };
+
+      expect(isFlattenTime(overnight, new Date("2026-01-15T03:30:00Z"))).toBe(false); // 22:30
+      expect(isFlattenTime(overnight, new Date("2026-01-15T04:30:00Z"))).toBe(true); // 23:30
+      expect(isFlattenTime(overnight, new Date("2026-01-15T05:30:00Z"))).toBe(true); // 00:30
+      expect(isFlattenTime(overnight, new Date("2026-01-15T06:30:00Z"))).toBe(false); // 01:30
+    });
+
+    it("resumes at local midnight when no resume time is set", () => {
+      const untilMidnight: TradingSchedule = { timezone, flattenAt: "23:00" };
+
+      expect(isFlattenTime(untilMidnight, new Date("2026-01-15T04:30:00Z"))).toBe(true); // 23:30
+      expect(isFlattenTime(untilMidnight, new Date("2026-01-15T05:30:00Z"))).toBe(false); // 00:30
+    });
+  });
+
+  describe("checkSchedule", () => {
+    // Sunday to Thursday evening sessions that close at 17:00 the next day
+    const schedule: TradingSchedule = { timezone, windows: [{ days: [0, 1, 2, 3, 4], start: "18:00", end: "17:00" }] };
+
+    it("allows entries in a window that runs past midnight only on the days it opened", () => {
+      expect(checkSchedule(schedule, new Date("2026-01-16T21:00:00Z")).allowed).toBe(true); // Fri 16:00
+      expect(checkSchedule(schedule, new Date("2026-01-16T23:30:00Z"))).toEqual({
+        allowed: false,
+        reason: "Outside the trading windows (America/New_York)",
+      }); // Fri 18:30
+      expect(checkSchedule(schedule, new Date("2026-01-17T15:00:00Z")).allowed).toBe(false); // Sat 10:00
+      expect(checkSchedule(schedule, new Date("2026-01-18T23:30:00Z")).allowed).toBe(true); // Sun 18:30
+      expect(checkSchedule(schedule, new Date("2026-01-19T22:30:00Z")).allowed).toBe(false); // Mon 17:30
+    });
+
+    it("opens the window at the local time on the days the clocks change", () => {
+      expect(checkSchedule(schedule, new Date("2026-03-08T22:30:00Z")).allowed).toBe(true); // Sun 18:30 EDT
+      expect(checkSchedule(schedule, new Date("2026-11-01T22:30:00Z")).allowed).toBe(false); // Sun 17:30 EST
+      expect(checkSchedule(schedule, new Date("2026-11-01T23:30:00Z")).allowed).toBe(true); // Sun 18:30 EST
+    });
+
+    it("refuses entries in a daily blackout that runs past midnight", () => {
+      const blackouts: TradingSchedule = {
+        timezone,
+        blackouts: [{ start: "23:30", end: "00:30", reason: "Rollover" }],
+      };
+
+      expect(checkSchedule(blackouts, new Date("2026-01-15T05:15:00Z"))).toEqual({
+        allowed: false,
+        reason: "Blackout period: Rollover",
+      }); // 00:15
+      expect(checkSchedule(blackouts, new Date("2026-01-15T05:45:00Z")).allowed).toBe(true); // 00:45
+    });
+
+    it("refuses entries past the flatten cutoff", () => {
+      const flatten: TradingSchedule = { timezone, flattenAt: "16:10", resumeAt: "18:00" };
+
+      expect(checkSchedule(flatten, new Date("2026-07-15T20:15:00Z"))).toEqual({
+        allowed: false,
+        reason: "Past the flatten cutoff (16:10 America/New_York)",
+      });
+    });
+  });
+
+  describe("checkSchedules", () => {
+    it("requires every schedule to allow the entry", () => {
+      const at = new Date("2026-07-15T20:15:00Z");
+      const flatten: TradingSchedule = { timezone, flattenAt: "16:10" };
+
+      expect(checkSchedules([null, { timezone }], at)).toEqual({ allowed: true });
+      expect(checkSchedules([{ timezone }, undefined, flatten], at).allowed).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Trading schedules of copiers and slaves: the windows in which new entries may be copied,
+ * blackout periods and a daily flatten cutoff. Times are wall-clock times in the
+ * schedule's own timezone, so daylight saving changes are followed automatically.
+ */
+
+export interface TradingWindow {
+  days: number[]; // Weekday the window opens on, 0 = Sunday ... 6 = Saturday
+  start: string; // "HH:mm"
+  end: string; // "HH:mm", before start for windows that run past midnight (e.g. 18:00-17:00)
+}
+
+export interface BlackoutPeriod {
+  start: string; // ISO date-time for a one-off blackout, "HH:mm" for a daily one
+  end: string;
+  days?: number[]; // Daily blackouts only, every day when omitted
+  reason?: string;
+}
+
+export interface TradingSchedule {
+  timezone: string; // IANA zone, e.g. "America/New_York"
+  windows?: TradingWindow[]; // Entries are only copied inside a window; any time when empty
+  blackouts?: BlackoutPeriod[];
+  flattenAt?: string; // "HH:mm": positions are flattened and entries refused until resumeAt
+  resumeAt?: string; // "HH:mm", midnight when omitted
+}
+
+export interface ScheduleCheck {
+  allowed: boolean;
+  reason?: string;
+}
+
+interface LocalTime {
+  day: number;
+  minutes: number; // Minutes since local midnight
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+/**
+ * Whether a new entry may be copied at the given time
+ */
+export function checkSchedule(schedule: TradingSchedule, at: Date = new Date()): ScheduleCheck {
+  const local = getLocalTime(at, schedule.timezone);
+
+  if (isFlattenTime(schedule, at)) {
+    return { allowed: false, reason: `Past the flatten cutoff (${schedule.flattenAt} ${schedule.timezone})` };
+  }
+
+  const blackout = (schedule.blackouts || []).find((blackout) => isInBlackout(blackout, local, at));
+  if (blackout) {
+    return { allowed: false, reason: `Blackout period${blackout.reason ? `: ${blackout.reason}` : ""}` };
+  }
+
+  const windows = schedule.windows || [];
+  if (windows.length > 0 && !windows.some((window) => isInPeriod(window.days, window.start, window.end, local))) {
+    return { allowed: false, reason: `Outside the trading windows (${schedule.timezone})` };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Check several schedules at once (e.g. a copier's and a slave's); each one must allow the entry
+ */
+export function checkSchedules(
+  schedules: Array<TradingSchedule | null | undefined>,
+  at: Date = new Date()
+): ScheduleCheck {
+  for (const schedule of schedules) {
+    const check = schedule ? checkSchedule(schedule, at) : { allowed: true };
+    if (!check.allowed) {
+      return check;
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Whether the schedule's flatten cutoff has passed and its positions should be flat
+ */
+export function isFlattenTime(schedule: TradingSchedule, at: Date = new Date()): boolean {
+  if (!schedule.flattenAt) {
+    return false;
+  }
+
+  const local = getLocalTime(at, schedule.timezone);
+  const flattenAt = toMinutes(schedule.flattenAt);
+  const resumeAt = schedule.resumeAt ? toMinutes(schedule.resumeAt) : 24 * 60;
+
+  return flattenAt < resumeAt
+    ? local.minutes >= flattenAt && local.minutes < resumeAt
+    : local.minutes >= flattenAt || local.minutes < resumeAt;
+}
+
+/**
+ * Start of the trading session at the given time: the opening of the current trading window
+ * of the first schedule that has one, otherwise local midnight of the first schedule
+ * (UTC midnight without any schedule)
+ */
+export function getSessionStart(schedules: Array<TradingSchedule | null | undefined>, at: Date = new Date()): Date {
+  const defined = schedules.filter((schedule): schedule is TradingSchedule => !!schedule);
+  const startOfMinute = at.getTime() - at.getUTCSeconds() * 1000 - at.getUTCMilliseconds();
+
+  for (const schedule of defined) {
+    const local = getLocalTime(at, schedule.timezone);
+    const window = (schedule.windows || []).find((window) => isInPeriod(window.days, window.start, window.end, local));
+    if (window) {
+      const elapsed = (local.minutes - toMinutes(window.start) + 24 * 60) % (24 * 60);
+      return new Date(startOfMinute - elapsed * 60 * 1000);
+    }
+  }
+
+  const minutes =
+    defined.length > 0 ? getLocalTime(at, defined[0].timezone).minutes : at.getUTCHours() * 60 + at.getUTCMinutes();
+  return new Date(startOfMinute - minutes * 60 * 1000);
+}
+
+/**
+ * Latest time at or before the given one when the wall clock of the timezone read the given
+ * "HH:mm", e.g. the last daily session close
+ */
+export function getLastDailyTime(time: string, timezone: string, at: Date = new Date()): Date {
+  const startOfMinute = at.getTime() - at.getUTCSeconds() * 1000 - at.getUTCMilliseconds();
+  const elapsed = (getLocalTime(at, timezone).minutes - toMinutes(time) + 24 * 60) % (24 * 60);
+
+  return new Date(startOfMinute - elapsed * 60 * 1000);
+}
+
+/**
+ * Describe what is wrong with a schedule, or null when it is valid
+ */
+export function validateSchedule(schedule: TradingSchedule): string | null {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: schedule.timezone });
+  } catch {
+    return `Unknown timezone "${schedule.timezone}"`;
+  }
+
+  for (const time of [schedule.flattenAt, schedule.resumeAt].filter((time) => time !== undefined)) {
+    if (!TIME_PATTERN.test(time)) {
+      return `Invalid time "${time}", expected HH:mm`;
+    }
+  }
+
+  for (const window of schedule.windows || []) {
+    if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) {
+      return `Invalid trading window ${window.start}-${window.end}, expected HH:mm`;
+    }
+    if (!Array.isArray(window.days) || window.days.some((day) => !ALL_DAYS.includes(day))) {
+      return "Trading window days must be weekdays from 0 (Sunday) to 6 (Saturday)";
+    }
+  }
+
+  for (const blackout of schedule.blackouts || []) {
+    const daily = TIME_PATTERN.test(blackout.start) && TIME_PATTERN.test(blackout.end);
+    const oneOff = !isNaN(Date.parse(blackout.start)) && !isNaN(Date.parse(blackout.end));
+    if (!daily && !oneOff) {
+      return `Invalid blackout ${blackout.start}-${blackout.end}, expected HH:mm or ISO date-times`;
+    }
+  }
+
+  return null;
+}
+
+function isInBlackout(blackout: BlackoutPeriod, local: LocalTime, at: Date): boolean {
+  if (TIME_PATTERN.test(blackout.start)) {
+    return isInPeriod(blackout.days || ALL_DAYS, blackout.start, blackout.end, local);
+  }
+
+  return at >= new Date(blackout.start) && at < new Date(blackout.end);
+}
+
+/**
+ * Whether a local time falls in a daily period that opens on one of the given weekdays.
+ * A period that ends before it starts runs past midnight into the next day.
+ */
+function isInPeriod(days: number[], start: string, end: string, local: LocalTime): boolean {
+  const startMinutes = toMinutes(start);
+  const endMinutes = toMinutes(end);
+
+  if (startMinutes < endMinutes) {
+    return days.includes(local.day) && local.minutes >= startMinutes && local.minutes < endMinutes;
+  }
+
+  const previousDay = (local.day + 6) % 7;
+  return (
+    (days.includes(local.day) && local.minutes >= startMinutes) ||
+    (days.includes(previousDay) && local.minutes < endMinutes)
+  );
+}
+
+function getLocalTime(at: Date, timezone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: string) => parts.find((part) => part.type === type)?.value;
+
+  return {
+    day: WEEKDAYS.indexOf(part("weekday")),
+    minutes: parseInt(part("hour")) * 60 + parseInt(part("minute")),
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map((value) => parseInt(value));
+  return hours * 60 + minutes;
+}
@@ -0,0 +1,540 @@
+import { Injectable, Logger, OnModuleDestroy } from "@nestjs/common";
+import {
+  BracketMode,
+  BracketOrder,
+  CopierStatus,
+  SymbolMapping,
+  TradeSide,
+  TradeType,
+  TradingAccount,
+} from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { AdapterRegistry } from "../accounts/adapters/adapter.registry";
+import {
+  ITradingAdapter,
+  Position,
+  TradeExecution,
+  WorkingOrder,
+} from "../accounts/adapters/trading-adapter.interface";
+import { getContractSpec } from "../common/contracts/contract-specs";
+import { SymbolMapper } from "./symbol.mapper";
+import { KillSwitchService } from "../accounts/kill-switch.service";
+
+/**
+ * Stop-loss/take-profit working on a master position
+ */
+interface MasterBracket {
+  symbol: string;
+  side: TradeSide; // Side of the position
+  entryPrice: number;
+  stopLoss: number | null;
+  takeProfit: number | null;
+}
+
+interface BracketTarget {
+  side: TradeSide; // Side of the exit orders
+  quantity: number;
+  stopLoss: number | null;
+  takeProfit: number | null;
+}
+
+/**
+ * Bracket Synchronizer
+ * Mirrors the working stop and limit exit orders of the master's open positions onto each
+ * slave as a stop/target pair. The pair is kept one-cancels-other from the slave's own fills:
+ * a fill of one leg cancels (or, when partial, shrinks) the other right away; a sync that finds
+ * the slave position gone cancels what is left. The pair is moved whenever the master moves
+ * its stop (break-even, trailing) or target.
+ */
+@Injectable()
+export class BracketSynchronizer implements OnModuleDestroy {
+  private readonly logger = new Logger(BracketSynchronizer.name);
+  private schedules: Map<string, NodeJS.Timeout> = new Map();
+  private syncing: Set<string> = new Set();
+  // Fill listeners on the slaves of each scheduled copier, keyed by slave account id
+  private watchers: Map<string, Map<string, () => void>> = new Map();
+  private readonly intervalMs = parseInt(process.env.BRACKET_SYNC_INTERVAL_MS || "5000");
+
+  constructor(
+    private prisma: PrismaService,
+    private adapterRegistry: AdapterRegistry,
+    private symbolMapper: SymbolMapper,
+    private killSwitch: KillSwitchService
+  ) {}
+
+  /**
+   * Start periodic bracket synchronization for a copier
+   */
+  schedule(copierId: string): void {
+    this.unschedule(copierId);
+
+    const interval = setInterval(async () => {
+      try {
+        await this.sync(copierId);
+      } catch (error) {
+        this.logger.error(`Bracket sync failed for copier ${copierId}:`, error);
+      }
+    }, this.intervalMs);
+
+    this.schedules.set(copierId, interval);
+  }
+
+  /**
+   * Stop periodic bracket synchronization for a copier.
+   * Slave brackets already placed stay in place to protect the open positions.
+   */
+  unschedule(copierId: string): void {
+    const interval = this.schedules.get(copierId);
+    if (interval) {
+      clearInterval(interval);
+      this.schedules.delete(copierId);
+    }
+
+    this.watchers.get(copierId)?.forEach((detach) => detach());
+    this.watchers.delete(copierId);
+  }
+
+  /**
+   * Bring the slave brackets of a copier in line with the master's working exit orders
+   */
+  async sync(copierId: string): Promise<void> {
+    // A slow platform must not get a second set of orders from an overlapping run
+    if (this.syncing.has(copierId)) {
+      return;
+    }
+
+    this.syncing.add(copierId);
+    try {
+      await this.syncCopier(copierId);
+    } finally {
+      this.syncing.delete(copierId);
+    }
+  }
+
+  /**
+   * Cancel the bracket of a slave position, e.g. right before the position is closed
+   */
+  async cancel(
+    copierId: string,
+    slaveAccountId: string,
+    symbol: string,
+    slaveAdapter: ITradingAdapter,
+    reason = "position closed by master"
+  ): Promise<void> {
+    const bracket = await this.prisma.bracketOrder.findUnique({
+      where: {
+        copierId_slaveAccountId_symbol: { copierId, slaveAccountId, symbol },
+      },
+    });
+
+    if (bracket) {
+      await this.cancelBracket(slaveAdapter, bracket, reason);
+    }
+  }
+
+  /**
+   * Cancel every bracket of a slave, e.g. before the slave is removed from the copier
+   */
+  async cancelForSlave(
+    copierId: string,
+    slaveAccountId: string,
+    slaveAdapter: ITradingAdapter,
+    reason: string
+  ): Promise<void> {
+    const brackets = await this.prisma.bracketOrder.findMany({
+      where: { copierId, slaveAccountId },
+    });
+
+    for (const bracket of brackets) {
+      await this.cancelBracket(slaveAdapter, bracket, reason);
+    }
+  }
+
+  onModuleDestroy() {
+    for (const copierId of Array.from(this.schedules.keys())) {
+      this.unschedule(copierId);
+    }
+  }
+
+  private async syncCopier(copierId: string): Promise<void> {
+    const copier = await this.prisma.copier.findUnique({
+      where: { id: copierId },
+      include: {
+        masterAccount: true,
+        slaveConfigs: {
+          where: { isActive: true },
+          include: {
+            slaveAccount: true,
+          },
+        },
+        bracketOrders: true,
+      },
+    });
+
+    if (!copier || !copier.copyBrackets || copier.status !== CopierStatus.ACTIVE) {
+      return;
+    }
+
+    if (await this.killSwitch.isEngaged(copier.userId)) {
+      return;
+    }
+
+    const masterAdapter = await this.adapterRegistry.getOrConnect(copier.masterAccount);
+    const [masterInfo, masterOrders] = await Promise.all([
+      masterAdapter.getAccountInfo(),
+      masterAdapter.getWorkingOrders(),
+    ]);
+    const masterBrackets = this.getMasterBrackets(masterInfo.positions, masterOrders);
+    const symbolMappings = await this.symbolMapper.getMappings(copierId);
+
+    for (const slaveConfig of copier.slaveConfigs) {
+      try {
+        const slaveAdapter = await this.adapterRegistry.getOrConnect(slaveConfig.slaveAccount);
+        this.watchSlave(copierId, slaveConfig.slaveAccount);
+
+        await this.syncSlave(
+          copier,
+          slaveConfig,
+          slaveAdapter,
+          this.routeBrackets(masterBrackets, symbolMappings, slaveConfig),
+          copier.bracketOrders.filter((bracket) => bracket.slaveAccountId === slaveConfig.slaveAccountId)
+        );
+      } catch (error) {
+        this.logger.error(`Bracket sync failed for slave ${slaveConfig.slaveAccountId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Listen to the fills of a slave (once per scheduled copier) to keep its brackets one-cancels-other
+   */
+  private watchSlave(copierId: string, slaveAccount: TradingAccount): void {
+    if (!this.schedules.has(copierId)) {
+      return; // One-off sync of an unscheduled copier
+    }
+
+    const watched = this.watchers.get(copierId) || new Map<string, () => void>();
+    this.watchers.set(copierId, watched);
+    if (watched.has(slaveAccount.id)) {
+      return;
+    }
+
+    watched.set(
+      slaveAccount.id,
+      this.adapterRegistry.onTradeUpdate(slaveAccount.id, (execution) => {
+        this.onSlaveFill(copierId, slaveAccount, execution).catch((error) =>
+          this.logger.error(`Bracket fill handling failed for slave ${slaveAccount.id}:`, error)
+        );
+      })
+    );
+  }
+
+  /**
+   * A bracket leg filled on a slave: cancel the other leg, or shrink it to what is left of the
+   * position after a partial fill, without waiting for the next sync
+   */
+  private async onSlaveFill(copierId: string, slaveAccount: TradingAccount, execution: TradeExecution): Promise<void> {
+    if (execution.status !== "filled" && execution.status !== "partially_filled") {
+      return;
+    }
+
+    const bracket = await this.prisma.bracketOrder.findFirst({
+      where: {
+        copierId,
+        slaveAccountId: slaveAccount.id,
+        OR: [{ stopOrderId: execution.orderId }, { targetOrderId: execution.orderId }],
+      },
+    });
+    if (!bracket) {
+      return;
+    }
+
+    const stopFilled = bracket.stopOrderId === execution.orderId;
+    const siblingOrderId = stopFilled ? bracket.targetOrderId : bracket.stopOrderId;
+    const remaining = bracket.quantity - execution.quantity;
+    const slaveAdapter = await this.adapterRegistry.getOrConnect(slaveAccount);
+
+    if (execution.status === "partially_filled" && remaining > 0) {
+      if (siblingOrderId) {
+        await slaveAdapter.modifyOrder(siblingOrderId, { quantity: remaining });
+      }
+      await this.prisma.bracketOrder.update({
+        where: { id: bracket.id },
+        data: { quantity: remaining },
+      });
+      return;
+    }
+
+    await this.cancelBracket(slaveAdapter, bracket, stopFilled ? "stop filled" : "target filled");
+  }
+
+  /**
+   * Sync the brackets of one slave. masterBrackets is keyed by the instrument the slave trades.
+   */
+  private async syncSlave(
+    copier: any,
+    slaveConfig: any,
+    slaveAdapter: ITradingAdapter,
+    masterBrackets: Map<string, MasterBracket>,
+    brackets: BracketOrder[]
+  ): Promise<void> {
+    const slaveInfo = await slaveAdapter.getAccountInfo();
+    const remaining = new Map<string, BracketOrder>();
+
+    // The master closed the position, or one leg filled and flattened the slave
+    for (const bracket of brackets) {
+      const position = this.findPosition(slaveInfo.positions, bracket.symbol);
+      if (!masterBrackets.has(bracket.symbol)) {
+        await this.cancelBracket(slaveAdapter, bracket, "master position closed");
+      } else if (!position || position.side === bracket.side) {
+        await this.cancelBracket(slaveAdapter, bracket, "slave position closed");
+      } else {
+        remaining.set(bracket.symbol, bracket);
+      }
+    }
+
+    for (const [symbol, master] of masterBrackets) {
+      const current = remaining.get(symbol);
+      if (!current && master.stopLoss === null && master.takeProfit === null) {
+        continue;
+      }
+
+      // Wait for the copy to fill before protecting it
+      const position = this.findPosition(slaveInfo.positions, symbol);
+      if (!position || position.side !== master.side) {
+        continue;
+      }
+
+      const target: BracketTarget = {
+        side: position.side === TradeSide.BUY ? TradeSide.SELL : TradeSide.BUY,
+        quantity: position.quantity,
+        stopLoss: this.toSlavePrice(copier.bracketMode, master, master.stopLoss, position),
+        takeProfit: this.toSlavePrice(copier.bracketMode, master, master.takeProfit, position),
+      };
+
+      // Without copyModifications the slave keeps the prices it was opened with
+      if (current && !copier.copyModifications) {
+        target.stopLoss = current.stopLoss;
+        target.takeProfit = current.takeProfit;
+      }
+
+      await this.applyBracket(copier.id, slaveConfig.slaveAccountId, slaveAdapter, symbol, current, target);
+    }
+  }
+
+  /**
+   * Place, move or resize the two legs of a slave bracket
+   */
+  private async applyBracket(
+    copierId: string,
+    slaveAccountId: string,
+    slaveAdapter: ITradingAdapter,
+    symbol: string,
+    current: BracketOrder | undefined,
+    target: BracketTarget
+  ): Promise<void> {
+    if (
+      current &&
+      current.quantity === target.quantity &&
+      current.stopLoss === target.stopLoss &&
+      current.takeProfit === target.takeProfit
+    ) {
+      return;
+    }
+
+    const stopOrderId = await this.syncLeg(
+      slaveAdapter,
+      symbol,
+      TradeType.STOP,
+      target,
+      target.stopLoss,
+      current?.stopOrderId,
+      current && current.quantity === target.quantity ? current.stopLoss : undefined
+    );
+    const targetOrderId = await this.syncLeg(
+      slaveAdapter,
+      symbol,
+      TradeType.LIMIT,
+      target,
+      target.takeProfit,
+      current?.targetOrderId,
+      current && current.quantity === target.quantity ? current.takeProfit : undefined
+    );
+
+    const data = {
+      side: target.side,
+      quantity: target.quantity,
+      stopLoss: target.stopLoss,
+      takeProfit: target.takeProfit,
+      stopOrderId,
+      targetOrderId,
+    };
+
+    await this.prisma.bracketOrder.upsert({
+      where: {
+        copierId_slaveAccountId_symbol: { copierId, slaveAccountId, symbol },
+      },
+      create: { copierId, slaveAccountId, symbol, ...data },
+      update: data,
+    });
+
+    await this.prisma.executionLog.create({
+      data: {
+        copierId,
+        level: "info",
+        message: current ? `Bracket moved on slave account` : `Bracket placed on slave account`,
+        slaveAccountId,
+        details: {
+          kind: "bracket",
+          symbol,
+          ...data,
+          previous: current
+            ? { stopLoss: current.stopLoss, takeProfit: current.takeProfit, quantity: current.quantity }
+            : null,
+        },
+      },
+    });
+  }
+
+  /**
+   * Place, modify or cancel one leg. Returns the id of the working slave order, if any.
+   */
+  private async syncLeg(
+    slaveAdapter: ITradingAdapter,
+    symbol: string,
+    type: TradeType,
+    target: BracketTarget,
+    price: number | null,
+    orderId: string | null | undefined,
+    currentPrice: number | null | undefined
+  ): Promise<string | null> {
+    if (price === null) {
+      if (orderId) {
+        await slaveAdapter.cancelOrder(orderId);
+      }
+      return null;
+    }
+
+    if (!orderId) {
+      const execution = await slaveAdapter.placeOrder({
+        symbol,
+        side: target.side,
+        type,
+        quantity: target.quantity,
+        price,
+      });
+      return execution.orderId;
+    }
+
+    if (price !== currentPrice) {
+      await slaveAdapter.modifyOrder(orderId, { price, quantity: target.quantity });
+    }
+    return orderId;
+  }
+
+  private async cancelBracket(slaveAdapter: ITradingAdapter, bracket: BracketOrder, reason: string): Promise<void> {
+    for (const orderId of [bracket.stopOrderId, bracket.targetOrderId]) {
+      if (!orderId) {
+        continue;
+      }
+
+      try {
+        await slaveAdapter.cancelOrder(orderId);
+      } catch (error) {
+        // The leg that filled is no longer working
+        this.logger.debug(`Could not cancel bracket order ${orderId}: ${error.message}`);
+      }
+    }
+
+    // A fill and a sync can both cancel the same bracket
+    await this.prisma.bracketOrder.deleteMany({ where: { id: bracket.id } });
+
+    await this.prisma.executionLog.create({
+      data: {
+        copierId: bracket.copierId,
+        level: "info",
+        message: `Bracket cancelled on slave account (${reason})`,
+        slaveAccountId: bracket.slaveAccountId,
+        details: { kind: "bracket", symbol: bracket.symbol, reason },
+      },
+    });
+  }
+
+  /**
+   * Match the master's working exit orders to its open positions
+   */
+  private getMasterBrackets(positions: Position[], orders: WorkingOrder[]): Map<string, MasterBracket> {
+    const brackets = new Map<string, MasterBracket>();
+
+    for (const position of positions.filter((position) => position.quantity > 0)) {
+      const exitSide = position.side === TradeSide.BUY ? TradeSide.SELL : TradeSide.BUY;
+      const exits = orders.filter((order) => order.symbol === position.symbol && order.side === exitSide);
+      const stop = exits.find((order) => order.type === TradeType.STOP);
+      const target = exits.find((order) => order.type === TradeType.LIMIT);
+
+      brackets.set(position.symbol, {
+        symbol: position.symbol,
+        side: position.side,
+        entryPrice: position.entryPrice,
+        stopLoss: stop ? stop.price : null,
+        takeProfit: target ? target.price : null,
+      });
+    }
+
+    return brackets;
+  }
+
+  private routeBrackets(
+    masterBrackets: Map<string, MasterBracket>,
+    symbolMappings: SymbolMapping[],
+    slaveConfig: any
+  ): Map<string, MasterBracket> {
+    const routed = new Map<string, MasterBracket>();
+    for (const master of masterBrackets.values()) {
+      const symbol = this.symbolMapper.route(symbolMappings, slaveConfig, master.symbol).symbol;
+
+      // An inverted slave holds the opposite position: the master's target is its stop
+      routed.set(
+        symbol,
+        slaveConfig.invertDirection
+          ? {
+              ...master,
+              side: master.side === TradeSide.BUY ? TradeSide.SELL : TradeSide.BUY,
+              stopLoss: master.takeProfit,
+              takeProfit: master.stopLoss,
+            }
+          : master
+      );
+    }
+    return routed;
+  }
+
+  /**
+   * Slave price of a master stop/target: the same price, or the same number of ticks
+   * away from the slave's own entry
+   */
+  private toSlavePrice(
+    mode: BracketMode,
+    master: MasterBracket,
+    price: number | null,
+    slavePosition: Position
+  ): number | null {
+    if (price === null || mode === BracketMode.PRICE) {
+      return price;
+    }
+
+    const spec = getContractSpec(master.symbol);
+    if (!spec) {
+      this.logger.warn(`No tick size known for ${master.symbol}, using the master's bracket price`);
+      return price;
+    }
+
+    const ticks = Math.round((price - master.entryPrice) / spec.tickSize);
+    // Round away float noise so unchanged brackets compare equal
+    return Number((slavePosition.entryPrice + ticks * spec.tickSize).toFixed(8));
+  }
+
+  private findPosition(positions: Position[], symbol: string): Position | undefined {
+    return positions.find((position) => position.symbol === symbol && position.quantity > 0);
+  }
+}
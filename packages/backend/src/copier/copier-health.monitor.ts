@@ -0,0 +1,245 @@
+import { Inject, Injectable, Logger, forwardRef } from "@nestjs/common";
+import { CopierStatus, TradingAccount } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { AdapterRegistry } from "../accounts/adapters/adapter.registry";
+import { WebSocketGateway } from "../websocket/websocket.gateway";
+import { MasterEventStream } from "./master-event.stream";
+
+export interface AccountHealth {
+  accountId: string;
+  accountNumber: string;
+  connected: boolean;
+  reconnectCount: number;
+}
+
+export interface CopierHealthSnapshot {
+  copierId: string;
+  checkedAt: Date;
+  healthy: boolean;
+  master: AccountHealth;
+  masters: AccountHealth[]; // The masters the engine listens on
+  slaves: AccountHealth[];
+  lastEventAt: Date | null;
+  lastEventAgeMs: number | null;
+  problems: string[];
+}
+
+/**
+ * Copier Health Monitor
+ * Checks the adapter sessions and the master event feed of running copiers. A failing copier
+ * is moved to ERROR (which stops copying), its sessions are reconnected, and it goes back to
+ * ACTIVE once healthy again.
+ */
+@Injectable()
+export class CopierHealthMonitor {
+  private readonly logger = new Logger(CopierHealthMonitor.name);
+  private snapshots: Map<string, CopierHealthSnapshot> = new Map();
+  // Reconnect counts seen on the previous check, to detect flapping sessions
+  private reconnectCounts: Map<string, number> = new Map();
+  private readonly maxReconnectsPerCheck = parseInt(process.env.COPIER_MAX_RECONNECTS_PER_CHECK || "3");
+  // 0 disables the check: a quiet master is not necessarily a broken feed
+  private readonly maxEventAgeMs = parseInt(process.env.COPIER_MAX_EVENT_AGE_MS || "0");
+
+  constructor(
+    private prisma: PrismaService,
+    private adapterRegistry: AdapterRegistry,
+    private masterEvents: MasterEventStream,
+    @Inject(forwardRef(() => WebSocketGateway))
+    private websocketGateway: WebSocketGateway
+  ) {}
+
+  /**
+   * Build a health snapshot of a copier
+   */
+  async check(copierId: string): Promise<CopierHealthSnapshot> {
+    const copier = await this.getCopier(copierId);
+    const problems: string[] = [];
+
+    const masterAccounts = this.getMasterAccounts(copier);
+    const masters = masterAccounts.map((account) => this.getAccountHealth(copierId, account));
+    const master = this.getAccountHealth(copierId, copier.masterAccount);
+    const slaves = copier.slaveConfigs.map((config) => this.getAccountHealth(copierId, config.slaveAccount));
+
+    for (const account of [...masters, ...slaves]) {
+      const role = masters.includes(account) ? "Master" : "Slave";
+      if (!account.connected) {
+        problems.push(`${role} account ${account.accountNumber} is disconnected`);
+      }
+
+      const previous = this.reconnectCounts.get(`${copierId}:${account.accountId}`);
+      if (previous !== undefined && account.reconnectCount - previous >= this.maxReconnectsPerCheck) {
+        problems.push(
+          `${role} account ${account.accountNumber} reconnected ${account.reconnectCount - previous} times since the last check`
+        );
+      }
+      this.reconnectCounts.set(`${copierId}:${account.accountId}`, account.reconnectCount);
+    }
+
+    // Newest event of any master
+    const lastEventAt =
+      masterAccounts
+        .map((account) => this.masterEvents.getLastEventAt(account.id))
+        .filter((eventAt): eventAt is Date => !!eventAt)
+        .sort((a, b) => b.getTime() - a.getTime())[0] || null;
+    const lastEventAgeMs = lastEventAt ? Date.now() - lastEventAt.getTime() : null;
+    if (this.maxEventAgeMs > 0 && lastEventAgeMs !== null && lastEventAgeMs > this.maxEventAgeMs) {
+      problems.push(`No master event for ${Math.round(lastEventAgeMs / 1000)}s`);
+    }
+
+    const snapshot: CopierHealthSnapshot = {
+      copierId,
+      checkedAt: new Date(),
+      healthy: problems.length === 0,
+      master,
+      masters,
+      slaves,
+      lastEventAt,
+      lastEventAgeMs,
+      problems,
+    };
+    this.snapshots.set(copierId, snapshot);
+
+    return snapshot;
+  }
+
+  /**
+   * Latest snapshot taken by the heartbeat
+   */
+  getLastSnapshot(copierId: string): CopierHealthSnapshot | undefined {
+    return this.snapshots.get(copierId);
+  }
+
+  /**
+   * Heartbeat of a running copier: check, flag and try to recover
+   */
+  async heartbeat(copierId: string): Promise<void> {
+    const snapshot = await this.check(copierId);
+    const copier = await this.prisma.copier.findUnique({ where: { id: copierId } });
+    if (!copier) {
+      return;
+    }
+
+    if (snapshot.healthy) {
+      if (copier.status === CopierStatus.ERROR) {
+        await this.setStatus(copier, CopierStatus.ACTIVE, null, snapshot);
+        await this.log(copierId, "info", `Copier recovered automatically`);
+      }
+      return;
+    }
+
+    // Paused/stopped copiers are left alone
+    if (copier.status !== CopierStatus.ACTIVE && copier.status !== CopierStatus.ERROR) {
+      return;
+    }
+
+    const reason = snapshot.problems.join("; ");
+    if (copier.status === CopierStatus.ACTIVE || copier.statusReason !== reason) {
+      await this.setStatus(copier, CopierStatus.ERROR, reason, snapshot);
+      await this.log(copierId, "error", `Copier unhealthy: ${reason}`, { health: snapshot as any });
+    }
+
+    await this.recover(copierId, snapshot);
+  }
+
+  forget(copierId: string): void {
+    this.snapshots.delete(copierId);
+    for (const key of Array.from(this.reconnectCounts.keys())) {
+      if (key.startsWith(`${copierId}:`)) {
+        this.reconnectCounts.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Reconnect the sessions of the accounts that are down
+   */
+  private async recover(copierId: string, snapshot: CopierHealthSnapshot): Promise<void> {
+    const copier = await this.getCopier(copierId);
+    const accounts = [...this.getMasterAccounts(copier), ...copier.slaveConfigs.map((config) => config.slaveAccount)];
+    const down = new Set(
+      [...snapshot.masters, ...snapshot.slaves].filter((health) => !health.connected).map((health) => health.accountId)
+    );
+
+    for (const account of accounts.filter((account) => down.has(account.id))) {
+      try {
+        await this.adapterRegistry.reconnect(account);
+        this.logger.log(`Reconnected account ${account.id} of copier ${copierId}`);
+      } catch (error) {
+        this.logger.warn(`Recovery of account ${account.id} for copier ${copierId} failed: ${error.message}`);
+      }
+    }
+  }
+
+  private getAccountHealth(copierId: string, account: TradingAccount): AccountHealth {
+    const [session] = this.adapterRegistry.listSessions([account.id]);
+
+    return {
+      accountId: account.id,
+      accountNumber: account.accountNumber,
+      connected: session ? session.connected : false,
+      reconnectCount: session ? session.reconnectCount : 0,
+    };
+  }
+
+  /**
+   * The masters the engine listens on: the active masters, the primary if none are listed
+   */
+  private getMasterAccounts(copier: { masterAccount: TradingAccount; masters: { account: TradingAccount }[] }) {
+    if (copier.masters.length === 0) {
+      return [copier.masterAccount];
+    }
+
+    return copier.masters.map((master) => master.account);
+  }
+
+  private async getCopier(copierId: string) {
+    const copier = await this.prisma.copier.findUnique({
+      where: { id: copierId },
+      include: {
+        masterAccount: true,
+        masters: {
+          where: { isActive: true },
+          include: {
+            account: true,
+          },
+        },
+        slaveConfigs: {
+          where: { isActive: true },
+          include: {
+            slaveAccount: true,
+          },
+        },
+      },
+    });
+
+    if (!copier) {
+      throw new Error(`Copier ${copierId} not found`);
+    }
+
+    return copier;
+  }
+
+  private async setStatus(
+    copier: { id: string; userId: string },
+    status: CopierStatus,
+    statusReason: string | null,
+    snapshot: CopierHealthSnapshot
+  ): Promise<void> {
+    await this.prisma.copier.update({
+      where: { id: copier.id },
+      data: { status, statusReason },
+    });
+
+    this.websocketGateway.emitCopierUpdate(copier.userId, copier.id, {
+      status,
+      statusReason,
+      health: snapshot,
+    });
+  }
+
+  private async log(copierId: string, level: string, message: string, details?: any): Promise<void> {
+    await this.prisma.executionLog.create({
+      data: { copierId, level, message, details },
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import { Injectable, Logger, OnApplicationBootstrap } from "@nestjs/common";
+import { CopierStatus } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { TradeCopierEngine } from "./trade-copier.engine";
+import { PositionReconciler } from "./position.reconciler";
+
+/**
+ * Copier Recovery Service
+ * Copiers keep their ACTIVE status across restarts, but the engine only tracks running
+ * copiers in memory. On boot, every ACTIVE copier is started again, catches up on the
+ * master fills it missed, and is reconciled against its slaves.
+ */
+@Injectable()
+export class CopierRecoveryService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(CopierRecoveryService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private tradeCopierEngine: TradeCopierEngine,
+    private positionReconciler: PositionReconciler
+  ) {}
+
+  onApplicationBootstrap() {
+    // Connecting to every platform can take a while, so do not hold up the server start
+    this.recoverActiveCopiers().catch((error) => {
+      this.logger.error(`Copier recovery failed:`, error);
+    });
+  }
+
+  async recoverActiveCopiers(): Promise<void> {
+    const copiers = await this.prisma.copier.findMany({
+      where: { status: CopierStatus.ACTIVE },
+      select: { id: true, name: true },
+    });
+
+    if (copiers.length === 0) {
+      return;
+    }
+
+    this.logger.log(`Recovering ${copiers.length} active copier(s)`);
+
+    for (const copier of copiers) {
+      try {
+        await this.tradeCopierEngine.start(copier.id, { catchUp: true });
+
+        await this.prisma.executionLog.create({
+          data: {
+            copierId: copier.id,
+            level: "info",
+            message: `Copier resumed after server restart`,
+          },
+        });
+      } catch (error) {
+        this.logger.error(`Could not resume copier ${copier.id} (${copier.name}):`, error);
+        await this.tradeCopierEngine.stop(copier.id);
+
+        await this.prisma.copier.update({
+          where: { id: copier.id },
+          data: { status: CopierStatus.ERROR, statusReason: `Could not resume after restart: ${error.message}` },
+        });
+
+        await this.prisma.executionLog.create({
+          data: {
+            copierId: copier.id,
+            level: "error",
+            message: `Could not resume copier after server restart: ${error.message}`,
+            details: { error: error.toString() },
+          },
+        });
+        continue;
+      }
+
+      // Fix any drift left by fills that could not be replayed
+      try {
+        await this.positionReconciler.reconcile(copier.id);
+      } catch (error) {
+        this.logger.warn(`Reconciliation after recovery failed for copier ${copier.id}:`, error);
+      }
+    }
+  }
+}
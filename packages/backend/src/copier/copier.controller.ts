@@ -6,11 +6,25 @@ import {
   Patch,
   Param,
   Delete,
+  Query,
   UseGuards,
   Request,
 } from "@nestjs/common";
 import { CopierService } from "./copier.service";
-import { CreateCopierDto, UpdateCopierDto, AddSlaveAccountDto, UpdateSlaveAccountDto } from "./dto";
+import {
+  CreateCopierDto,
+  UpdateCopierDto,
+  AddSlaveAccountDto,
+  UpdateSlaveAccountDto,
+  ReconcileCopierDto,
+  CreateRiskRuleDto,
+  UpdateRiskRuleDto,
+  CreateSymbolMappingDto,
+  UpdateSymbolMappingDto,
+  AddMasterAccountDto,
+  UpdateMasterAccountDto,
+  FlattenCopierDto,
+} from "./dto";
 import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
 
 @UseGuards(JwtAuthGuard)
@@ -62,6 +76,86 @@ export class CopierController {
     return this.copierService.pause(id, req.user.id);
   }
 
+  @Post(":id/flatten")
+  flatten(@Request() req, @Param("id") id: string, @Body() dto: FlattenCopierDto) {
+    return this.copierService.flatten(id, req.user.id, dto);
+  }
+
+  @Get(":id/reconciliation")
+  getReconciliation(@Request() req, @Param("id") id: string, @Query("limit") limit?: number) {
+    return this.copierService.getReconciliationHistory(
+      id,
+      req.user.id,
+      limit ? parseInt(limit.toString()) : 20
+    );
+  }
+
+  @Post(":id/reconciliation")
+  reconcile(@Request() req, @Param("id") id: string, @Body() dto: ReconcileCopierDto) {
+    return this.copierService.reconcile(id, req.user.id, dto.mode);
+  }
+
+  /**
+   * Would-have slave trades of a dry run, with a summary per slave
+   */
+  @Get(":id/shadow-trades")
+  getShadowTrades(
+    @Request() req,
+    @Param("id") id: string,
+    @Query("slaveAccountId") slaveAccountId?: string,
+    @Query("startDate") startDate?: string,
+    @Query("endDate") endDate?: string
+  ) {
+    return this.copierService.getShadowTrades(id, req.user.id, {
+      slaveAccountId,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+    });
+  }
+
+  /**
+   * Clear the shadow trades (and hypothetical positions) before a new dry run
+   */
+  @Delete(":id/shadow-trades")
+  clearShadowTrades(@Request() req, @Param("id") id: string) {
+    return this.copierService.clearShadowTrades(id, req.user.id);
+  }
+
+  @Get(":id/health")
+  getHealth(@Request() req, @Param("id") id: string) {
+    return this.copierService.getHealth(id, req.user.id);
+  }
+
+  @Get(":id/queue")
+  getQueue(@Request() req, @Param("id") id: string) {
+    return this.copierService.getQueue(id, req.user.id);
+  }
+
+  @Get(":id/masters")
+  getMasters(@Request() req, @Param("id") id: string) {
+    return this.copierService.getMasters(id, req.user.id);
+  }
+
+  @Post(":id/masters")
+  addMaster(@Request() req, @Param("id") id: string, @Body() dto: AddMasterAccountDto) {
+    return this.copierService.addMaster(id, req.user.id, dto);
+  }
+
+  @Patch(":id/masters/:accountId")
+  updateMaster(
+    @Request() req,
+    @Param("id") id: string,
+    @Param("accountId") accountId: string,
+    @Body() dto: UpdateMasterAccountDto
+  ) {
+    return this.copierService.updateMaster(id, req.user.id, accountId, dto);
+  }
+
+  @Delete(":id/masters/:accountId")
+  removeMaster(@Request() req, @Param("id") id: string, @Param("accountId") accountId: string) {
+    return this.copierService.removeMaster(id, req.user.id, accountId);
+  }
+
   @Post(":id/slaves")
   addSlaveAccount(@Request() req, @Param("id") id: string, @Body() dto: AddSlaveAccountDto) {
     return this.copierService.addSlaveAccount(id, req.user.id, dto);
@@ -81,4 +175,65 @@ export class CopierController {
   ) {
     return this.copierService.updateSlaveConfig(id, req.user.id, slaveAccountId, updates);
   }
+
+  @Get(":id/slaves/:slaveAccountId/rules")
+  getRiskRules(@Request() req, @Param("id") id: string, @Param("slaveAccountId") slaveAccountId: string) {
+    return this.copierService.getRiskRules(id, req.user.id, slaveAccountId);
+  }
+
+  @Post(":id/slaves/:slaveAccountId/rules")
+  addRiskRule(
+    @Request() req,
+    @Param("id") id: string,
+    @Param("slaveAccountId") slaveAccountId: string,
+    @Body() dto: CreateRiskRuleDto
+  ) {
+    return this.copierService.addRiskRule(id, req.user.id, slaveAccountId, dto);
+  }
+
+  @Patch(":id/slaves/:slaveAccountId/rules/:ruleId")
+  updateRiskRule(
+    @Request() req,
+    @Param("id") id: string,
+    @Param("slaveAccountId") slaveAccountId: string,
+    @Param("ruleId") ruleId: string,
+    @Body() dto: UpdateRiskRuleDto
+  ) {
+    return this.copierService.updateRiskRule(id, req.user.id, slaveAccountId, ruleId, dto);
+  }
+
+  @Delete(":id/slaves/:slaveAccountId/rules/:ruleId")
+  removeRiskRule(
+    @Request() req,
+    @Param("id") id: string,
+    @Param("slaveAccountId") slaveAccountId: string,
+    @Param("ruleId") ruleId: string
+  ) {
+    return this.copierService.removeRiskRule(id, req.user.id, slaveAccountId, ruleId);
+  }
+
+  @Get(":id/symbol-mappings")
+  getSymbolMappings(@Request() req, @Param("id") id: string) {
+    return this.copierService.getSymbolMappings(id, req.user.id);
+  }
+
+  @Post(":id/symbol-mappings")
+  addSymbolMapping(@Request() req, @Param("id") id: string, @Body() dto: CreateSymbolMappingDto) {
+    return this.copierService.addSymbolMapping(id, req.user.id, dto);
+  }
+
+  @Patch(":id/symbol-mappings/:mappingId")
+  updateSymbolMapping(
+    @Request() req,
+    @Param("id") id: string,
+    @Param("mappingId") mappingId: string,
+    @Body() dto: UpdateSymbolMappingDto
+  ) {
+    return this.copierService.updateSymbolMapping(id, req.user.id, mappingId, dto);
+  }
+
+  @Delete(":id/symbol-mappings/:mappingId")
+  removeSymbolMapping(@Request() req, @Param("id") id: string, @Param("mappingId") mappingId: string) {
+    return this.copierService.removeSymbolMapping(id, req.user.id, mappingId);
+  }
 }
@@ -1,14 +1,61 @@
-import { Module } from "@nestjs/common";
+import { Module, forwardRef } from "@nestjs/common";
+import { BullModule } from "@nestjs/bull";
 import { CopierService } from "./copier.service";
 import { CopierController } from "./copier.controller";
 import { TradeCopierEngine } from "./trade-copier.engine";
+import { MasterEventClassifier } from "./master-event.classifier";
+import { RiskScalingService } from "./risk-scaling.service";
+import { PositionReconciler } from "./position.reconciler";
+import { RiskRuleEngine } from "./risk-rules/risk-rule.engine";
+import { CopyQueueService } from "./copy-queue.service";
+import { CopyJobProcessor } from "./copy-job.processor";
+import { COPY_DEAD_LETTER_QUEUE, COPY_QUEUE } from "./copy.queue";
+import { MasterEventStream } from "./master-event.stream";
+import { CopierRecoveryService } from "./copier-recovery.service";
+import { CopierHealthMonitor } from "./copier-health.monitor";
+import { BracketSynchronizer } from "./bracket.synchronizer";
+import { OrderMirror } from "./order.mirror";
+import { SymbolMapper } from "./symbol.mapper";
+import { SlaveFlattener } from "./slave.flattener";
+import { SessionScheduler } from "./session.scheduler";
+import { SignalAggregator } from "./signal.aggregator";
+import { CopyFilter } from "./copy.filter";
+import { ShadowRecorder } from "./shadow.recorder";
 import { AccountsModule } from "../accounts/accounts.module";
 import { TradesModule } from "../trades/trades.module";
+import { WebSocketModule } from "../websocket/websocket.module";
+import { NewsModule } from "../news/news.module";
 
 @Module({
-  imports: [AccountsModule, TradesModule],
+  imports: [
+    forwardRef(() => AccountsModule),
+    TradesModule,
+    NewsModule,
+    forwardRef(() => WebSocketModule),
+    BullModule.registerQueue({ name: COPY_QUEUE }, { name: COPY_DEAD_LETTER_QUEUE }),
+  ],
   controllers: [CopierController],
-  providers: [CopierService, TradeCopierEngine],
-  exports: [CopierService, TradeCopierEngine],
+  providers: [
+    CopierService,
+    TradeCopierEngine,
+    MasterEventClassifier,
+    RiskScalingService,
+    PositionReconciler,
+    RiskRuleEngine,
+    CopyQueueService,
+    CopyJobProcessor,
+    MasterEventStream,
+    CopierRecoveryService,
+    CopierHealthMonitor,
+    BracketSynchronizer,
+    OrderMirror,
+    SymbolMapper,
+    SlaveFlattener,
+    SessionScheduler,
+    SignalAggregator,
+    CopyFilter,
+    ShadowRecorder,
+  ],
+  exports: [CopierService, TradeCopierEngine, RiskScalingService, RiskRuleEngine],
 })
 export class CopierModule {}
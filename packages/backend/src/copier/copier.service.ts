@@ -1,17 +1,49 @@
 import { Injectable, NotFoundException, BadRequestException } from "@nestjs/common";
 import { PrismaService } from "../prisma/prisma.service";
-import { CreateCopierDto, UpdateCopierDto, AddSlaveAccountDto } from "./dto";
+import {
+  CreateCopierDto,
+  UpdateCopierDto,
+  AddSlaveAccountDto,
+  CreateRiskRuleDto,
+  UpdateRiskRuleDto,
+  CreateSymbolMappingDto,
+  UpdateSymbolMappingDto,
+  AddMasterAccountDto,
+  UpdateMasterAccountDto,
+  FlattenCopierDto,
+} from "./dto";
 import { TradeCopierEngine } from "./trade-copier.engine";
-import { CopierStatus } from "@prisma/client";
+import { PositionReconciler } from "./position.reconciler";
+import { FirmPresetsService } from "../accounts/presets/firm-presets.service";
+import { CopyQueueService } from "./copy-queue.service";
+import { CopierHealthMonitor } from "./copier-health.monitor";
+import { AccountFlattener } from "../accounts/account.flattener";
+import { KillSwitchService } from "../accounts/kill-switch.service";
+import { AdapterRegistry } from "../accounts/adapters/adapter.registry";
+import { BracketSynchronizer } from "./bracket.synchronizer";
+import { OrderMirror } from "./order.mirror";
+import { TradingSchedule, validateSchedule } from "../common/sessions/trading-schedule";
+import { CopierStatus, ReconciliationMode, TradingAccount } from "@prisma/client";
 
 @Injectable()
 export class CopierService {
   constructor(
     private prisma: PrismaService,
-    private tradeCopierEngine: TradeCopierEngine
+    private tradeCopierEngine: TradeCopierEngine,
+    private positionReconciler: PositionReconciler,
+    private firmPresets: FirmPresetsService,
+    private copyQueue: CopyQueueService,
+    private healthMonitor: CopierHealthMonitor,
+    private accountFlattener: AccountFlattener,
+    private killSwitch: KillSwitchService,
+    private adapterRegistry: AdapterRegistry,
+    private brackets: BracketSynchronizer,
+    private orderMirror: OrderMirror
   ) {}
 
   async create(userId: string, createCopierDto: CreateCopierDto) {
+    this.assertTradingSchedule(createCopierDto.tradingSchedule);
+
     // Verify master account exists and belongs to user
     const masterAccount = await this.prisma.tradingAccount.findFirst({
       where: {
@@ -24,23 +56,26 @@ export class CopierService {
       throw new NotFoundException("Master account not found");
     }
 
+    if (createCopierDto.slaveGroupId) {
+      await this.findAccountGroup(userId, createCopierDto.slaveGroupId);
+    }
+
     const copier = await this.prisma.copier.create({
       data: {
         ...createCopierDto,
+        tradingSchedule: createCopierDto.tradingSchedule as any,
         userId,
         status: CopierStatus.STOPPED,
-      },
-      include: {
-        masterAccount: true,
-        slaveConfigs: {
-          include: {
-            slaveAccount: true,
-          },
-        },
+        // The primary master is also the first entry of the copier's masters
+        masters: { create: { accountId: createCopierDto.masterAccountId } },
       },
     });
 
-    return copier;
+    if (copier.slaveGroupId) {
+      await this.syncGroupSlaves(copier.id);
+    }
+
+    return this.findOne(copier.id);
   }
 
   async findAll(userId: string) {
@@ -82,11 +117,30 @@ export class CopierService {
   }
 
   async update(id: string, userId: string, updateCopierDto: UpdateCopierDto) {
-    await this.findOne(id, userId);
+    const copier = await this.findOne(id, userId);
+    this.assertTradingSchedule(updateCopierDto.tradingSchedule);
+
+    // A new primary master replaces the previous one in the copier's masters
+    const masterAccountId = updateCopierDto.masterAccountId;
+    if (masterAccountId && masterAccountId !== copier.masterAccountId) {
+      await this.findMasterCandidate(id, userId, masterAccountId);
+      await this.prisma.copierMaster.deleteMany({
+        where: { copierId: id, accountId: copier.masterAccountId },
+      });
+      await this.prisma.copierMaster.upsert({
+        where: { copierId_accountId: { copierId: id, accountId: masterAccountId } },
+        create: { copierId: id, accountId: masterAccountId },
+        update: { isActive: true },
+      });
+    }
 
-    return this.prisma.copier.update({
+    if (updateCopierDto.slaveGroupId) {
+      await this.findAccountGroup(userId, updateCopierDto.slaveGroupId);
+    }
+
+    const updated = await this.prisma.copier.update({
       where: { id },
-      data: updateCopierDto,
+      data: { ...updateCopierDto, tradingSchedule: updateCopierDto.tradingSchedule as any },
       include: {
         masterAccount: true,
         slaveConfigs: {
@@ -96,6 +150,20 @@ export class CopierService {
         },
       },
     });
+
+    // The engine only sets up a copier's slave jobs on start, so a running copier is restarted
+    const dryRun = updateCopierDto.dryRun;
+    if (dryRun !== undefined && dryRun !== copier.dryRun && this.tradeCopierEngine.isRunning(id)) {
+      await this.tradeCopierEngine.stop(id);
+      await this.tradeCopierEngine.start(id);
+    }
+
+    if (updateCopierDto.slaveGroupId !== undefined && updateCopierDto.slaveGroupId !== copier.slaveGroupId) {
+      await this.syncGroupSlaves(id);
+      return this.findOne(id);
+    }
+
+    return updated;
   }
 
   async remove(id: string, userId: string) {
@@ -116,6 +184,10 @@ export class CopierService {
       throw new BadRequestException("Copier is already active");
     }
 
+    if (await this.killSwitch.isEngaged(userId)) {
+      throw new BadRequestException("Kill switch is engaged, re-arm it before starting copiers");
+    }
+
     // Verify master account is connected
     if (!copier.masterAccount.isConnected) {
       throw new BadRequestException("Master account is not connected");
@@ -127,7 +199,7 @@ export class CopierService {
     // Update status
     return this.prisma.copier.update({
       where: { id },
-      data: { status: CopierStatus.ACTIVE },
+      data: { status: CopierStatus.ACTIVE, statusReason: null },
     });
   }
 
@@ -140,10 +212,48 @@ export class CopierService {
     // Update status
     return this.prisma.copier.update({
       where: { id },
-      data: { status: CopierStatus.STOPPED },
+      data: { status: CopierStatus.STOPPED, statusReason: null },
     });
   }
 
+  /**
+   * Stop the copier, then cancel every working order and close every position on the
+   * selected slaves (all of them by default)
+   */
+  async flatten(id: string, userId: string, dto: FlattenCopierDto) {
+    const copier = await this.findOne(id, userId);
+    const slaveConfigs = dto.slaveAccountIds
+      ? copier.slaveConfigs.filter((config) => dto.slaveAccountIds.includes(config.slaveAccountId))
+      : copier.slaveConfigs;
+
+    if (dto.slaveAccountIds && slaveConfigs.length !== dto.slaveAccountIds.length) {
+      throw new NotFoundException("Slave account not found in this copier");
+    }
+
+    const reason = dto.reason || "Flattened manually";
+
+    // Stopped first, so nothing is copied back onto the flat slaves
+    await this.tradeCopierEngine.stop(id);
+    await this.prisma.copier.update({
+      where: { id },
+      data: { status: CopierStatus.STOPPED, statusReason: reason },
+    });
+
+    const accounts = await this.accountFlattener.flatten(slaveConfigs.map((config) => config.slaveAccount));
+    const failed = accounts.filter((account) => account.errors.length > 0);
+
+    await this.prisma.executionLog.create({
+      data: {
+        copierId: id,
+        level: failed.length > 0 ? "error" : "warning",
+        message: `Copier flattened (${reason}): ${accounts.length - failed.length}/${accounts.length} account(s) flat`,
+        details: { kind: "flatten", reason, accounts } as any,
+      },
+    });
+
+    return { copierId: id, status: CopierStatus.STOPPED, accounts };
+  }
+
   async pause(id: string, userId: string) {
     await this.findOne(id, userId);
 
@@ -151,12 +261,92 @@ export class CopierService {
 
     return this.prisma.copier.update({
       where: { id },
-      data: { status: CopierStatus.PAUSED },
+      data: { status: CopierStatus.PAUSED, statusReason: null },
+    });
+  }
+
+  async reconcile(id: string, userId: string, mode?: ReconciliationMode) {
+    await this.findOne(id, userId);
+
+    return this.positionReconciler.reconcile(id, mode);
+  }
+
+  async getReconciliationHistory(id: string, userId: string, limit = 20) {
+    await this.findOne(id, userId);
+
+    return this.positionReconciler.getHistory(id, limit);
+  }
+
+  async getHealth(id: string, userId: string) {
+    const copier = await this.findOne(id, userId);
+    const running = this.tradeCopierEngine.isRunning(id);
+
+    return {
+      status: copier.status,
+      statusReason: copier.statusReason,
+      running,
+      // A stopped copier has no sessions worth checking
+      health: running ? await this.healthMonitor.check(id) : null,
+      lastHeartbeat: this.healthMonitor.getLastSnapshot(id) || null,
+    };
+  }
+
+  async getShadowTrades(
+    id: string,
+    userId: string,
+    filters: { slaveAccountId?: string; startDate?: Date; endDate?: Date } = {}
+  ) {
+    await this.findOne(id, userId);
+
+    const where: any = { copierId: id };
+    if (filters.slaveAccountId) {
+      where.slaveAccountId = filters.slaveAccountId;
+    }
+    if (filters.startDate || filters.endDate) {
+      where.createdAt = {};
+      if (filters.startDate) where.createdAt.gte = filters.startDate;
+      if (filters.endDate) where.createdAt.lte = filters.endDate;
+    }
+
+    const trades = await this.prisma.shadowTrade.findMany({
+      where,
+      include: { slaveAccount: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const slaveAccountIds = Array.from(new Set(trades.map((trade) => trade.slaveAccountId)));
+    const summary = slaveAccountIds.map((slaveAccountId) => {
+      const slaveTrades = trades.filter((trade) => trade.slaveAccountId === slaveAccountId);
+      return {
+        slaveAccountId,
+        accountNumber: slaveTrades[0].slaveAccount.accountNumber,
+        orders: slaveTrades.length,
+        entries: slaveTrades.filter((trade) => trade.entry).length,
+        contracts: slaveTrades.reduce((sum, trade) => sum + trade.quantity, 0),
+        realizedPnL: slaveTrades.reduce((sum, trade) => sum + (trade.realizedPnL || 0), 0),
+      };
     });
+
+    return { trades, summary };
+  }
+
+  async clearShadowTrades(id: string, userId: string) {
+    await this.findOne(id, userId);
+
+    return this.prisma.shadowTrade.deleteMany({
+      where: { copierId: id },
+    });
+  }
+
+  async getQueue(id: string, userId: string) {
+    await this.findOne(id, userId);
+
+    return this.copyQueue.getCopierQueue(id);
   }
 
   async addSlaveAccount(id: string, userId: string, dto: AddSlaveAccountDto) {
     const copier = await this.findOne(id, userId);
+    this.assertTradingSchedule(dto.tradingSchedule);
 
     // Verify slave account exists and belongs to user
     const slaveAccount = await this.prisma.tradingAccount.findFirst({
@@ -184,7 +374,15 @@ export class CopierService {
       throw new BadRequestException("Slave account already added to this copier");
     }
 
-    return this.prisma.copierAccountConfig.create({
+    const master = await this.prisma.copierMaster.findUnique({
+      where: { copierId_accountId: { copierId: id, accountId: dto.slaveAccountId } },
+    });
+
+    if (master || copier.masterAccountId === dto.slaveAccountId) {
+      throw new BadRequestException("A master account of this copier cannot be one of its slaves");
+    }
+
+    const slaveConfig = await this.prisma.copierAccountConfig.create({
       data: {
         copierId: id,
         slaveAccountId: dto.slaveAccountId,
@@ -192,6 +390,15 @@ export class CopierService {
         fixedContracts: dto.fixedContracts,
         percentageScale: dto.percentageScale,
         maxContracts: dto.maxContracts,
+        roundingMode: dto.roundingMode,
+        minimumOneContract: dto.minimumOneContract,
+        invertDirection: dto.invertDirection,
+        tradingSchedule: dto.tradingSchedule as any,
+        includeSymbols: this.normalizeSymbols(dto.includeSymbols),
+        excludeSymbols: this.normalizeSymbols(dto.excludeSymbols),
+        directionFilter: dto.directionFilter,
+        minMasterQuantity: dto.minMasterQuantity,
+        maxTradesPerSession: dto.maxTradesPerSession,
         dailyLossLimit: dto.dailyLossLimit,
         autoDisable: dto.autoDisable ?? true,
       },
@@ -199,10 +406,100 @@ export class CopierService {
         slaveAccount: true,
       },
     });
+
+    if (dto.applyFirmPreset ?? true) {
+      await this.applyFirmPreset(slaveConfig, slaveAccount);
+    }
+
+    return slaveConfig;
+  }
+
+  /**
+   * Bring the slaves of a copier in line with the account group it follows: members that are
+   * not slaves yet are added with the group's default scaling, and slaves that came from a
+   * group are removed once their account is no longer in the copier's group. Slaves added by
+   * hand are left alone.
+   */
+  async syncGroupSlaves(id: string) {
+    const copier = await this.prisma.copier.findUnique({
+      where: { id },
+      include: {
+        masters: true,
+        slaveConfigs: { include: { slaveAccount: true } },
+        slaveGroup: {
+          include: {
+            members: { include: { account: true } },
+          },
+        },
+      },
+    });
+
+    if (!copier) {
+      throw new NotFoundException(`Copier with ID ${id} not found`);
+    }
+
+    const group = copier.slaveGroup;
+    const memberIds = new Set(group ? group.members.map((member) => member.accountId) : []);
+    const groupConfigs = copier.slaveConfigs.filter((config) => config.accountGroupId);
+
+    const removed = groupConfigs.filter((config) => !memberIds.has(config.slaveAccountId));
+    for (const config of removed) {
+      await this.releaseSlave(id, config.slaveAccount, "removed from the slave group");
+    }
+    if (removed.length > 0) {
+      await this.prisma.copierAccountConfig.deleteMany({
+        where: { id: { in: removed.map((config) => config.id) } },
+      });
+    }
+
+    if (!group) {
+      return { added: 0, removed: removed.length };
+    }
+
+    // Slaves another group brought in stay, they now belong to the copier's current group
+    await this.prisma.copierAccountConfig.updateMany({
+      where: {
+        copierId: id,
+        accountGroupId: { not: null },
+        slaveAccountId: { in: Array.from(memberIds) },
+      },
+      data: { accountGroupId: group.id },
+    });
+
+    const masterIds = new Set([copier.masterAccountId, ...copier.masters.map((master) => master.accountId)]);
+    const slaveIds = new Set(copier.slaveConfigs.map((config) => config.slaveAccountId));
+    const newMembers = group.members.filter(
+      (member) => !masterIds.has(member.accountId) && !slaveIds.has(member.accountId)
+    );
+
+    for (const member of newMembers) {
+      const slaveConfig = await this.prisma.copierAccountConfig.create({
+        data: {
+          copierId: id,
+          slaveAccountId: member.accountId,
+          accountGroupId: group.id,
+          scalingType: group.scalingType,
+          fixedContracts: group.fixedContracts,
+          percentageScale: group.percentageScale,
+          maxContracts: group.maxContracts,
+          roundingMode: group.roundingMode,
+          minimumOneContract: group.minimumOneContract,
+        },
+      });
+
+      await this.applyFirmPreset(slaveConfig, member.account);
+    }
+
+    return { added: newMembers.length, removed: removed.length };
   }
 
   async removeSlaveAccount(id: string, userId: string, slaveAccountId: string) {
-    await this.findOne(id, userId);
+    const copier = await this.findOne(id, userId);
+
+    const slaveConfig = copier.slaveConfigs.find((config) => config.slaveAccountId === slaveAccountId);
+    if (slaveConfig) {
+      await this.releaseSlave(id, slaveConfig.slaveAccount, "removed from the copier");
+    }
 
     return this.prisma.copierAccountConfig.delete({
       where: {
@@ -221,6 +518,8 @@ export class CopierService {
     updates: Partial<AddSlaveAccountDto>
   ) {
     await this.findOne(id, userId);
+    this.assertTradingSchedule(updates.tradingSchedule);
+    const { applyFirmPreset, ...data } = updates; // Only used when adding the slave
 
     return this.prisma.copierAccountConfig.update({
       where: {
@@ -229,10 +528,337 @@ export class CopierService {
           slaveAccountId,
         },
       },
-      data: updates,
+      data: {
+        ...data,
+        tradingSchedule: data.tradingSchedule as any,
+        includeSymbols: this.normalizeSymbols(data.includeSymbols),
+        excludeSymbols: this.normalizeSymbols(data.excludeSymbols),
+      },
       include: {
         slaveAccount: true,
       },
     });
   }
+
+  async getRiskRules(id: string, userId: string, slaveAccountId: string) {
+    const slaveConfig = await this.findSlaveConfig(id, userId, slaveAccountId);
+
+    return this.prisma.riskRule.findMany({
+      where: { copierConfigId: slaveConfig.id },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async addRiskRule(id: string, userId: string, slaveAccountId: string, dto: CreateRiskRuleDto) {
+    const slaveConfig = await this.findSlaveConfig(id, userId, slaveAccountId);
+
+    return this.prisma.riskRule.create({
+      data: {
+        copierConfigId: slaveConfig.id,
+        ruleType: dto.ruleType,
+        threshold: dto.threshold ?? 0,
+        action: dto.action,
+        params: dto.params,
+        isActive: dto.isActive ?? true,
+      },
+    });
+  }
+
+  async updateRiskRule(
+    id: string,
+    userId: string,
+    slaveAccountId: string,
+    ruleId: string,
+    dto: UpdateRiskRuleDto
+  ) {
+    await this.findRiskRule(id, userId, slaveAccountId, ruleId);
+
+    return this.prisma.riskRule.update({
+      where: { id: ruleId },
+      data: dto,
+    });
+  }
+
+  async removeRiskRule(id: string, userId: string, slaveAccountId: string, ruleId: string) {
+    await this.findRiskRule(id, userId, slaveAccountId, ruleId);
+
+    return this.prisma.riskRule.delete({
+      where: { id: ruleId },
+    });
+  }
+
+  async getSymbolMappings(id: string, userId: string) {
+    await this.findOne(id, userId);
+
+    return this.prisma.symbolMapping.findMany({
+      where: { copierId: id },
+      include: { copierConfig: { select: { slaveAccountId: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async addSymbolMapping(id: string, userId: string, dto: CreateSymbolMappingDto) {
+    await this.findOne(id, userId);
+    const slaveConfig = dto.slaveAccountId ? await this.findSlaveConfig(id, userId, dto.slaveAccountId) : null;
+
+    return this.prisma.symbolMapping.create({
+      data: {
+        copierId: id,
+        copierConfigId: slaveConfig?.id,
+        masterSymbol: dto.masterSymbol.trim().toUpperCase(),
+        slaveSymbol: dto.slaveSymbol.trim().toUpperCase(),
+        multiplier: dto.multiplier ?? 1,
+        isActive: dto.isActive ?? true,
+      },
+    });
+  }
+
+  async updateSymbolMapping(id: string, userId: string, mappingId: string, dto: UpdateSymbolMappingDto) {
+    await this.findSymbolMapping(id, userId, mappingId);
+
+    return this.prisma.symbolMapping.update({
+      where: { id: mappingId },
+      data: {
+        ...dto,
+        masterSymbol: dto.masterSymbol?.trim().toUpperCase(),
+        slaveSymbol: dto.slaveSymbol?.trim().toUpperCase(),
+      },
+    });
+  }
+
+  async removeSymbolMapping(id: string, userId: string, mappingId: string) {
+    await this.findSymbolMapping(id, userId, mappingId);
+
+    return this.prisma.symbolMapping.delete({
+      where: { id: mappingId },
+    });
+  }
+
+  async getMasters(id: string, userId: string) {
+    await this.findOne(id, userId);
+
+    return this.prisma.copierMaster.findMany({
+      where: { copierId: id },
+      include: { account: true },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async addMaster(id: string, userId: string, dto: AddMasterAccountDto) {
+    await this.findMasterCandidate(id, userId, dto.accountId);
+
+    const existing = await this.prisma.copierMaster.findUnique({
+      where: { copierId_accountId: { copierId: id, accountId: dto.accountId } },
+    });
+
+    if (existing) {
+      throw new BadRequestException("Master account already added to this copier");
+    }
+
+    return this.prisma.copierMaster.create({
+      data: {
+        copierId: id,
+        accountId: dto.accountId,
+        weight: dto.weight ?? 1,
+      },
+      include: { account: true },
+    });
+  }
+
+  async updateMaster(id: string, userId: string, accountId: string, dto: UpdateMasterAccountDto) {
+    const master = await this.findMaster(id, userId, accountId);
+
+    return this.prisma.copierMaster.update({
+      where: { id: master.id },
+      data: dto,
+      include: { account: true },
+    });
+  }
+
+  async removeMaster(id: string, userId: string, accountId: string) {
+    const master = await this.findMaster(id, userId, accountId);
+    const copier = await this.findOne(id, userId);
+
+    if (copier.masterAccountId === accountId) {
+      throw new BadRequestException("The primary master cannot be removed; change the copier's master account first");
+    }
+
+    return this.prisma.copierMaster.delete({
+      where: { id: master.id },
+    });
+  }
+
+  /**
+   * Seed the firm's rules (drawdown, daily loss, max contracts, consistency) as risk rules of a
+   * slave, and turn on the copier's news blackout when the firm bans trading around news
+   */
+  private async applyFirmPreset(slaveConfig: { id: string; copierId: string }, slaveAccount: TradingAccount) {
+    const presetRules = this.firmPresets.buildRiskRules(slaveAccount);
+    if (presetRules.length > 0) {
+      await this.prisma.riskRule.createMany({
+        data: presetRules.map((rule) => ({ ...rule, copierConfigId: slaveConfig.id })),
+      });
+    }
+
+    if (this.firmPresets.bansNewsTrading(slaveAccount)) {
+      await this.prisma.copier.update({
+        where: { id: slaveConfig.copierId },
+        data: { newsBlackoutEnabled: true },
+      });
+    }
+  }
+
+  /**
+   * Cancel what the copier still has working on a slave that leaves it: nothing manages its
+   * mirrored orders and brackets once the config is gone. Copied positions are left open and logged.
+   */
+  private async releaseSlave(copierId: string, slaveAccount: TradingAccount, reason: string) {
+    const [workingOrders, brackets, openTrades] = await Promise.all([
+      this.prisma.orderMapping.count({ where: { copierId, slaveAccountId: slaveAccount.id, status: "working" } }),
+      this.prisma.bracketOrder.count({ where: { copierId, slaveAccountId: slaveAccount.id } }),
+      this.prisma.trade.findMany({
+        where: { copierId, accountId: slaveAccount.id, closedAt: null },
+        select: { symbol: true },
+        distinct: ["symbol"],
+      }),
+    ]);
+
+    if (workingOrders > 0 || brackets > 0) {
+      try {
+        const slaveAdapter = await this.adapterRegistry.getOrConnect(slaveAccount);
+        await this.orderMirror.cancelForSlave(copierId, slaveAccount.id, slaveAdapter, reason);
+        await this.brackets.cancelForSlave(copierId, slaveAccount.id, slaveAdapter, reason);
+      } catch (error) {
+        await this.prisma.executionLog.create({
+          data: {
+            copierId,
+            level: "error",
+            message: `Could not cancel the copied orders of a slave account ${reason}: ${error.message}`,
+            slaveAccountId: slaveAccount.id,
+            details: { kind: "slave_removed", reason, workingOrders, brackets },
+          },
+        });
+      }
+    }
+
+    if (openTrades.length > 0) {
+      const symbols = openTrades.map((trade) => trade.symbol);
+      await this.prisma.executionLog.create({
+        data: {
+          copierId,
+          level: "warning",
+          message: `Slave account ${reason} with open copied positions left unmanaged: ${symbols.join(", ")}`,
+          slaveAccountId: slaveAccount.id,
+          details: { kind: "slave_removed", reason, symbols },
+        },
+      });
+    }
+  }
+
+  private normalizeSymbols(symbols?: string[]) {
+    return symbols?.map((symbol) => symbol.trim().toUpperCase()).filter((symbol) => symbol !== "");
+  }
+
+  private assertTradingSchedule(schedule?: TradingSchedule) {
+    const error = schedule && validateSchedule(schedule);
+    if (error) {
+      throw new BadRequestException(`Invalid trading schedule: ${error}`);
+    }
+  }
+
+  private async findSlaveConfig(id: string, userId: string, slaveAccountId: string) {
+    await this.findOne(id, userId);
+
+    const slaveConfig = await this.prisma.copierAccountConfig.findUnique({
+      where: {
+        copierId_slaveAccountId: {
+          copierId: id,
+          slaveAccountId,
+        },
+      },
+    });
+
+    if (!slaveConfig) {
+      throw new NotFoundException("Slave account not found in this copier");
+    }
+
+    return slaveConfig;
+  }
+
+  private async findRiskRule(id: string, userId: string, slaveAccountId: string, ruleId: string) {
+    const slaveConfig = await this.findSlaveConfig(id, userId, slaveAccountId);
+
+    const rule = await this.prisma.riskRule.findFirst({
+      where: { id: ruleId, copierConfigId: slaveConfig.id },
+    });
+
+    if (!rule) {
+      throw new NotFoundException("Risk rule not found");
+    }
+
+    return rule;
+  }
+
+  /**
+   * An account of the user that can be a master of the copier (i.e. is not one of its slaves)
+   */
+  private async findMasterCandidate(id: string, userId: string, accountId: string) {
+    const account = await this.prisma.tradingAccount.findFirst({
+      where: { id: accountId, userId },
+    });
+
+    if (!account) {
+      throw new NotFoundException("Master account not found");
+    }
+
+    const slaveConfig = await this.prisma.copierAccountConfig.findUnique({
+      where: { copierId_slaveAccountId: { copierId: id, slaveAccountId: accountId } },
+    });
+
+    if (slaveConfig) {
+      throw new BadRequestException("A slave account of this copier cannot be one of its masters");
+    }
+
+    return account;
+  }
+
+  private async findMaster(id: string, userId: string, accountId: string) {
+    await this.findOne(id, userId);
+
+    const master = await this.prisma.copierMaster.findUnique({
+      where: { copierId_accountId: { copierId: id, accountId } },
+    });
+
+    if (!master) {
+      throw new NotFoundException("Master account not found in this copier");
+    }
+
+    return master;
+  }
+
+  private async findAccountGroup(userId: string, groupId: string) {
+    const group = await this.prisma.accountGroup.findFirst({
+      where: { id: groupId, userId },
+    });
+
+    if (!group) {
+      throw new NotFoundException("Account group not found");
+    }
+
+    return group;
+  }
+
+  private async findSymbolMapping(id: string, userId: string, mappingId: string) {
+    await this.findOne(id, userId);
+
+    const mapping = await this.prisma.symbolMapping.findFirst({
+      where: { id: mappingId, copierId: id },
+    });
+
+    if (!mapping) {
+      throw new NotFoundException("Symbol mapping not found");
+    }
+
+    return mapping;
+  }
 }
@@ -0,0 +1,95 @@
+import { Logger } from "@nestjs/common";
+import { Process, Processor } from "@nestjs/bull";
+import { Job } from "bull";
+import { CopierStatus } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { TradeCopierEngine } from "./trade-copier.engine";
+import { CopyQueueService } from "./copy-queue.service";
+import { COPY_QUEUE, CopyJobData, isTransientError } from "./copy.queue";
+import { MasterEvent } from "./master-event.classifier";
+
+/**
+ * Copy Job Processor
+ * Places the slave order of one (master trade, slave) job. Transient adapter errors are
+ * retried with backoff; anything else, or the last failed attempt, is dead-lettered.
+ */
+@Processor(COPY_QUEUE)
+export class CopyJobProcessor {
+  private readonly logger = new Logger(CopyJobProcessor.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private engine: TradeCopierEngine,
+    private copyQueue: CopyQueueService
+  ) {}
+
+  @Process({ concurrency: 5 })
+  async process(job: Job<CopyJobData>): Promise<void> {
+    const { copierId, masterTradeId, slaveAccountId } = job.data;
+
+    // Dates do not survive the trip through Redis
+    const event: MasterEvent = {
+      ...job.data.event,
+      executedAt: job.data.event.executedAt ? new Date(job.data.event.executedAt) : undefined,
+      receivedAt: job.data.event.receivedAt ? new Date(job.data.event.receivedAt) : undefined,
+    };
+
+    const copier = await this.prisma.copier.findUnique({
+      where: { id: copierId },
+      include: {
+        masterAccount: true,
+        slaveConfigs: {
+          where: { slaveAccountId, isActive: true },
+          include: {
+            slaveAccount: true,
+          },
+        },
+      },
+    });
+    const masterTrade = await this.prisma.trade.findUnique({ where: { id: masterTradeId } });
+    const slaveConfig = copier?.slaveConfigs[0];
+
+    if (!copier || !masterTrade || !slaveConfig) {
+      this.logger.warn(`Skipping copy job ${job.id}: copier, master trade or active slave no longer exists`);
+      return;
+    }
+
+    // Jobs still queued when the copier was stopped or paused are dropped
+    if (copier.status !== CopierStatus.ACTIVE) {
+      this.logger.warn(`Skipping copy job ${job.id}: copier ${copierId} is ${copier.status}`);
+      await this.prisma.executionLog.create({
+        data: {
+          copierId,
+          level: "warning",
+          message: `${event.type} not copied: copier is ${copier.status}`,
+          masterTradeId,
+          slaveAccountId,
+        },
+      });
+      return;
+    }
+
+    try {
+      await this.engine.copyToSlave(copier, event, masterTrade, slaveConfig);
+    } catch (error) {
+      const transient = isTransientError(error);
+      const lastAttempt = !transient || job.attemptsMade + 1 >= (job.opts.attempts || 1);
+
+      if (!lastAttempt) {
+        this.logger.warn(
+          `Copy job ${job.id} failed (attempt ${job.attemptsMade + 1}), retrying: ${error.message}`
+        );
+        throw error;
+      }
+
+      await this.engine.recordCopyFailure(copierId, event, masterTradeId, slaveAccountId, error);
+      await this.copyQueue.deadLetter(job, error);
+
+      if (!transient) {
+        await job.discard();
+      }
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { Injectable } from "@nestjs/common";
+import { InjectQueue } from "@nestjs/bull";
+import { Job, JobStatus, Queue } from "bull";
+import {
+  COPY_DEAD_LETTER_QUEUE,
+  COPY_QUEUE,
+  CopyJobData,
+  DeadLetterJobData,
+  copyJobId,
+} from "./copy.queue";
+import { MasterEvent } from "./master-event.classifier";
+
+/**
+ * Copy Queue Service
+ * Puts slave order placement on a durable Bull queue so a crash mid-copy does not lose orders
+ */
+@Injectable()
+export class CopyQueueService {
+  private readonly attempts = parseInt(process.env.COPY_JOB_ATTEMPTS || "5");
+  private readonly backoffMs = parseInt(process.env.COPY_JOB_BACKOFF_MS || "1000");
+
+  constructor(
+    @InjectQueue(COPY_QUEUE) private copyQueue: Queue<CopyJobData>,
+    @InjectQueue(COPY_DEAD_LETTER_QUEUE) private deadLetterQueue: Queue<DeadLetterJobData>
+  ) {}
+
+  /**
+   * Queue one copy job per slave for a master fill
+   */
+  async enqueue(copierId: string, event: MasterEvent, masterTradeId: string, slaveAccountIds: string[]) {
+    return Promise.all(
+      slaveAccountIds.map((slaveAccountId) =>
+        this.copyQueue.add(
+          { copierId, masterTradeId, slaveAccountId, event },
+          {
+            jobId: copyJobId(masterTradeId, slaveAccountId, event.fillId),
+            attempts: this.attempts,
+            backoff: { type: "exponential", delay: this.backoffMs },
+            removeOnComplete: 1000,
+            removeOnFail: false,
+          }
+        )
+      )
+    );
+  }
+
+  /**
+   * Move a job that will not be retried to the dead-letter queue
+   */
+  async deadLetter(job: Job<CopyJobData>, error: Error) {
+    return this.deadLetterQueue.add(
+      {
+        ...job.data,
+        failedReason: error.message,
+        attemptsMade: job.attemptsMade + 1,
+        failedAt: new Date().toISOString(),
+      },
+      { jobId: job.id, removeOnComplete: false }
+    );
+  }
+
+  /**
+   * Pending and failed copy jobs of a copier
+   */
+  async getCopierQueue(copierId: string, limit = 100) {
+    const [waiting, delayed, active, failed, deadLettered] = await Promise.all([
+      this.getJobs(this.copyQueue, "waiting", copierId, limit),
+      this.getJobs(this.copyQueue, "delayed", copierId, limit),
+      this.getJobs(this.copyQueue, "active", copierId, limit),
+      this.getJobs(this.copyQueue, "failed", copierId, limit),
+      this.getJobs(this.deadLetterQueue, "waiting", copierId, limit),
+    ]);
+
+    return {
+      pending: [...active, ...waiting, ...delayed],
+      failed,
+      deadLettered,
+    };
+  }
+
+  private async getJobs(
+    queue: Queue<CopyJobData>,
+    status: JobStatus,
+    copierId: string,
+    limit: number
+  ) {
+    const jobs = await queue.getJobs([status]);
+
+    return jobs
+      .filter((job) => job && job.data.copierId === copierId)
+      .slice(0, limit)
+      .map((job) => ({
+        id: job.id,
+        status,
+        masterTradeId: job.data.masterTradeId,
+        slaveAccountId: job.data.slaveAccountId,
+        eventType: job.data.event.type,
+        symbol: job.data.event.symbol,
+        attemptsMade: job.attemptsMade,
+        failedReason: job.failedReason || (job.data as DeadLetterJobData).failedReason,
+        createdAt: new Date(job.timestamp),
+      }));
+  }
+}
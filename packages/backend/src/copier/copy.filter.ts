@@ -0,0 +1,106 @@
+import { Injectable } from "@nestjs/common";
+import { CopyDirectionFilter, TradeSide } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { getRootSymbol } from "../common/contracts/contract-specs";
+import { getSessionStart } from "../common/sessions/trading-schedule";
+
+export interface CopyFilterEntry {
+  masterSymbol: string;
+  symbol: string; // Instrument the slave trades
+  side: TradeSide; // Side of the slave's entry
+  masterQuantity: number;
+  opensPosition: boolean; // A new position rather than an addition to one
+}
+
+export interface CopyFilterCheck {
+  allowed: boolean;
+  reason?: string;
+}
+
+/**
+ * Copy Filter
+ * Per-slave filters on the entries a slave copies: symbol include/exclude lists, long-only or
+ * short-only, a minimum master order size and a maximum number of new positions per trading
+ * session. Exits are never filtered, so positions the slave already holds can always be closed.
+ */
+@Injectable()
+export class CopyFilter {
+  constructor(private prisma: PrismaService) {}
+
+  async check(copier: any, slaveConfig: any, entry: CopyFilterEntry, at: Date = new Date()): Promise<CopyFilterCheck> {
+    const staticCheck = this.checkStatic(slaveConfig, entry);
+    if (!staticCheck.allowed) {
+      return staticCheck;
+    }
+
+    if (slaveConfig.maxTradesPerSession && entry.opensPosition) {
+      const since = getSessionStart([slaveConfig.tradingSchedule, copier.tradingSchedule], at);
+      const trades = await this.countEntries(copier.id, slaveConfig.slaveAccountId, since);
+      if (trades >= slaveConfig.maxTradesPerSession) {
+        return {
+          allowed: false,
+          reason: `Slave reached its limit of ${slaveConfig.maxTradesPerSession} trades this session`,
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * The filters that only depend on the slave's settings and the entry (symbols, direction and
+   * master size), i.e. all but the per-session trade count
+   */
+  checkStatic(slaveConfig: any, entry: CopyFilterEntry): CopyFilterCheck {
+    if (slaveConfig.includeSymbols.length > 0 && !this.matches(slaveConfig.includeSymbols, entry)) {
+      return { allowed: false, reason: `${entry.masterSymbol} is not in the slave's symbol list` };
+    }
+
+    if (this.matches(slaveConfig.excludeSymbols, entry)) {
+      return { allowed: false, reason: `${entry.masterSymbol} is excluded for the slave` };
+    }
+
+    if (slaveConfig.directionFilter === CopyDirectionFilter.LONG_ONLY && entry.side !== TradeSide.BUY) {
+      return { allowed: false, reason: "Slave only copies long entries" };
+    }
+
+    if (slaveConfig.directionFilter === CopyDirectionFilter.SHORT_ONLY && entry.side !== TradeSide.SELL) {
+      return { allowed: false, reason: "Slave only copies short entries" };
+    }
+
+    if (slaveConfig.minMasterQuantity && entry.masterQuantity < slaveConfig.minMasterQuantity) {
+      return {
+        allowed: false,
+        reason: `Master quantity ${entry.masterQuantity} is below the slave's minimum of ${slaveConfig.minMasterQuantity}`,
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * New positions opened on a slave since the given time, counted from the copy logs
+   */
+  private async countEntries(copierId: string, slaveAccountId: string, since: Date): Promise<number> {
+    return this.prisma.executionLog.count({
+      where: {
+        copierId,
+        slaveAccountId,
+        createdAt: { gte: since },
+        details: { path: ["entry"], equals: true },
+      },
+    });
+  }
+
+  /**
+   * A list entry matches the master or slave symbol, either as the contract (ESZ6) or its root (ES)
+   */
+  private matches(symbols: string[], entry: CopyFilterEntry): boolean {
+    const candidates = [entry.masterSymbol, entry.symbol].flatMap((symbol) => [
+      symbol.trim().toUpperCase(),
+      getRootSymbol(symbol),
+    ]);
+
+    return symbols.some((symbol) => candidates.includes(symbol.trim().toUpperCase()));
+  }
+}
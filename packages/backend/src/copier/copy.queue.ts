@@ -0,0 +1,51 @@
+import { MasterEvent } from "./master-event.classifier";
+
+export const COPY_QUEUE = "copy-jobs";
+export const COPY_DEAD_LETTER_QUEUE = "copy-jobs-dead-letter";
+
+/**
+ * One job per (master fill, slave account)
+ */
+export interface CopyJobData {
+  copierId: string;
+  masterTradeId: string;
+  slaveAccountId: string;
+  event: MasterEvent;
+}
+
+export interface DeadLetterJobData extends CopyJobData {
+  failedReason: string;
+  attemptsMade: number;
+  failedAt: string;
+}
+
+/**
+ * Idempotency key of a copy job: Bull ignores a job whose id already exists.
+ * Partial fills of one master order share the master trade, so the fill id is part of the key.
+ */
+export function copyJobId(masterTradeId: string, slaveAccountId: string, fillId?: string): string {
+  return fillId ? `${masterTradeId}:${fillId}:${slaveAccountId}` : `${masterTradeId}:${slaveAccountId}`;
+}
+
+const TRANSIENT_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "ECONNABORTED", "EAI_AGAIN", "EPIPE"];
+
+/**
+ * Whether an adapter error is worth retrying (network failures, rate limits, platform 5xx)
+ */
+export function isTransientError(error: any): boolean {
+  if (TRANSIENT_ERROR_CODES.includes(error?.code)) {
+    return true;
+  }
+
+  const status = error?.response?.status;
+  if (status) {
+    return status === 429 || status >= 500;
+  }
+
+  // Axios request that never got a response
+  if (error?.isAxiosError) {
+    return true;
+  }
+
+  return /not connected|timed? ?out|socket hang up/i.test(error?.message || "");
+}
@@ -0,0 +1,11 @@
+import { IsString, IsNumber, IsOptional, IsPositive } from "class-validator";
+
+export class AddMasterAccountDto {
+  @IsString()
+  accountId: string;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  weight?: number; // Multiplies the master's quantities, e.g. 0.5 to follow it at half size
+}
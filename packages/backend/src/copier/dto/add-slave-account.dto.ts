@@ -1,5 +1,6 @@
-import { IsString, IsNumber, IsBoolean, IsOptional, IsEnum } from "class-validator";
-import { RiskScalingType } from "@prisma/client";
+import { IsString, IsNumber, IsBoolean, IsOptional, IsEnum, IsObject, IsInt, IsPositive } from "class-validator";
+import { CopyDirectionFilter, RiskScalingType, ScalingRounding } from "@prisma/client";
+import { TradingSchedule } from "../../common/sessions/trading-schedule";
 
 export class AddSlaveAccountDto {
   @IsString()
@@ -20,6 +21,44 @@ export class AddSlaveAccountDto {
   @IsNumber()
   maxContracts?: number;
 
+  @IsOptional()
+  @IsEnum(ScalingRounding)
+  roundingMode?: ScalingRounding;
+
+  @IsOptional()
+  @IsBoolean()
+  minimumOneContract?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  invertDirection?: boolean; // Trade against the master (BUY copied as SELL, brackets swapped)
+
+  @IsOptional()
+  @IsObject()
+  tradingSchedule?: TradingSchedule; // On top of the copier's schedule
+
+  @IsOptional()
+  @IsString({ each: true })
+  includeSymbols?: string[]; // Contracts or roots; empty copies every symbol
+
+  @IsOptional()
+  @IsString({ each: true })
+  excludeSymbols?: string[];
+
+  @IsOptional()
+  @IsEnum(CopyDirectionFilter)
+  directionFilter?: CopyDirectionFilter;
+
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  minMasterQuantity?: number;
+
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  maxTradesPerSession?: number;
+
   @IsOptional()
   @IsNumber()
   dailyLossLimit?: number;
@@ -27,4 +66,8 @@ export class AddSlaveAccountDto {
   @IsOptional()
   @IsBoolean()
   autoDisable?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  applyFirmPreset?: boolean; // Seed risk rules from the account's firm preset (default true)
 }
@@ -0,0 +1,22 @@
+import { IsEnum, IsNumber, IsOptional, IsBoolean, IsObject } from "class-validator";
+import { RiskRuleAction, RiskRuleType } from "../risk-rules/risk-rule.interface";
+
+export class CreateRiskRuleDto {
+  @IsEnum(RiskRuleType)
+  ruleType: RiskRuleType;
+
+  @IsOptional()
+  @IsNumber()
+  threshold?: number; // Not used by allowed_symbols
+
+  @IsEnum(RiskRuleAction)
+  action: RiskRuleAction;
+
+  @IsOptional()
+  @IsObject()
+  params?: Record<string, any>;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
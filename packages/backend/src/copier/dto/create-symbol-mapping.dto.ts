@@ -0,0 +1,22 @@
+import { IsString, IsNumber, IsOptional, IsBoolean, IsPositive } from "class-validator";
+
+export class CreateSymbolMappingDto {
+  @IsString()
+  masterSymbol: string; // Contract (ESZ6) or root (ES)
+
+  @IsString()
+  slaveSymbol: string; // A root resolves to its front month
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  multiplier?: number; // Slave contracts per master contract, e.g. 10 for ES to MES
+
+  @IsOptional()
+  @IsString()
+  slaveAccountId?: string; // Limits the mapping to one slave, otherwise copier-wide
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
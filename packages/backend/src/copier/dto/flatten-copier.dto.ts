@@ -0,0 +1,11 @@
+import { IsOptional, IsString } from "class-validator";
+
+export class FlattenCopierDto {
+  @IsOptional()
+  @IsString({ each: true })
+  slaveAccountIds?: string[]; // Every slave of the copier when omitted
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
@@ -2,3 +2,11 @@ export * from "./create-copier.dto";
 export * from "./update-copier.dto";
 export * from "./add-slave-account.dto";
 export * from "./update-slave-account.dto";
+export * from "./reconcile-copier.dto";
+export * from "./create-risk-rule.dto";
+export * from "./update-risk-rule.dto";
+export * from "./create-symbol-mapping.dto";
+export * from "./update-symbol-mapping.dto";
+export * from "./add-master-account.dto";
+export * from "./update-master-account.dto";
+export * from "./flatten-copier.dto";
@@ -0,0 +1,8 @@
+import { IsEnum, IsOptional } from "class-validator";
+import { ReconciliationMode } from "@prisma/client";
+
+export class ReconcileCopierDto {
+  @IsOptional()
+  @IsEnum(ReconciliationMode)
+  mode?: ReconciliationMode;
+}
@@ -1,7 +1,8 @@
 import { PartialType } from "@nestjs/mapped-types";
-import { IsOptional, IsString, IsBoolean, IsNumber, IsEnum } from "class-validator";
+import { IsOptional, IsString, IsBoolean, IsNumber, IsEnum, IsObject } from "class-validator";
 import { CreateCopierDto } from "./create-copier.dto";
-import { CopierStatus } from "@prisma/client";
+import { BracketMode, CopierStatus, NewsImpact, ReconciliationMode, SignalAggregationMode, StaleSignalAction } from "@prisma/client";
+import { TradingSchedule } from "../../common/sessions/trading-schedule";
 
 export class UpdateCopierDto extends PartialType(CreateCopierDto) {
   @IsOptional()
@@ -20,7 +21,71 @@ export class UpdateCopierDto extends PartialType(CreateCopierDto) {
   @IsBoolean()
   copyModifications?: boolean;
 
+  @IsOptional()
+  @IsBoolean()
+  copyBrackets?: boolean;
+
+  @IsOptional()
+  @IsEnum(BracketMode)
+  bracketMode?: BracketMode;
+
+  @IsOptional()
+  @IsBoolean()
+  mirrorPendingOrders?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean; // Run the copy pipeline without sending orders, recording shadow trades
+
   @IsOptional()
   @IsNumber()
   latencyToleranceMs?: number;
+
+  @IsOptional()
+  @IsEnum(StaleSignalAction)
+  staleSignalAction?: StaleSignalAction;
+
+  @IsOptional()
+  @IsNumber()
+  maxSlippage?: number;
+
+  @IsOptional()
+  @IsEnum(ReconciliationMode)
+  reconciliationMode?: ReconciliationMode;
+
+  @IsOptional()
+  @IsNumber()
+  reconciliationIntervalMs?: number;
+
+  @IsOptional()
+  @IsEnum(SignalAggregationMode)
+  aggregationMode?: SignalAggregationMode;
+
+  @IsOptional()
+  @IsString()
+  slaveGroupId?: string | null; // Account group whose members become the copier's slaves, null to detach
+
+  @IsOptional()
+  @IsObject()
+  tradingSchedule?: TradingSchedule;
+
+  @IsOptional()
+  @IsBoolean()
+  newsBlackoutEnabled?: boolean;
+
+  @IsOptional()
+  @IsNumber()
+  newsBlackoutBeforeMinutes?: number;
+
+  @IsOptional()
+  @IsNumber()
+  newsBlackoutAfterMinutes?: number;
+
+  @IsOptional()
+  @IsEnum(NewsImpact, { each: true })
+  newsBlackoutImpacts?: NewsImpact[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  newsBlackoutCurrencies?: string[]; // Empty matches every currency
 }
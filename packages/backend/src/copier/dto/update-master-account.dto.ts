@@ -0,0 +1,12 @@
+import { IsNumber, IsOptional, IsPositive, IsBoolean } from "class-validator";
+
+export class UpdateMasterAccountDto {
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  weight?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,4 @@
+import { OmitType, PartialType } from "@nestjs/mapped-types";
+import { CreateSymbolMappingDto } from "./create-symbol-mapping.dto";
+
+export class UpdateSymbolMappingDto extends PartialType(OmitType(CreateSymbolMappingDto, ["slaveAccountId"] as const)) {}
@@ -0,0 +1,108 @@
+import { TradeSide } from "@prisma/client";
+import { TradeExecution } from "../accounts/adapters/trading-adapter.interface";
+import { MasterEventClassifier, MasterEventType } from "./master-event.classifier";
+
+describe("MasterEventClassifier", () => {
+  let classifier: MasterEventClassifier;
+  let fills = 0;
+
+  const fill = (side: TradeSide, quantity: number, overrides: Partial<TradeExecution> = {}): TradeExecution => ({
+    orderId: `order-${++fills}`,
+    tradeId: `fill-${fills}`,
+    symbol: "ESZ6",
+    side,
+    quantity,
+    price: 5000,
+    executedAt: new Date(),
+    status: "filled",
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    classifier = new MasterEventClassifier();
+  });
+
+  it("classifies fills by how they change the net position", () => {
+    const steps: Array<[TradeSide, number, MasterEventType, number]> = [
+      [TradeSide.BUY, 2, MasterEventType.OPEN, 2],
+      [TradeSide.BUY, 1, MasterEventType.ADD, 3],
+      [TradeSide.SELL, 1, MasterEventType.REDUCE, 2],
+      [TradeSide.SELL, 2, MasterEventType.CLOSE, 0],
+      [TradeSide.SELL, 1, MasterEventType.OPEN, -1],
+      [TradeSide.BUY, 3, MasterEventType.REVERSE, 2],
+    ];
+
+    for (const [side, quantity, type, position] of steps) {
+      const event = classifier.classify("copier", fill(side, quantity));
+
+      expect(event.type).toBe(type);
+      expect(event.currentPosition).toBe(position);
+      expect(classifier.getPosition("copier", "ESZ6")).toBe(position);
+    }
+  });
+
+  it("counts only the opening leg of a reversal as opened", () => {
+    classifier.seed("copier", [
+      { symbol: "ESZ6", side: TradeSide.BUY, quantity: 2, entryPrice: 5000, unrealizedPnL: 0 },
+    ]);
+
+    const event = classifier.classify("copier", fill(TradeSide.SELL, 5));
+
+    expect(event.type).toBe(MasterEventType.REVERSE);
+    expect(event.previousPosition).toBe(2);
+    expect(event.currentPosition).toBe(-3);
+    expect(event.orderFilledQuantity).toBe(5);
+    expect(event.orderOpenedQuantity).toBe(3);
+  });
+
+  it("keeps running totals across the partial fills of one order", () => {
+    const partial = { orderId: "order", status: "partially_filled" as const };
+
+    const first = classifier.classify("copier", fill(TradeSide.BUY, 1, partial));
+    const second = classifier.classify("copier", fill(TradeSide.BUY, 2, partial));
+    const last = classifier.classify("copier", fill(TradeSide.BUY, 1, { orderId: "order" }));
+
+    expect([first.type, second.type, last.type]).toEqual([
+      MasterEventType.OPEN,
+      MasterEventType.ADD,
+      MasterEventType.ADD,
+    ]);
+    expect([first.orderFilledQuantity, second.orderFilledQuantity, last.orderFilledQuantity]).toEqual([1, 3, 4]);
+    expect([first.orderOpenedQuantity, second.orderOpenedQuantity, last.orderOpenedQuantity]).toEqual([1, 3, 4]);
+  });
+
+  it("tracks the opened part of an order whose partial fills close the position and open the other side", () => {
+    classifier.seed("copier", [
+      { symbol: "ESZ6", side: TradeSide.BUY, quantity: 2, entryPrice: 5000, unrealizedPnL: 0 },
+    ]);
+    const partial = { orderId: "order", status: "partially_filled" as const };
+
+    const closing = classifier.classify("copier", fill(TradeSide.SELL, 2, partial));
+    const opening = classifier.classify("copier", fill(TradeSide.SELL, 3, { orderId: "order" }));
+
+    expect(closing.type).toBe(MasterEventType.CLOSE);
+    expect(closing.orderOpenedQuantity).toBe(0);
+    expect(opening.type).toBe(MasterEventType.OPEN);
+    expect(opening.orderFilledQuantity).toBe(5);
+    expect(opening.orderOpenedQuantity).toBe(3);
+  });
+
+  it("reports stop/target updates of an open position as modifications", () => {
+    const pending = { status: "pending" as const, stopLoss: 4990 };
+
+    expect(classifier.classify("copier", fill(TradeSide.SELL, 1, pending))).toBeNull();
+
+    classifier.classify("copier", fill(TradeSide.BUY, 1));
+    const event = classifier.classify("copier", fill(TradeSide.SELL, 1, pending));
+
+    expect(event.type).toBe(MasterEventType.MODIFY);
+    expect(event.stopLoss).toBe(4990);
+    expect(classifier.getPosition("copier", "ESZ6")).toBe(1);
+  });
+
+  it("ignores cancelled and rejected orders", () => {
+    expect(classifier.classify("copier", fill(TradeSide.BUY, 1, { status: "cancelled" }))).toBeNull();
+    expect(classifier.classify("copier", fill(TradeSide.BUY, 1, { status: "rejected" }))).toBeNull();
+    expect(classifier.getPosition("copier", "ESZ6")).toBe(0);
+  });
+});
@@ -0,0 +1,182 @@
+import { Injectable } from "@nestjs/common";
+import { TradeSide } from "@prisma/client";
+import { Position, TradeExecution } from "../accounts/adapters/trading-adapter.interface";
+
+export enum MasterEventType {
+  OPEN = "open",
+  ADD = "add",
+  REDUCE = "reduce",
+  CLOSE = "close",
+  REVERSE = "reverse",
+  MODIFY = "modify",
+}
+
+export interface MasterEvent {
+  type: MasterEventType;
+  symbol: string;
+  side: TradeSide;
+  quantity: number;
+  price: number;
+  previousPosition: number; // Signed: positive = long, negative = short
+  currentPosition: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  executedAt?: Date; // Master fill time reported by the platform
+  receivedAt?: Date; // Set by the engine when the signal arrives
+  fillId?: string; // External trade id of the master fill
+  orderFilledQuantity?: number; // Filled so far on the master order, this fill included
+  orderOpenedQuantity?: number; // Part of orderFilledQuantity that opened or added to the position
+}
+
+interface OrderFill {
+  filled: number;
+  opened: number;
+}
+
+/**
+ * Master Event Classifier
+ * Tracks the master's net position per copier and symbol, and classifies each
+ * execution by how it changes that position.
+ */
+@Injectable()
+export class MasterEventClassifier {
+  private positions: Map<string, Map<string, number>> = new Map();
+  // Running totals of partially filled master orders, per copier and order id
+  private orderFills: Map<string, Map<string, OrderFill>> = new Map();
+  private readonly orderFillLimit = 1000;
+
+  /**
+   * Seed the tracked positions from the master's open positions
+   */
+  seed(copierId: string, positions: Position[]): void {
+    const bySymbol = new Map<string, number>();
+    for (const position of positions) {
+      bySymbol.set(position.symbol, this.signed(position.side, position.quantity));
+    }
+    this.positions.set(copierId, bySymbol);
+  }
+
+  /**
+   * Classify an execution and apply it to the tracked position.
+   * Returns null for events that do not need copying (cancels, rejects, plain order acks).
+   */
+  classify(copierId: string, execution: TradeExecution): MasterEvent | null {
+    const previousPosition = this.getPosition(copierId, execution.symbol);
+
+    if (execution.status !== "filled" && execution.status !== "partially_filled") {
+      const isModification =
+        execution.status === "pending" &&
+        (execution.stopLoss !== undefined || execution.takeProfit !== undefined);
+
+      if (!isModification || previousPosition === 0) {
+        return null;
+      }
+
+      return {
+        type: MasterEventType.MODIFY,
+        symbol: execution.symbol,
+        side: execution.side,
+        quantity: Math.abs(previousPosition),
+        price: execution.price,
+        previousPosition,
+        currentPosition: previousPosition,
+        stopLoss: execution.stopLoss,
+        takeProfit: execution.takeProfit,
+        executedAt: execution.executedAt,
+      };
+    }
+
+    const currentPosition = previousPosition + this.signed(execution.side, execution.quantity);
+    this.setPosition(copierId, execution.symbol, currentPosition);
+
+    const type = this.resolveType(previousPosition, currentPosition);
+    const orderFill = this.trackOrderFill(
+      copierId,
+      execution.orderId,
+      execution.quantity,
+      this.getOpenedQuantity(type, execution.quantity, currentPosition)
+    );
+
+    return {
+      type,
+      symbol: execution.symbol,
+      side: execution.side,
+      quantity: execution.quantity,
+      price: execution.price,
+      previousPosition,
+      currentPosition,
+      executedAt: execution.executedAt,
+      fillId: execution.tradeId,
+      orderFilledQuantity: orderFill.filled,
+      orderOpenedQuantity: orderFill.opened,
+    };
+  }
+
+  getPosition(copierId: string, symbol: string): number {
+    return this.positions.get(copierId)?.get(symbol) || 0;
+  }
+
+  reset(copierId: string): void {
+    this.positions.delete(copierId);
+    this.orderFills.delete(copierId);
+  }
+
+  /**
+   * Quantity of a fill that opened or added to the position (the opening leg of a reversal)
+   */
+  private getOpenedQuantity(type: MasterEventType, quantity: number, currentPosition: number): number {
+    switch (type) {
+      case MasterEventType.OPEN:
+      case MasterEventType.ADD:
+        return quantity;
+      case MasterEventType.REVERSE:
+        return Math.abs(currentPosition);
+      default:
+        return 0;
+    }
+  }
+
+  private resolveType(previous: number, current: number): MasterEventType {
+    if (previous === 0) {
+      return MasterEventType.OPEN;
+    }
+    if (current === 0) {
+      return MasterEventType.CLOSE;
+    }
+    if (Math.sign(previous) !== Math.sign(current)) {
+      return MasterEventType.REVERSE;
+    }
+    return Math.abs(current) > Math.abs(previous) ? MasterEventType.ADD : MasterEventType.REDUCE;
+  }
+
+  private trackOrderFill(copierId: string, orderId: string, quantity: number, opened: number): OrderFill {
+    if (!orderId) {
+      return { filled: quantity, opened };
+    }
+
+    const fills = this.orderFills.get(copierId) || new Map<string, OrderFill>();
+    const previous = fills.get(orderId) || { filled: 0, opened: 0 };
+    const current = { filled: previous.filled + quantity, opened: previous.opened + opened };
+
+    // Re-insert so the oldest orders are dropped first
+    fills.delete(orderId);
+    fills.set(orderId, current);
+    if (fills.size > this.orderFillLimit) {
+      fills.delete(fills.keys().next().value);
+    }
+    this.orderFills.set(copierId, fills);
+
+    return current;
+  }
+
+  private setPosition(copierId: string, symbol: string, quantity: number): void {
+    if (!this.positions.has(copierId)) {
+      this.positions.set(copierId, new Map());
+    }
+    this.positions.get(copierId).set(symbol, quantity);
+  }
+
+  private signed(side: TradeSide, quantity: number): number {
+    return side === TradeSide.BUY ? quantity : -quantity;
+  }
+}
@@ -0,0 +1,250 @@
+import { Injectable, Logger, OnModuleDestroy } from "@nestjs/common";
+import { TradingAccount } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { AdapterRegistry } from "../accounts/adapters/adapter.registry";
+import { TradeExecution } from "../accounts/adapters/trading-adapter.interface";
+
+type MasterEventListener = (execution: TradeExecution) => Promise<void> | void;
+
+interface MasterStream {
+  account: TradingAccount;
+  listeners: Set<MasterEventListener>;
+  detach: () => void;
+  lastTradeId: string | null;
+  lastExecutedAt: Date;
+  recentKeys: Set<string>;
+  processing: Promise<void>;
+  lastEventAt: Date | null; // Last raw event from the adapter, duplicates included
+}
+
+/**
+ * Master Event Stream
+ * Single subscription per master account that drops re-emitted trades before they reach
+ * the copiers. Polling adapters send every trade of the day on each tick, so each event is
+ * keyed on its external trade/order id and recorded in ProcessedMasterEvent, and fills older
+ * than the account's cursor are ignored (both survive restarts).
+ */
+@Injectable()
+export class MasterEventStream implements OnModuleDestroy {
+  private readonly logger = new Logger(MasterEventStream.name);
+  private streams: Map<string, MasterStream> = new Map();
+  private pendingStreams: Map<string, Promise<MasterStream>> = new Map();
+  private readonly recentKeyLimit = 5000;
+  private readonly retentionDays = 7;
+
+  constructor(
+    private prisma: PrismaService,
+    private adapterRegistry: AdapterRegistry
+  ) {}
+
+  /**
+   * Receive the new (deduplicated) trade events of a master account.
+   * The account must have an adapter session (see AdapterRegistry.getOrConnect).
+   */
+  async subscribe(account: TradingAccount, listener: MasterEventListener): Promise<() => void> {
+    const stream = await this.getOrOpen(account);
+    stream.listeners.add(listener);
+
+    return () => {
+      stream.listeners.delete(listener);
+      if (stream.listeners.size === 0 && this.streams.get(account.id) === stream) {
+        stream.detach();
+        this.streams.delete(account.id);
+      }
+    };
+  }
+
+  /**
+   * Cursor of a master account (last forwarded fill)
+   */
+  getCursor(accountId: string): { lastTradeId: string | null; lastExecutedAt: Date } | undefined {
+    const stream = this.streams.get(accountId);
+    return stream && { lastTradeId: stream.lastTradeId, lastExecutedAt: stream.lastExecutedAt };
+  }
+
+  /**
+   * When the adapter of a master account last sent any trade event
+   */
+  getLastEventAt(accountId: string): Date | null {
+    return this.streams.get(accountId)?.lastEventAt || null;
+  }
+
+  /**
+   * Record fills handled outside the stream (catch-up after downtime), so later polls
+   * do not forward them again
+   */
+  async markProcessed(accountId: string, executions: TradeExecution[]): Promise<void> {
+    const stream = this.streams.get(accountId);
+
+    for (const execution of executions) {
+      const eventKey = this.getEventKey(execution);
+      await this.record(accountId, eventKey, execution);
+
+      if (stream) {
+        this.remember(stream, eventKey);
+      }
+    }
+  }
+
+  onModuleDestroy() {
+    for (const stream of this.streams.values()) {
+      stream.detach();
+    }
+    this.streams.clear();
+  }
+
+  private async getOrOpen(account: TradingAccount): Promise<MasterStream> {
+    const existing = this.streams.get(account.id);
+    if (existing) {
+      return existing;
+    }
+
+    const pending = this.pendingStreams.get(account.id);
+    if (pending) {
+      return pending;
+    }
+
+    const opening = this.open(account).finally(() => {
+      this.pendingStreams.delete(account.id);
+    });
+    this.pendingStreams.set(account.id, opening);
+
+    return opening;
+  }
+
+  private async open(account: TradingAccount): Promise<MasterStream> {
+    // A new cursor starts now, so the trade history returned by the first poll is not copied
+    const cursor =
+      (await this.prisma.masterEventCursor.findUnique({ where: { accountId: account.id } })) ||
+      (await this.prisma.masterEventCursor.create({
+        data: { accountId: account.id, lastExecutedAt: new Date() },
+      }));
+
+    await this.prisma.processedMasterEvent.deleteMany({
+      where: {
+        accountId: account.id,
+        executedAt: { lt: new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000) },
+      },
+    });
+
+    const stream: MasterStream = {
+      account,
+      listeners: new Set(),
+      detach: () => undefined,
+      lastTradeId: cursor.lastTradeId,
+      lastExecutedAt: cursor.lastExecutedAt,
+      recentKeys: new Set(),
+      processing: Promise.resolve(),
+      lastEventAt: null,
+    };
+
+    // Events are handled one at a time so fills reach the copiers in order
+    stream.detach = this.adapterRegistry.onTradeUpdate(account.id, (execution) => {
+      stream.lastEventAt = new Date();
+      stream.processing = stream.processing
+        .then(() => this.handle(stream, execution))
+        .catch((error) => {
+          this.logger.error(`Error handling trade event of account ${account.id}:`, error);
+        });
+    });
+
+    this.streams.set(account.id, stream);
+    this.logger.log(`Master event stream opened for account ${account.id}`);
+
+    return stream;
+  }
+
+  private async handle(stream: MasterStream, execution: TradeExecution): Promise<void> {
+    const eventKey = this.getEventKey(execution);
+    if (stream.recentKeys.has(eventKey)) {
+      return;
+    }
+
+    const isFill = execution.status === "filled" || execution.status === "partially_filled";
+    const executedAt = execution.executedAt ? new Date(execution.executedAt) : new Date();
+
+    // Working-order updates (SL/TP moves) keep the order's time, so only fills are checked against the cursor
+    if (isFill && executedAt < stream.lastExecutedAt) {
+      this.remember(stream, eventKey);
+      return;
+    }
+
+    const isNew = await this.record(stream.account.id, eventKey, execution);
+    this.remember(stream, eventKey);
+
+    if (!isNew) {
+      return;
+    }
+
+    if (isFill) {
+      stream.lastTradeId = execution.tradeId || stream.lastTradeId;
+      stream.lastExecutedAt = executedAt;
+    }
+
+    await Promise.allSettled(Array.from(stream.listeners).map((listener) => listener(execution)));
+  }
+
+  /**
+   * Persist an event key and advance the account cursor for fills.
+   * Returns false when the event was already processed.
+   */
+  private async record(accountId: string, eventKey: string, execution: TradeExecution): Promise<boolean> {
+    const isFill = execution.status === "filled" || execution.status === "partially_filled";
+    const executedAt = execution.executedAt ? new Date(execution.executedAt) : new Date();
+
+    try {
+      await this.prisma.processedMasterEvent.create({
+        data: {
+          accountId,
+          eventKey,
+          externalTradeId: execution.tradeId || null,
+          externalOrderId: execution.orderId || null,
+          executedAt,
+        },
+      });
+    } catch (error) {
+      if (error.code === "P2002") {
+        return false;
+      }
+      throw error;
+    }
+
+    if (isFill) {
+      await this.prisma.masterEventCursor.updateMany({
+        where: { accountId, lastExecutedAt: { lte: executedAt } },
+        data: { lastTradeId: execution.tradeId || undefined, lastExecutedAt: executedAt },
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Fills are identified by their trade id; order updates by their id and current state
+   */
+  private getEventKey(execution: TradeExecution): string {
+    const isFill = execution.status === "filled" || execution.status === "partially_filled";
+    if (isFill && execution.tradeId) {
+      return `trade:${execution.tradeId}`;
+    }
+
+    return [
+      "order",
+      execution.orderId,
+      execution.status,
+      execution.quantity,
+      execution.price,
+      execution.stopLoss ?? "",
+      execution.takeProfit ?? "",
+    ].join(":");
+  }
+
+  private remember(stream: MasterStream, eventKey: string) {
+    stream.recentKeys.add(eventKey);
+
+    // Sets iterate in insertion order, so this drops the oldest key
+    if (stream.recentKeys.size > this.recentKeyLimit) {
+      stream.recentKeys.delete(stream.recentKeys.values().next().value);
+    }
+  }
+}
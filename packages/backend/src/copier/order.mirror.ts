@@ -0,0 +1,501 @@
+import { Injectable, Logger, OnModuleDestroy } from "@nestjs/common";
+import { CopierStatus, OrderMapping, TradeSide, TradeType } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { AdapterRegistry } from "../accounts/adapters/adapter.registry";
+import {
+  ITradingAdapter,
+  Position,
+  TradeExecution,
+  WorkingOrder,
+} from "../accounts/adapters/trading-adapter.interface";
+import { RiskScalingService } from "./risk-scaling.service";
+import { RiskRuleEngine } from "./risk-rules/risk-rule.engine";
+import { SymbolMapper } from "./symbol.mapper";
+import { checkSchedules } from "../common/sessions/trading-schedule";
+import { NewsService } from "../news/news.service";
+import { CopyFilter } from "./copy.filter";
+import { KillSwitchService } from "../accounts/kill-switch.service";
+
+/**
+ * Order Mirror
+ * Mirrors the master's resting LIMIT/STOP entry orders onto the slaves of copiers with
+ * mirrorPendingOrders on, and follows their modifications and cancellations. The fill of a
+ * mirrored order is not copied again by the engine to the slaves the order works on, each
+ * slave order fills on its own.
+ */
+@Injectable()
+export class OrderMirror implements OnModuleDestroy {
+  private readonly logger = new Logger(OrderMirror.name);
+  private schedules: Map<string, NodeJS.Timeout> = new Map();
+  private syncing: Set<string> = new Set();
+  private readonly intervalMs = parseInt(process.env.ORDER_MIRROR_INTERVAL_MS || "5000");
+
+  constructor(
+    private prisma: PrismaService,
+    private adapterRegistry: AdapterRegistry,
+    private riskScaling: RiskScalingService,
+    private riskRules: RiskRuleEngine,
+    private symbolMapper: SymbolMapper,
+    private news: NewsService,
+    private copyFilter: CopyFilter,
+    private killSwitch: KillSwitchService
+  ) {}
+
+  /**
+   * Start periodic order mirroring for a copier
+   */
+  schedule(copierId: string): void {
+    this.unschedule(copierId);
+
+    const interval = setInterval(async () => {
+      try {
+        await this.sync(copierId);
+      } catch (error) {
+        this.logger.error(`Order mirroring failed for copier ${copierId}:`, error);
+      }
+    }, this.intervalMs);
+
+    this.schedules.set(copierId, interval);
+  }
+
+  /**
+   * Stop periodic order mirroring for a copier. Slave orders already placed keep working.
+   */
+  unschedule(copierId: string): void {
+    const interval = this.schedules.get(copierId);
+    if (interval) {
+      clearInterval(interval);
+      this.schedules.delete(copierId);
+    }
+  }
+
+  /**
+   * Bring the mirrored slave orders of a copier in line with the master's working entry orders
+   */
+  async sync(copierId: string): Promise<void> {
+    if (this.syncing.has(copierId)) {
+      return;
+    }
+
+    this.syncing.add(copierId);
+    try {
+      await this.syncCopier(copierId);
+    } finally {
+      this.syncing.delete(copierId);
+    }
+  }
+
+  /**
+   * Claim a master fill for a mirrored order.
+   * Returns the slaves the order is working on, i.e. that must not get the fill copied again.
+   * Slaves whose mirror was blocked, failed or cancelled, and slaves added after the order was
+   * mirrored, are not claimed: they get the fill as a regular entry. The mappings keep working
+   * until the master order is gone, so a cancellation or change of the rest still follows.
+   */
+  async claimFill(copierId: string, masterOrderId: string, quantity: number): Promise<Set<string>> {
+    const live = { copierId, masterOrderId, status: { in: ["working", "filled"] } };
+    const mappings = await this.prisma.orderMapping.findMany({
+      where: live,
+      select: { slaveAccountId: true },
+    });
+
+    await this.prisma.orderMapping.updateMany({
+      where: live,
+      data: { masterFilledQuantity: { increment: quantity } },
+    });
+
+    return new Set(mappings.map((mapping) => mapping.slaveAccountId));
+  }
+
+  /**
+   * Cancel the working mirrored orders of a slave, e.g. before the slave is flattened.
+   * A later master fill of such an order is copied as a regular entry.
+   */
+  async cancelForSlave(
+    copierId: string,
+    slaveAccountId: string,
+    slaveAdapter: ITradingAdapter,
+    reason: string
+  ): Promise<void> {
+    const mappings = await this.prisma.orderMapping.findMany({
+      where: { copierId, slaveAccountId, status: "working" },
+    });
+
+    for (const mapping of mappings) {
+      try {
+        await slaveAdapter.cancelOrder(mapping.slaveOrderId);
+      } catch (error) {
+        // Already filled or cancelled on the platform
+        this.logger.debug(`Could not cancel mirrored order ${mapping.slaveOrderId}: ${error.message}`);
+      }
+
+      await this.prisma.orderMapping.update({
+        where: { id: mapping.id },
+        data: { status: "cancelled" },
+      });
+      await this.log(copierId, slaveAccountId, "info", `Pending order cancelled on slave account (${reason})`, {
+        masterOrderId: mapping.masterOrderId,
+        slaveOrderId: mapping.slaveOrderId,
+      });
+    }
+  }
+
+  onModuleDestroy() {
+    for (const copierId of Array.from(this.schedules.keys())) {
+      this.unschedule(copierId);
+    }
+  }
+
+  private async syncCopier(copierId: string): Promise<void> {
+    const copier = await this.prisma.copier.findUnique({
+      where: { id: copierId },
+      include: {
+        masterAccount: true,
+        slaveConfigs: {
+          where: { isActive: true },
+          include: {
+            slaveAccount: true,
+          },
+        },
+      },
+    });
+
+    if (!copier || !copier.mirrorPendingOrders || copier.status !== CopierStatus.ACTIVE) {
+      return;
+    }
+
+    if (await this.killSwitch.isEngaged(copier.userId)) {
+      return;
+    }
+
+    const masterAdapter = await this.adapterRegistry.getOrConnect(copier.masterAccount);
+    const [masterInfo, masterOrders] = await Promise.all([
+      masterAdapter.getAccountInfo(),
+      masterAdapter.getWorkingOrders(),
+    ]);
+    const entries = this.getEntryOrders(masterInfo.positions, masterOrders);
+
+    const mappings = await this.prisma.orderMapping.findMany({
+      where: {
+        copierId,
+        OR: [{ status: "working" }, { masterOrderId: { in: entries.map((order) => order.orderId) } }],
+      },
+    });
+
+    // Mirrored master orders that stopped working were either filled or cancelled
+    const gone = mappings.filter(
+      (mapping) => mapping.status === "working" && !entries.some((order) => order.orderId === mapping.masterOrderId)
+    );
+    if (gone.length > 0) {
+      await this.settle(masterAdapter, gone);
+    }
+
+    for (const slaveConfig of copier.slaveConfigs) {
+      try {
+        const slaveAdapter = await this.adapterRegistry.getOrConnect(slaveConfig.slaveAccount);
+
+        for (const order of entries) {
+          const mapping = mappings.find(
+            (mapping) =>
+              mapping.masterOrderId === order.orderId && mapping.slaveAccountId === slaveConfig.slaveAccountId
+          );
+
+          if (!mapping) {
+            await this.placeOnSlave(copier, slaveConfig, slaveAdapter, order);
+          } else if (
+            mapping.status === "working" &&
+            (mapping.price !== order.price || this.getMasterRemaining(mapping) !== order.quantity)
+          ) {
+            await this.modifyOnSlave(copier, slaveConfig, slaveAdapter, order, mapping);
+          }
+        }
+      } catch (error) {
+        this.logger.error(`Order mirroring failed for slave ${slaveConfig.slaveAccountId}:`, error);
+      }
+    }
+  }
+
+  private async placeOnSlave(
+    copier: any,
+    slaveConfig: any,
+    slaveAdapter: ITradingAdapter,
+    order: WorkingOrder
+  ): Promise<void> {
+    // Outside the trading windows the order is left for a later run
+    const sessionCheck = checkSchedules([copier.tradingSchedule, slaveConfig.tradingSchedule]);
+    if (!sessionCheck.allowed) {
+      this.logger.debug(`Pending order ${order.orderId} not mirrored yet: ${sessionCheck.reason}`);
+      return;
+    }
+
+    const newsEvent = await this.news.findBlackout(copier);
+    if (newsEvent) {
+      this.logger.debug(`Pending order ${order.orderId} not mirrored yet: news blackout for ${newsEvent.title}`);
+      return;
+    }
+
+    const route = await this.symbolMapper.resolve(copier.id, slaveConfig, order.symbol);
+    // An inverted slave sells where the master buys: a buy limit becomes a sell stop at the same price
+    const side = slaveConfig.invertDirection ? this.invertSide(order.side) : order.side;
+    const type = slaveConfig.invertDirection ? this.invertType(order.type) : order.type;
+    const quantity = await this.riskScaling.calculateScaledQuantity(
+      order.quantity,
+      slaveConfig,
+      slaveConfig.slaveAccount,
+      copier.masterAccount,
+      route.multiplier
+    );
+
+    if (quantity <= 0) {
+      this.logger.warn(`Scaled quantity is 0 for slave ${slaveConfig.slaveAccountId}`);
+      return;
+    }
+
+    const mapping = {
+      copierId: copier.id,
+      masterOrderId: order.orderId,
+      slaveAccountId: slaveConfig.slaveAccountId,
+      symbol: route.symbol,
+      side,
+      type,
+      masterQuantity: order.quantity,
+      quantity,
+      price: order.price,
+    };
+
+    const filter = await this.copyFilter.check(copier, slaveConfig, {
+      masterSymbol: order.symbol,
+      symbol: route.symbol,
+      side,
+      masterQuantity: order.quantity,
+      opensPosition: true,
+    });
+    if (!filter.allowed) {
+      await this.prisma.orderMapping.create({
+        data: { ...mapping, status: "blocked", errorMessage: filter.reason },
+      });
+      await this.log(
+        copier.id,
+        slaveConfig.slaveAccountId,
+        "info",
+        `Pending order not mirrored: ${filter.reason}`,
+        { ...mapping, filter: filter.reason }
+      );
+      return;
+    }
+
+    const riskCheck = await this.riskRules.check(
+      copier.id,
+      slaveConfig,
+      slaveConfig.slaveAccount,
+      slaveAdapter,
+      { symbol: route.symbol, side, quantity }
+    );
+    if (!riskCheck.allowed) {
+      await this.prisma.orderMapping.create({
+        data: { ...mapping, status: "blocked", errorMessage: riskCheck.reason },
+      });
+      await this.log(
+        copier.id,
+        slaveConfig.slaveAccountId,
+        "warning",
+        `Pending order not mirrored: ${riskCheck.reason}`,
+        mapping
+      );
+      return;
+    }
+
+    try {
+      const execution = await slaveAdapter.placeOrder({
+        symbol: route.symbol,
+        side,
+        type,
+        quantity,
+        price: order.price,
+      });
+
+      await this.prisma.orderMapping.create({
+        data: { ...mapping, slaveOrderId: execution.orderId },
+      });
+      await this.log(
+        copier.id,
+        slaveConfig.slaveAccountId,
+        "info",
+        `Pending ${type} order mirrored to slave account`,
+        { ...mapping, slaveOrderId: execution.orderId, entry: true }
+      );
+    } catch (error) {
+      // Recorded as failed so the order is not sent again on every run
+      await this.prisma.orderMapping.create({
+        data: { ...mapping, status: "failed", errorMessage: error.message },
+      });
+      await this.log(
+        copier.id,
+        slaveConfig.slaveAccountId,
+        "error",
+        `Failed to mirror pending order: ${error.message}`,
+        mapping
+      );
+    }
+  }
+
+  private async modifyOnSlave(
+    copier: any,
+    slaveConfig: any,
+    slaveAdapter: ITradingAdapter,
+    order: WorkingOrder,
+    mapping: OrderMapping
+  ): Promise<void> {
+    // The slave order fills on its own: its size is only touched when the master changed the rest
+    // of its order, not when part of it filled
+    const resized = order.quantity !== this.getMasterRemaining(mapping);
+    const quantity = resized
+      ? await this.riskScaling.calculateScaledQuantity(
+          order.quantity,
+          slaveConfig,
+          slaveConfig.slaveAccount,
+          copier.masterAccount,
+          (await this.symbolMapper.resolve(copier.id, slaveConfig, order.symbol)).multiplier
+        )
+      : mapping.quantity;
+
+    try {
+      await slaveAdapter.modifyOrder(
+        mapping.slaveOrderId,
+        resized ? { price: order.price, quantity } : { price: order.price }
+      );
+      await this.prisma.orderMapping.update({
+        where: { id: mapping.id },
+        data: { price: order.price, masterQuantity: order.quantity + mapping.masterFilledQuantity, quantity },
+      });
+      await this.log(
+        copier.id,
+        slaveConfig.slaveAccountId,
+        "info",
+        `Pending order modification mirrored to slave account`,
+        { masterOrderId: mapping.masterOrderId, slaveOrderId: mapping.slaveOrderId, price: order.price, quantity }
+      );
+    } catch (error) {
+      await this.prisma.orderMapping.update({
+        where: { id: mapping.id },
+        data: { errorMessage: error.message },
+      });
+      await this.log(
+        copier.id,
+        slaveConfig.slaveAccountId,
+        "error",
+        `Failed to mirror pending order modification: ${error.message}`,
+        { masterOrderId: mapping.masterOrderId, slaveOrderId: mapping.slaveOrderId }
+      );
+    }
+  }
+
+  /**
+   * Close the mappings of master orders that are no longer working.
+   * Filled orders are left to fill on the slaves, cancelled ones are cancelled there too, as is
+   * the rest of a slave order whose master order was cancelled after a partial fill.
+   */
+  private async settle(masterAdapter: ITradingAdapter, mappings: OrderMapping[]): Promise<void> {
+    const since = new Date(Math.min(...mappings.map((mapping) => mapping.createdAt.getTime())));
+
+    let fills: TradeExecution[] = [];
+    try {
+      fills = await masterAdapter.getTradeHistory(since);
+    } catch (error) {
+      // Without the history the order is treated as cancelled, the safer side for the slave
+      this.logger.warn(`Could not load master fills to settle mirrored orders: ${error.message}`);
+    }
+    const filledQuantities = new Map<string, number>();
+    for (const fill of fills) {
+      filledQuantities.set(fill.orderId, (filledQuantities.get(fill.orderId) || 0) + fill.quantity);
+    }
+
+    for (const mapping of mappings) {
+      const filled = filledQuantities.get(mapping.masterOrderId) || 0;
+      if (filled >= mapping.masterQuantity) {
+        await this.prisma.orderMapping.update({
+          where: { id: mapping.id },
+          data: { status: "filled", masterFilledQuantity: filled },
+        });
+        continue;
+      }
+
+      try {
+        const slaveAccount = await this.prisma.tradingAccount.findUnique({
+          where: { id: mapping.slaveAccountId },
+        });
+        const slaveAdapter = await this.adapterRegistry.getOrConnect(slaveAccount);
+        await slaveAdapter.cancelOrder(mapping.slaveOrderId);
+
+        // Partly filled: what filled stays, only the rest of the slave order is cancelled
+        await this.prisma.orderMapping.update({
+          where: { id: mapping.id },
+          data: { status: filled > 0 ? "filled" : "cancelled", masterFilledQuantity: filled },
+        });
+        await this.log(
+          mapping.copierId,
+          mapping.slaveAccountId,
+          "info",
+          filled > 0
+            ? `Rest of a partly filled pending order cancelled on slave account`
+            : `Pending order cancelled on slave account`,
+          { masterOrderId: mapping.masterOrderId, slaveOrderId: mapping.slaveOrderId, masterFilledQuantity: filled }
+        );
+      } catch (error) {
+        await this.prisma.orderMapping.update({
+          where: { id: mapping.id },
+          data: { status: "failed", errorMessage: error.message },
+        });
+        await this.log(
+          mapping.copierId,
+          mapping.slaveAccountId,
+          "error",
+          `Failed to cancel mirrored order on slave: ${error.message}`,
+          { masterOrderId: mapping.masterOrderId, slaveOrderId: mapping.slaveOrderId }
+        );
+      }
+    }
+  }
+
+  /**
+   * Working orders that open or add to a position. Exit orders against an open position
+   * are brackets, handled by the BracketSynchronizer.
+   */
+  private getEntryOrders(positions: Position[], orders: WorkingOrder[]): WorkingOrder[] {
+    return orders.filter((order) => {
+      const position = positions.find((position) => position.symbol === order.symbol && position.quantity > 0);
+      return !position || position.side === order.side;
+    });
+  }
+
+  private getMasterRemaining(mapping: OrderMapping): number {
+    return mapping.masterQuantity - mapping.masterFilledQuantity;
+  }
+
+  private invertSide(side: TradeSide): TradeSide {
+    return side === TradeSide.BUY ? TradeSide.SELL : TradeSide.BUY;
+  }
+
+  private invertType(type: TradeType): TradeType {
+    switch (type) {
+      case TradeType.LIMIT:
+        return TradeType.STOP;
+      case TradeType.STOP:
+        return TradeType.LIMIT;
+      default:
+        return type;
+    }
+  }
+
+  private async log(copierId: string, slaveAccountId: string, level: string, message: string, details: any) {
+    await this.prisma.executionLog.create({
+      data: {
+        copierId,
+        level,
+        message,
+        slaveAccountId,
+        details: { kind: "order_mirror", ...details },
+      },
+    });
+  }
+}
@@ -0,0 +1,167 @@
+import { ReconciliationMode, SignalAggregationMode } from "@prisma/client";
+import { PositionReconciler } from "./position.reconciler";
+import { SymbolMapper } from "./symbol.mapper";
+import { CopyFilter } from "./copy.filter";
+
+describe("PositionReconciler", () => {
+  const masterAccount = { id: "master", accountSize: 50000 };
+  const slaveAccount = { id: "slave", accountSize: 50000 };
+
+  let prisma: any;
+  let masterAdapter: any;
+  let slaveAdapter: any;
+  let masterTrades: any[];
+  let slaveTrades: any[];
+  let tradeMappings: any[];
+  let reconciler: PositionReconciler;
+
+  beforeEach(() => {
+    masterTrades = [];
+    slaveTrades = [];
+    tradeMappings = [];
+
+    prisma = {
+      copier: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: "copier",
+          userId: "user",
+          masterAccount,
+          masters: [],
+          aggregationMode: SignalAggregationMode.NET_POSITION,
+          reconciliationMode: ReconciliationMode.AUTO_CORRECT,
+          tradingSchedule: null,
+          slaveConfigs: [
+            {
+              id: "slave-config",
+              slaveAccountId: slaveAccount.id,
+              slaveAccount,
+              invertDirection: false,
+              includeSymbols: [],
+              excludeSymbols: ["NQ"],
+              directionFilter: "BOTH",
+              minMasterQuantity: null,
+              tradingSchedule: null,
+            },
+          ],
+        }),
+      },
+      symbolMapping: { findMany: jest.fn().mockResolvedValue([]) },
+      trade: {
+        findMany: jest.fn(async ({ where }) => {
+          if (where.id) {
+            return slaveTrades.filter((trade) => where.id.in.includes(trade.id));
+          }
+          return where.accountId === slaveAccount.id ? slaveTrades : masterTrades;
+        }),
+        groupBy: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        create: jest.fn().mockResolvedValue({}),
+      },
+      tradeMapping: {
+        findMany: jest.fn(async () => tradeMappings),
+      },
+      executionLog: { create: jest.fn().mockResolvedValue({}) },
+    };
+
+    masterAdapter = {
+      getAccountInfo: jest.fn().mockResolvedValue({
+        positions: [
+          { symbol: "ESZ6", side: "BUY", quantity: 2 },
+          { symbol: "NQZ6", side: "BUY", quantity: 1 },
+        ],
+      }),
+    };
+    slaveAdapter = {
+      getAccountInfo: jest.fn().mockResolvedValue({ positions: [] }),
+      placeOrder: jest.fn().mockResolvedValue({}),
+      closePosition: jest.fn().mockResolvedValue({}),
+    };
+
+    reconciler = new PositionReconciler(
+      prisma,
+      { getOrConnect: jest.fn((account) => (account.id === "master" ? masterAdapter : slaveAdapter)) } as any,
+      { calculateScaledQuantity: jest.fn(async (quantity: number) => quantity) } as any,
+      new SymbolMapper(prisma),
+      { findBlackout: jest.fn().mockResolvedValue(null) } as any,
+      {
+        combinePositions: jest.fn(
+          (copierId, mode, masters) =>
+            new Map(
+              masters[0].positions.map((position) => [
+                position.symbol,
+                position.side === "BUY" ? position.quantity : -position.quantity,
+              ])
+            )
+        ),
+      } as any,
+      { isEngaged: jest.fn().mockResolvedValue(false) } as any,
+      new CopyFilter(prisma)
+    );
+  });
+
+  it("does not correct a master position in a symbol the slave excludes", async () => {
+    await reconciler.reconcile("copier");
+    const report = await reconciler.reconcile("copier");
+
+    expect(report.drifts.map((drift) => drift.symbol)).toEqual(["ESZ6"]);
+    expect(report.drifts[0].corrected).toBe(true);
+    expect(slaveAdapter.placeOrder).toHaveBeenCalledTimes(1);
+    expect(slaveAdapter.placeOrder).toHaveBeenCalledWith(expect.objectContaining({ symbol: "ESZ6", quantity: 2 }));
+    expect(slaveAdapter.closePosition).not.toHaveBeenCalled();
+  });
+
+  it("never sends orders for a copier in dry run, even when asked to auto-correct", async () => {
+    const copier = await prisma.copier.findUnique();
+    prisma.copier.findUnique.mockResolvedValue({ ...copier, dryRun: true });
+
+    await reconciler.reconcile("copier", ReconciliationMode.AUTO_CORRECT);
+    const report = await reconciler.reconcile("copier", ReconciliationMode.AUTO_CORRECT);
+
+    expect(report.mode).toBe(ReconciliationMode.REPORT_ONLY);
+    expect(report.drifts.map((drift) => drift.symbol)).toEqual(["ESZ6"]);
+    expect(report.drifts[0].corrected).toBe(false);
+    expect(slaveAdapter.placeOrder).not.toHaveBeenCalled();
+    expect(slaveAdapter.closePosition).not.toHaveBeenCalled();
+  });
+
+  it("leaves the position a slave already holds in an excluded symbol untouched", async () => {
+    slaveAdapter.getAccountInfo.mockResolvedValue({
+      positions: [
+        { symbol: "ESZ6", side: "BUY", quantity: 2 },
+        { symbol: "NQZ6", side: "BUY", quantity: 3 },
+      ],
+    });
+
+    await reconciler.reconcile("copier");
+    const report = await reconciler.reconcile("copier");
+
+    expect(report.drifts).toEqual([]);
+    expect(slaveAdapter.placeOrder).not.toHaveBeenCalled();
+    expect(slaveAdapter.closePosition).not.toHaveBeenCalled();
+  });
+
+  it("reports and corrects a master add that was never copied to the slave", async () => {
+    masterAdapter.getAccountInfo.mockResolvedValue({
+      positions: [{ symbol: "ESZ6", side: "BUY", quantity: 3 }],
+    });
+    slaveAdapter.getAccountInfo.mockResolvedValue({
+      positions: [{ symbol: "ESZ6", side: "BUY", quantity: 2 }],
+    });
+    masterTrades = [
+      { id: "open", symbol: "ESZ6", side: "BUY", quantity: 2, createdAt: new Date() },
+      { id: "add", symbol: "ESZ6", side: "BUY", quantity: 1, createdAt: new Date() },
+    ];
+    slaveTrades = [{ id: "slave-open", symbol: "ESZ6", side: "BUY", quantity: 2 }];
+    tradeMappings = [{ masterTradeId: "open", slaveTradeId: "slave-open" }];
+
+    await reconciler.reconcile("copier");
+    const report = await reconciler.reconcile("copier");
+
+    expect(report.drifts).toEqual([
+      expect.objectContaining({ symbol: "ESZ6", expected: 3, actual: 2, corrected: true }),
+    ]);
+    expect(slaveAdapter.placeOrder).toHaveBeenCalledWith(
+      expect.objectContaining({ symbol: "ESZ6", side: "BUY", quantity: 1 })
+    );
+  });
+});
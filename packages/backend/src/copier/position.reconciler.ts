@@ -0,0 +1,496 @@
+import { Injectable, Logger, OnModuleDestroy } from "@nestjs/common";
+import { ReconciliationMode, SymbolMapping, Trade, TradeSide, TradeStatus, TradeType } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { AdapterRegistry } from "../accounts/adapters/adapter.registry";
+import { ITradingAdapter, Position } from "../accounts/adapters/trading-adapter.interface";
+import { RiskScalingService } from "./risk-scaling.service";
+import { SymbolMapper } from "./symbol.mapper";
+import { checkSchedules, TradingSchedule } from "../common/sessions/trading-schedule";
+import { NewsService } from "../news/news.service";
+import { MasterSource, SignalAggregator } from "./signal.aggregator";
+import { KillSwitchService } from "../accounts/kill-switch.service";
+import { CopyFilter } from "./copy.filter";
+
+export interface PositionDrift {
+  slaveAccountId: string;
+  symbol: string;
+  expected: number; // Signed: positive = long, negative = short
+  actual: number;
+  drift: number;
+  corrected: boolean;
+  correctionError?: string;
+}
+
+export interface ReconciliationReport {
+  copierId: string;
+  mode: ReconciliationMode;
+  checkedAt: Date;
+  masterPositions: Record<string, number>;
+  slavesChecked: number;
+  drifts: PositionDrift[];
+  errors: Array<{ slaveAccountId: string; error: string }>;
+}
+
+/**
+ * Position Reconciler
+ * Periodically compares the master's open positions with every active slave and reports
+ * (or corrects) drift caused by missed fills, manual slave trades or partial fills.
+ * Master positions a slave's copy filters keep out are not reconciled on that slave.
+ */
+@Injectable()
+export class PositionReconciler implements OnModuleDestroy {
+  private readonly logger = new Logger(PositionReconciler.name);
+  private schedules: Map<string, NodeJS.Timeout> = new Map();
+  // Drifts seen on the previous run; auto-correct only acts on drifts seen twice in a row,
+  // so copies that are still in flight are not "corrected" twice
+  private lastDrifts: Map<string, Set<string>> = new Map();
+
+  constructor(
+    private prisma: PrismaService,
+    private adapterRegistry: AdapterRegistry,
+    private riskScaling: RiskScalingService,
+    private symbolMapper: SymbolMapper,
+    private news: NewsService,
+    private aggregator: SignalAggregator,
+    private killSwitch: KillSwitchService,
+    private copyFilter: CopyFilter
+  ) {}
+
+  /**
+   * Start periodic reconciliation for a copier
+   */
+  schedule(copierId: string, mode: ReconciliationMode, intervalMs: number): void {
+    this.unschedule(copierId);
+
+    if (mode === ReconciliationMode.DISABLED) {
+      return;
+    }
+
+    const interval = setInterval(async () => {
+      try {
+        await this.reconcile(copierId);
+      } catch (error) {
+        this.logger.error(`Scheduled reconciliation failed for copier ${copierId}:`, error);
+      }
+    }, intervalMs);
+
+    this.schedules.set(copierId, interval);
+  }
+
+  /**
+   * Stop periodic reconciliation for a copier
+   */
+  unschedule(copierId: string): void {
+    const interval = this.schedules.get(copierId);
+    if (interval) {
+      clearInterval(interval);
+      this.schedules.delete(copierId);
+    }
+    this.lastDrifts.delete(copierId);
+  }
+
+  /**
+   * Compare master and slave positions once and store the result as an ExecutionLog entry
+   */
+  async reconcile(copierId: string, modeOverride?: ReconciliationMode): Promise<ReconciliationReport> {
+    const copier = await this.prisma.copier.findUnique({
+      where: { id: copierId },
+      include: {
+        masterAccount: true,
+        masters: {
+          where: { isActive: true },
+          include: {
+            account: true,
+          },
+        },
+        slaveConfigs: {
+          where: { isActive: true },
+          include: {
+            slaveAccount: true,
+          },
+        },
+      },
+    });
+
+    if (!copier) {
+      throw new Error(`Copier ${copierId} not found`);
+    }
+
+    // A dry run never sends orders to its slaves, so drift is only reported
+    const mode = copier.dryRun ? ReconciliationMode.REPORT_ONLY : modeOverride || copier.reconciliationMode;
+    const startedAt = new Date();
+
+    // Combined position of all masters, as the copier follows it
+    const masters =
+      copier.masters.length > 0 ? copier.masters : [{ account: copier.masterAccount, weight: 1 }];
+    const masterSources: Array<MasterSource & { positions: Position[] }> = [];
+    for (const master of masters) {
+      const masterAdapter = await this.adapterRegistry.getOrConnect(master.account);
+      const masterInfo = await masterAdapter.getAccountInfo();
+      masterSources.push({ accountId: master.account.id, weight: master.weight, positions: masterInfo.positions });
+    }
+    const masterPositions = this.aggregator.combinePositions(copierId, copier.aggregationMode, masterSources);
+    const masterEntries = await this.getMasterEntries(
+      copierId,
+      masters.map((master) => master.account.id),
+      masterPositions
+    );
+
+    const report: ReconciliationReport = {
+      copierId,
+      mode,
+      checkedAt: new Date(),
+      masterPositions: Object.fromEntries(masterPositions),
+      slavesChecked: 0,
+      drifts: [],
+      errors: [],
+    };
+
+    const symbolMappings = await this.symbolMapper.getMappings(copierId);
+    const newsEvent = await this.news.findBlackout(copier);
+    // Drift is still reported while the kill switch is engaged, but not corrected
+    const killSwitchEngaged = await this.killSwitch.isEngaged(copier.userId);
+    const previousDrifts = this.lastDrifts.get(copierId) || new Set<string>();
+    const currentDrifts = new Set<string>();
+
+    for (const slaveConfig of copier.slaveConfigs) {
+      try {
+        const slaveAdapter = await this.adapterRegistry.getOrConnect(slaveConfig.slaveAccount);
+        const slaveInfo = await slaveAdapter.getAccountInfo();
+        const slavePositions = this.toSignedPositions(slaveInfo.positions);
+        report.slavesChecked++;
+
+        // Master positions scaled for the slave, in the instruments it trades (opposite side when inverted).
+        // Only the side, and the size of positions the copier has not copied yet, are taken from them.
+        const direction = slaveConfig.invertDirection ? -1 : 1;
+        const scaledPositions = new Map<string, number>();
+        // Instruments of master positions the slave's copy filters keep out: their slave position is left as is
+        const filteredSymbols = new Set<string>();
+        for (const [symbol, masterPosition] of masterPositions) {
+          const route = this.symbolMapper.route(symbolMappings, slaveConfig, symbol);
+          const filter = this.copyFilter.checkStatic(slaveConfig, {
+            masterSymbol: symbol,
+            symbol: route.symbol,
+            side: direction * masterPosition > 0 ? TradeSide.BUY : TradeSide.SELL,
+            masterQuantity: Math.abs(masterPosition),
+            opensPosition: true,
+          });
+          if (!filter.allowed) {
+            filteredSymbols.add(route.symbol);
+            continue;
+          }
+
+          const quantity =
+            direction *
+            Math.sign(masterPosition) *
+            (await this.riskScaling.calculateScaledQuantity(
+              Math.abs(masterPosition),
+              slaveConfig,
+              slaveConfig.slaveAccount,
+              copier.masterAccount,
+              route.multiplier
+            ));
+          scaledPositions.set(route.symbol, (scaledPositions.get(route.symbol) || 0) + quantity);
+        }
+
+        // Positions as the engine copied them (e.g. FIXED contracts per master order, not per master position),
+        // plus the master entries and fills that never reached the slave (missed adds, partial fills)
+        const copiedPositions = await this.getCopiedPositions(copierId, slaveConfig.slaveAccountId);
+        const uncopiedPositions = await this.getUncopiedPositions(copier, slaveConfig, masterEntries, symbolMappings);
+        const expectedPositions = new Map<string, number>();
+        for (const [symbol, scaled] of scaledPositions) {
+          const copied = (copiedPositions.get(symbol) || 0) + (uncopiedPositions.get(symbol) || 0);
+          expectedPositions.set(symbol, this.toExpectedPosition(scaled, copied));
+        }
+
+        // Copied trades left open on a symbol the master and the slave are both flat in (e.g. the slave
+        // was flattened before the master closed) would otherwise count towards the next position
+        for (const [symbol, copied] of copiedPositions) {
+          if (copied !== 0 && !expectedPositions.get(symbol) && !slavePositions.get(symbol)) {
+            await this.closeCopiedTrades(copierId, slaveConfig.slaveAccountId, symbol, startedAt);
+          }
+        }
+
+        const symbols = new Set([...expectedPositions.keys(), ...slavePositions.keys()]);
+        const entriesAllowed =
+          !newsEvent &&
+          checkSchedules([
+            copier.tradingSchedule as unknown as TradingSchedule,
+            slaveConfig.tradingSchedule as unknown as TradingSchedule,
+          ]).allowed;
+
+        for (const symbol of symbols) {
+          if (filteredSymbols.has(symbol)) {
+            continue;
+          }
+
+          const actual = slavePositions.get(symbol) || 0;
+          // Outside its trading windows or during news a slave position may shrink, never open or grow
+          const expected = entriesAllowed
+            ? expectedPositions.get(symbol) || 0
+            : this.withoutEntries(expectedPositions.get(symbol) || 0, actual);
+
+          if (expected === actual) {
+            continue;
+          }
+
+          const drift: PositionDrift = {
+            slaveAccountId: slaveConfig.slaveAccountId,
+            symbol,
+            expected,
+            actual,
+            drift: actual - expected,
+            corrected: false,
+          };
+
+          const driftKey = `${slaveConfig.slaveAccountId}:${symbol}:${expected}:${actual}`;
+          currentDrifts.add(driftKey);
+
+          if (mode === ReconciliationMode.AUTO_CORRECT && !killSwitchEngaged && previousDrifts.has(driftKey)) {
+            try {
+              await this.correctDrift(slaveAdapter, symbol, expected, actual);
+              await this.recordCorrection(copierId, slaveConfig.slaveAccountId, symbol, expected);
+              drift.corrected = true;
+              currentDrifts.delete(driftKey);
+            } catch (error) {
+              drift.correctionError = error.message;
+            }
+          }
+
+          report.drifts.push(drift);
+        }
+      } catch (error) {
+        this.logger.error(`Reconciliation failed for slave ${slaveConfig.slaveAccountId}:`, error);
+        report.errors.push({ slaveAccountId: slaveConfig.slaveAccountId, error: error.message });
+      }
+    }
+
+    this.lastDrifts.set(copierId, currentDrifts);
+
+    await this.prisma.executionLog.create({
+      data: {
+        copierId,
+        level: report.drifts.length > 0 || report.errors.length > 0 ? "warning" : "info",
+        message: `Reconciliation (${mode}): ${report.drifts.length} drift(s) across ${report.slavesChecked} slave(s)`,
+        details: { kind: "reconciliation", ...report } as any,
+      },
+    });
+
+    return report;
+  }
+
+  /**
+   * Get the stored reconciliation results of a copier, newest first
+   */
+  async getHistory(copierId: string, limit = 20) {
+    return this.prisma.executionLog.findMany({
+      where: {
+        copierId,
+        details: { path: ["kind"], equals: "reconciliation" },
+      },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+  }
+
+  onModuleDestroy() {
+    for (const copierId of Array.from(this.schedules.keys())) {
+      this.unschedule(copierId);
+    }
+  }
+
+  /**
+   * Bring a slave position to the expected size with market orders
+   */
+  private async correctDrift(
+    slaveAdapter: ITradingAdapter,
+    symbol: string,
+    expected: number,
+    actual: number
+  ): Promise<void> {
+    const flipsSide = actual !== 0 && Math.sign(expected) !== Math.sign(actual);
+
+    if (expected === 0 || flipsSide) {
+      await slaveAdapter.closePosition(symbol, actual > 0 ? TradeSide.SELL : TradeSide.BUY);
+      actual = 0;
+    }
+
+    const difference = expected - actual;
+    if (difference === 0) {
+      return;
+    }
+
+    await slaveAdapter.placeOrder({
+      symbol,
+      side: difference > 0 ? TradeSide.BUY : TradeSide.SELL,
+      type: TradeType.MARKET,
+      quantity: Math.abs(difference),
+    });
+  }
+
+  /**
+   * Net position of the slave trades a copier placed and has not closed yet (opening, adding and
+   * reducing legs since the last close), per symbol
+   */
+  private async getCopiedPositions(copierId: string, slaveAccountId: string): Promise<Map<string, number>> {
+    const trades = await this.prisma.trade.findMany({
+      where: {
+        copierId,
+        accountId: slaveAccountId,
+        closedAt: null,
+        status: { notIn: [TradeStatus.CANCELLED, TradeStatus.REJECTED] },
+      },
+      select: { symbol: true, side: true, quantity: true },
+    });
+
+    return this.toSignedPositions(trades);
+  }
+
+  /**
+   * Master orders that opened or added to the masters' current positions (open trades on the
+   * position's side, recorded after the symbol's last close)
+   */
+  private async getMasterEntries(
+    copierId: string,
+    masterAccountIds: string[],
+    masterPositions: Map<string, number>
+  ): Promise<Trade[]> {
+    const lastCloses = await this.prisma.trade.groupBy({
+      by: ["symbol"],
+      where: { copierId, accountId: { in: masterAccountIds }, closedAt: { not: null } },
+      _max: { closedAt: true },
+    });
+    const trades = await this.prisma.trade.findMany({
+      where: {
+        copierId,
+        accountId: { in: masterAccountIds },
+        closedAt: null,
+        status: { notIn: [TradeStatus.CANCELLED, TradeStatus.REJECTED] },
+      },
+    });
+
+    return trades.filter((trade) => {
+      const position = masterPositions.get(trade.symbol) || 0;
+      const lastClose = lastCloses.find((close) => close.symbol === trade.symbol)?._max.closedAt;
+      return (
+        position !== 0 &&
+        Math.sign(position) === (trade.side === TradeSide.BUY ? 1 : -1) &&
+        (!lastClose || trade.createdAt > lastClose)
+      );
+    });
+  }
+
+  /**
+   * Part of the master entries a slave was not copied, per slave symbol: each master order is
+   * scaled as the engine scales it and the slave trade mapped to it (if any) subtracted
+   */
+  private async getUncopiedPositions(
+    copier: any,
+    slaveConfig: any,
+    masterEntries: Trade[],
+    symbolMappings: SymbolMapping[]
+  ): Promise<Map<string, number>> {
+    const uncopied = new Map<string, number>();
+    if (masterEntries.length === 0) {
+      return uncopied;
+    }
+
+    const mappings = await this.prisma.tradeMapping.findMany({
+      where: {
+        copierId: copier.id,
+        slaveAccountId: slaveConfig.slaveAccountId,
+        masterTradeId: { in: masterEntries.map((trade) => trade.id) },
+      },
+    });
+    const slaveTrades = await this.prisma.trade.findMany({
+      where: { id: { in: mappings.map((mapping) => mapping.slaveTradeId) } },
+      select: { id: true, quantity: true },
+    });
+
+    const direction = slaveConfig.invertDirection ? -1 : 1;
+    for (const masterTrade of masterEntries) {
+      const route = this.symbolMapper.route(symbolMappings, slaveConfig, masterTrade.symbol);
+      const mapping = mappings.find((mapping) => mapping.masterTradeId === masterTrade.id);
+      const copied = slaveTrades.find((trade) => trade.id === mapping?.slaveTradeId)?.quantity || 0;
+      const scaled = await this.riskScaling.calculateScaledQuantity(
+        masterTrade.quantity,
+        slaveConfig,
+        slaveConfig.slaveAccount,
+        copier.masterAccount,
+        route.multiplier
+      );
+
+      const missing = scaled - copied;
+      if (missing > 0) {
+        const side = masterTrade.side === TradeSide.BUY ? 1 : -1;
+        uncopied.set(route.symbol, (uncopied.get(route.symbol) || 0) + direction * side * missing);
+      }
+    }
+
+    return uncopied;
+  }
+
+  /**
+   * Expected slave position from the scaled master position and what the copier copied of it.
+   * While nothing is copied on the master's side (e.g. a missed entry) the scaled master position
+   * stands in, sized like a single opening order.
+   */
+  private toExpectedPosition(scaled: number, copied: number): number {
+    if (scaled === 0) {
+      return 0;
+    }
+    return copied !== 0 && Math.sign(copied) === Math.sign(scaled) ? copied : scaled;
+  }
+
+  /**
+   * Replace the copied trades of a corrected symbol by one trade of the corrected position
+   */
+  private async recordCorrection(
+    copierId: string,
+    slaveAccountId: string,
+    symbol: string,
+    expected: number
+  ): Promise<void> {
+    const now = new Date();
+    await this.closeCopiedTrades(copierId, slaveAccountId, symbol, now);
+
+    if (expected !== 0) {
+      await this.prisma.trade.create({
+        data: {
+          copierId,
+          accountId: slaveAccountId,
+          symbol,
+          side: expected > 0 ? TradeSide.BUY : TradeSide.SELL,
+          type: TradeType.MARKET,
+          quantity: Math.abs(expected),
+          status: TradeStatus.FILLED,
+          openedAt: now,
+          filledAt: now,
+        },
+      });
+    }
+  }
+
+  private async closeCopiedTrades(copierId: string, slaveAccountId: string, symbol: string, before: Date) {
+    await this.prisma.trade.updateMany({
+      where: { copierId, accountId: slaveAccountId, symbol, closedAt: null, createdAt: { lt: before } },
+      data: { closedAt: new Date() },
+    });
+  }
+
+  private withoutEntries(expected: number, actual: number): number {
+    if (Math.sign(expected) !== Math.sign(actual)) {
+      return 0;
+    }
+    return Math.sign(actual) * Math.min(Math.abs(expected), Math.abs(actual));
+  }
+
+  private toSignedPositions(positions: Array<Pick<Position, "symbol" | "side" | "quantity">>): Map<string, number> {
+    const signed = new Map<string, number>();
+    for (const position of positions) {
+      const quantity = position.side === TradeSide.BUY ? position.quantity : -position.quantity;
+      signed.set(position.symbol, (signed.get(position.symbol) || 0) + quantity);
+    }
+    return signed;
+  }
+}
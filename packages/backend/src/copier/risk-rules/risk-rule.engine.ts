@@ -0,0 +1,188 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { TradeSide, TradingAccount } from "@prisma/client";
+import { PrismaService } from "../../prisma/prisma.service";
+import { ITradingAdapter } from "../../accounts/adapters/trading-adapter.interface";
+import {
+  IRiskRuleEvaluator,
+  RiskRuleAction,
+  RiskRuleContext,
+  RiskRuleDefinition,
+  RiskRuleType,
+} from "./risk-rule.interface";
+import {
+  AllowedSymbolsEvaluator,
+  DailyLossEvaluator,
+  MaxContractsEvaluator,
+  MaxOpenPositionsEvaluator,
+  MaxTradesPerDayEvaluator,
+  TrailingDrawdownEvaluator,
+  ConsistencyEvaluator,
+} from "./risk-rule.evaluators";
+
+export interface RiskCheckOrder {
+  symbol: string;
+  side: TradeSide;
+  quantity: number;
+}
+
+/**
+ * Risk Rule Engine
+ * Evaluates the active RiskRule rows of a slave config before each copied entry
+ * and applies the action of every rule that is broken.
+ */
+@Injectable()
+export class RiskRuleEngine {
+  private readonly logger = new Logger(RiskRuleEngine.name);
+  private evaluators: Map<string, IRiskRuleEvaluator> = new Map();
+
+  constructor(private prisma: PrismaService) {
+    this.registerEvaluators();
+  }
+
+  /**
+   * Register all built-in evaluators
+   */
+  private registerEvaluators() {
+    this.registerEvaluator(new DailyLossEvaluator(this.prisma));
+    this.registerEvaluator(new TrailingDrawdownEvaluator());
+    this.registerEvaluator(new MaxContractsEvaluator());
+    this.registerEvaluator(new MaxOpenPositionsEvaluator());
+    this.registerEvaluator(new MaxTradesPerDayEvaluator(this.prisma));
+    this.registerEvaluator(new AllowedSymbolsEvaluator());
+    this.registerEvaluator(new ConsistencyEvaluator(this.prisma));
+  }
+
+  /**
+   * Register an evaluator (replaces any evaluator of the same rule type)
+   */
+  registerEvaluator(evaluator: IRiskRuleEvaluator) {
+    this.evaluators.set(evaluator.type, evaluator);
+  }
+
+  /**
+   * Check an order against the slave's rules.
+   * Returns allowed: false when a block/disable rule is broken.
+   * With blockOnly, broken rules only block the order: the slave is neither flattened nor
+   * disabled (dry runs, and manual orders that are not copies of the slave config).
+   */
+  async check(
+    copierId: string,
+    slaveConfig: any,
+    slaveAccount: TradingAccount,
+    slaveAdapter: ITradingAdapter,
+    order: RiskCheckOrder,
+    blockOnly = false
+  ): Promise<{ allowed: boolean; reason?: string }> {
+    const rules = await this.getRules(slaveConfig);
+    if (rules.length === 0) {
+      return { allowed: true };
+    }
+
+    const context: RiskRuleContext = {
+      copierId,
+      slaveConfig,
+      // Re-read for the drawdown state the tracker keeps on the account
+      slaveAccount: (await this.prisma.tradingAccount.findUnique({ where: { id: slaveAccount.id } })) ?? slaveAccount,
+      accountInfo: await slaveAdapter.getAccountInfo(),
+      ...order,
+    };
+
+    for (const rule of rules) {
+      const evaluator = this.evaluators.get(rule.ruleType);
+      if (!evaluator) {
+        this.logger.warn(`No evaluator for risk rule type ${rule.ruleType} (rule ${rule.id})`);
+        continue;
+      }
+
+      const result = await evaluator.evaluate(rule, context);
+      if (!result.violated) {
+        continue;
+      }
+
+      await this.prisma.executionLog.create({
+        data: {
+          copierId,
+          level: rule.action === RiskRuleAction.NOTIFY ? "warning" : "error",
+          message: `Risk rule ${rule.ruleType} broken (${rule.action}): ${result.reason}`,
+          slaveAccountId: slaveAccount.id,
+          details: {
+            kind: "risk_rule",
+            ruleId: rule.id,
+            ruleType: rule.ruleType,
+            threshold: rule.threshold,
+            action: rule.action,
+            reason: result.reason,
+            symbol: order.symbol,
+            quantity: order.quantity,
+            blockOnly,
+          },
+        },
+      });
+
+      if (rule.action === RiskRuleAction.NOTIFY) {
+        continue;
+      }
+
+      if (blockOnly) {
+        return { allowed: false, reason: result.reason };
+      }
+
+      if (rule.action === RiskRuleAction.FLATTEN_AND_DISABLE) {
+        await this.flatten(slaveAdapter, context);
+      }
+
+      if (
+        rule.action === RiskRuleAction.DISABLE_SLAVE ||
+        rule.action === RiskRuleAction.FLATTEN_AND_DISABLE
+      ) {
+        await this.prisma.copierAccountConfig.update({
+          where: { id: slaveConfig.id },
+          data: {
+            isActive: false,
+            disabledReason: `Risk rule ${rule.ruleType}: ${result.reason}`,
+          },
+        });
+      }
+
+      return { allowed: false, reason: result.reason };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Active rules of a slave config, plus the legacy dailyLossLimit field as a daily_loss rule
+   */
+  private async getRules(slaveConfig: any): Promise<RiskRuleDefinition[]> {
+    const rules: RiskRuleDefinition[] = await this.prisma.riskRule.findMany({
+      where: { copierConfigId: slaveConfig.id, isActive: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    if (slaveConfig.dailyLossLimit) {
+      rules.unshift({
+        id: `${slaveConfig.id}:dailyLossLimit`,
+        ruleType: RiskRuleType.DAILY_LOSS,
+        threshold: slaveConfig.dailyLossLimit,
+        action: slaveConfig.autoDisable ? RiskRuleAction.DISABLE_SLAVE : RiskRuleAction.BLOCK,
+        params: null,
+      });
+    }
+
+    return rules;
+  }
+
+  private async flatten(slaveAdapter: ITradingAdapter, context: RiskRuleContext): Promise<void> {
+    for (const position of context.accountInfo.positions.filter((position) => position.quantity > 0)) {
+      try {
+        const closingSide = position.side === TradeSide.BUY ? TradeSide.SELL : TradeSide.BUY;
+        await slaveAdapter.closePosition(position.symbol, closingSide);
+      } catch (error) {
+        this.logger.error(
+          `Failed to flatten ${position.symbol} on slave ${context.slaveAccount.id}:`,
+          error
+        );
+      }
+    }
+  }
+}
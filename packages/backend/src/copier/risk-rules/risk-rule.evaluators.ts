@@ -0,0 +1,215 @@
+import { DrawdownMode } from "@prisma/client";
+import { PrismaService } from "../../prisma/prisma.service";
+import { getRootSymbol } from "../../common/contracts/contract-specs";
+import {
+  IRiskRuleEvaluator,
+  RiskRuleContext,
+  RiskRuleDefinition,
+  RiskRuleResult,
+  RiskRuleType,
+} from "./risk-rule.interface";
+
+function startOfToday(): Date {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+/**
+ * Realized plus unrealized loss of the current day, in USD
+ */
+export class DailyLossEvaluator implements IRiskRuleEvaluator {
+  readonly type = RiskRuleType.DAILY_LOSS;
+
+  constructor(private prisma: PrismaService) {}
+
+  async evaluate(rule: RiskRuleDefinition, context: RiskRuleContext): Promise<RiskRuleResult> {
+    const todayTrades = await this.prisma.trade.findMany({
+      where: {
+        accountId: context.slaveAccount.id,
+        createdAt: { gte: startOfToday() },
+        status: { in: ["FILLED"] },
+      },
+      select: { realizedPnL: true },
+    });
+
+    const realized = todayTrades.reduce((sum, trade) => sum + (trade.realizedPnL || 0), 0);
+    const unrealized = context.accountInfo.positions.reduce(
+      (sum, position) => sum + (position.unrealizedPnL || 0),
+      0
+    );
+    const dailyLoss = -(realized + unrealized);
+
+    if (dailyLoss >= rule.threshold) {
+      return { violated: true, reason: `Daily loss limit exceeded: ${dailyLoss.toFixed(2)}` };
+    }
+
+    return { violated: false };
+  }
+}
+
+/**
+ * Distance of the equity from its high-water mark, in USD.
+ * The high-water mark is the one followed by the drawdown tracker on the account.
+ */
+export class TrailingDrawdownEvaluator implements IRiskRuleEvaluator {
+  readonly type = RiskRuleType.TRAILING_DRAWDOWN;
+
+  async evaluate(rule: RiskRuleDefinition, context: RiskRuleContext): Promise<RiskRuleResult> {
+    const equity = context.accountInfo.equity || context.accountInfo.balance;
+    let highWaterMark = context.slaveAccount.highWaterMark ?? context.slaveAccount.accountSize;
+
+    // Intraday trailing follows the live equity between tracker polls; end-of-day only moves at a session close
+    if (context.slaveAccount.drawdownMode === DrawdownMode.INTRADAY_TRAILING) {
+      highWaterMark = Math.max(highWaterMark, equity);
+    }
+
+    const drawdown = highWaterMark - equity;
+    if (drawdown >= rule.threshold) {
+      return {
+        violated: true,
+        reason: `Trailing drawdown of ${drawdown.toFixed(2)} from ${highWaterMark.toFixed(2)}`,
+      };
+    }
+
+    return { violated: false };
+  }
+}
+
+/**
+ * Size of the position in the copied symbol after the order
+ */
+export class MaxContractsEvaluator implements IRiskRuleEvaluator {
+  readonly type = RiskRuleType.MAX_CONTRACTS;
+
+  async evaluate(rule: RiskRuleDefinition, context: RiskRuleContext): Promise<RiskRuleResult> {
+    const current = context.accountInfo.positions
+      .filter((position) => position.symbol === context.symbol && position.side === context.side)
+      .reduce((sum, position) => sum + position.quantity, 0);
+
+    if (current + context.quantity > rule.threshold) {
+      return {
+        violated: true,
+        reason: `${context.symbol} position would be ${current + context.quantity} contracts (max ${rule.threshold})`,
+      };
+    }
+
+    return { violated: false };
+  }
+}
+
+/**
+ * Number of symbols with an open position after the order
+ */
+export class MaxOpenPositionsEvaluator implements IRiskRuleEvaluator {
+  readonly type = RiskRuleType.MAX_OPEN_POSITIONS;
+
+  async evaluate(rule: RiskRuleDefinition, context: RiskRuleContext): Promise<RiskRuleResult> {
+    const openSymbols = new Set(
+      context.accountInfo.positions
+        .filter((position) => position.quantity > 0)
+        .map((position) => position.symbol)
+    );
+    openSymbols.add(context.symbol);
+
+    if (openSymbols.size > rule.threshold) {
+      return {
+        violated: true,
+        reason: `${openSymbols.size} open positions (max ${rule.threshold})`,
+      };
+    }
+
+    return { violated: false };
+  }
+}
+
+/**
+ * Number of trades placed on the account today
+ */
+export class MaxTradesPerDayEvaluator implements IRiskRuleEvaluator {
+  readonly type = RiskRuleType.MAX_TRADES_PER_DAY;
+
+  constructor(private prisma: PrismaService) {}
+
+  async evaluate(rule: RiskRuleDefinition, context: RiskRuleContext): Promise<RiskRuleResult> {
+    const tradesToday = await this.prisma.trade.count({
+      where: {
+        accountId: context.slaveAccount.id,
+        createdAt: { gte: startOfToday() },
+      },
+    });
+
+    if (tradesToday >= rule.threshold) {
+      return { violated: true, reason: `${tradesToday} trades today (max ${rule.threshold})` };
+    }
+
+    return { violated: false };
+  }
+}
+
+/**
+ * Share of the account's total profit made today, in percent (prop-firm consistency rules)
+ */
+export class ConsistencyEvaluator implements IRiskRuleEvaluator {
+  readonly type = RiskRuleType.CONSISTENCY;
+
+  constructor(private prisma: PrismaService) {}
+
+  async evaluate(rule: RiskRuleDefinition, context: RiskRuleContext): Promise<RiskRuleResult> {
+    const trades = await this.prisma.trade.findMany({
+      where: {
+        accountId: context.slaveAccount.id,
+        status: { in: ["FILLED"] },
+      },
+      select: { realizedPnL: true, createdAt: true },
+    });
+
+    const today = startOfToday();
+    const unrealized = context.accountInfo.positions.reduce(
+      (sum, position) => sum + (position.unrealizedPnL || 0),
+      0
+    );
+    const todayProfit =
+      trades
+        .filter((trade) => trade.createdAt >= today)
+        .reduce((sum, trade) => sum + (trade.realizedPnL || 0), 0) + unrealized;
+    const totalProfit = trades.reduce((sum, trade) => sum + (trade.realizedPnL || 0), 0) + unrealized;
+
+    if (todayProfit <= 0 || totalProfit <= 0) {
+      return { violated: false };
+    }
+
+    const share = (todayProfit / totalProfit) * 100;
+    if (share >= rule.threshold) {
+      return {
+        violated: true,
+        reason: `Today's profit is ${share.toFixed(0)}% of the total profit (max ${rule.threshold}%)`,
+      };
+    }
+
+    return { violated: false };
+  }
+}
+
+/**
+ * Only the symbols listed in params.symbols may be copied.
+ * A root symbol (e.g. "ES") allows all of its contract months ("ESZ5", "ESH6", ...) but not other
+ * roots that share its prefix ("ES" does not allow "ESTX").
+ */
+export class AllowedSymbolsEvaluator implements IRiskRuleEvaluator {
+  readonly type = RiskRuleType.ALLOWED_SYMBOLS;
+
+  async evaluate(rule: RiskRuleDefinition, context: RiskRuleContext): Promise<RiskRuleResult> {
+    const symbols: string[] = ((rule.params as any)?.symbols || []).map((symbol: string) =>
+      symbol.toUpperCase()
+    );
+    const symbol = context.symbol.toUpperCase();
+    const root = getRootSymbol(symbol);
+
+    if (!symbols.some((allowed) => symbol === allowed || root === allowed)) {
+      return { violated: true, reason: `${context.symbol} is not an allowed symbol` };
+    }
+
+    return { violated: false };
+  }
+}
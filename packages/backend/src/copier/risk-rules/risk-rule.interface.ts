@@ -0,0 +1,52 @@
+import { RiskRule, TradeSide, TradingAccount } from "@prisma/client";
+import { AccountInfo } from "../../accounts/adapters/trading-adapter.interface";
+
+export enum RiskRuleType {
+  DAILY_LOSS = "daily_loss",
+  TRAILING_DRAWDOWN = "trailing_drawdown",
+  MAX_CONTRACTS = "max_contracts",
+  MAX_OPEN_POSITIONS = "max_open_positions",
+  MAX_TRADES_PER_DAY = "max_trades_per_day",
+  ALLOWED_SYMBOLS = "allowed_symbols",
+  CONSISTENCY = "consistency",
+}
+
+export enum RiskRuleAction {
+  BLOCK = "block", // Skip this copy only
+  NOTIFY = "notify", // Log a warning and copy anyway
+  DISABLE_SLAVE = "disable_slave",
+  FLATTEN_AND_DISABLE = "flatten_and_disable",
+}
+
+/**
+ * The fields of a RiskRule an evaluator needs (rules built from legacy config fields are not persisted)
+ */
+export type RiskRuleDefinition = Pick<RiskRule, "id" | "ruleType" | "threshold" | "action" | "params">;
+
+export interface RiskRuleContext {
+  copierId: string;
+  slaveConfig: any;
+  slaveAccount: TradingAccount;
+  accountInfo: AccountInfo; // Live slave account info
+  symbol: string;
+  side: TradeSide;
+  quantity: number; // Scaled quantity about to be sent
+}
+
+export interface RiskRuleResult {
+  violated: boolean;
+  reason?: string;
+}
+
+/**
+ * Risk Rule Evaluator Interface
+ * Each RiskRule.ruleType is handled by exactly one evaluator
+ */
+export interface IRiskRuleEvaluator {
+  readonly type: string;
+
+  /**
+   * Check whether copying the order in the context would break the rule
+   */
+  evaluate(rule: RiskRuleDefinition, context: RiskRuleContext): Promise<RiskRuleResult>;
+}
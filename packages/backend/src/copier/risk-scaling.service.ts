@@ -0,0 +1,133 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { RiskScalingType, ScalingRounding, TradingAccount } from "@prisma/client";
+import { AdapterRegistry } from "../accounts/adapters/adapter.registry";
+import { AccountInfo } from "../accounts/adapters/trading-adapter.interface";
+
+/**
+ * Risk Scaling Service
+ * Converts a master quantity into the quantity a slave account should trade
+ */
+@Injectable()
+export class RiskScalingService {
+  private readonly logger = new Logger(RiskScalingService.name);
+  private accountInfoCache: Map<string, { info: AccountInfo; fetchedAt: number }> = new Map();
+  private readonly accountInfoTtlMs = parseInt(process.env.ACCOUNT_INFO_CACHE_TTL_MS || "30000");
+
+  constructor(private adapterRegistry: AdapterRegistry) {}
+
+  /**
+   * Calculate scaled quantity based on risk rules.
+   * The multiplier converts master contracts into slave contracts (e.g. 10 for ES -> MES).
+   * The slave's maxContracts is always enforced as a hard cap.
+   */
+  async calculateScaledQuantity(
+    masterQuantity: number,
+    slaveConfig: any,
+    slaveAccount: TradingAccount,
+    masterAccount: TradingAccount,
+    multiplier = 1
+  ): Promise<number> {
+    const baseQuantity = masterQuantity * multiplier;
+    let quantity: number;
+
+    switch (slaveConfig.scalingType) {
+      case RiskScalingType.FIXED:
+        quantity = slaveConfig.fixedContracts || this.round(baseQuantity, slaveConfig);
+        break;
+
+      case RiskScalingType.PERCENTAGE:
+        const percentage = slaveConfig.percentageScale || 1.0;
+        quantity = this.round(baseQuantity * percentage, slaveConfig);
+        break;
+
+      case RiskScalingType.BALANCE_BASED:
+        // Scale by the live equity (or balance) of both accounts
+        const masterBalance = await this.getLiveBalance(masterAccount);
+        const slaveBalance = await this.getLiveBalance(slaveAccount);
+
+        if (masterBalance <= 0) {
+          this.logger.warn(`Master account ${masterAccount.id} has no balance, cannot scale by balance`);
+          return 0;
+        }
+
+        quantity = this.round(baseQuantity * (slaveBalance / masterBalance), slaveConfig);
+        break;
+
+      case RiskScalingType.ACCOUNT_SIZE_RATIO:
+        if (!masterAccount.accountSize) {
+          this.logger.warn(`Master account ${masterAccount.id} has no account size, cannot scale by size`);
+          return 0;
+        }
+
+        quantity = this.round(
+          baseQuantity * (slaveAccount.accountSize / masterAccount.accountSize),
+          slaveConfig
+        );
+        break;
+
+      default:
+        quantity = this.round(baseQuantity, slaveConfig);
+    }
+
+    if (slaveConfig.maxContracts) {
+      quantity = Math.min(quantity, slaveConfig.maxContracts);
+    }
+
+    return Math.max(0, quantity);
+  }
+
+  /**
+   * Drop the cached account info of an account
+   */
+  invalidate(accountId: string): void {
+    this.accountInfoCache.delete(accountId);
+  }
+
+  private round(value: number, slaveConfig: any): number {
+    let rounded: number;
+
+    switch (slaveConfig.roundingMode) {
+      case ScalingRounding.CEIL:
+        rounded = Math.ceil(value);
+        break;
+      case ScalingRounding.ROUND:
+        rounded = Math.round(value);
+        break;
+      default:
+        rounded = Math.floor(value);
+    }
+
+    if (rounded === 0 && value > 0 && slaveConfig.minimumOneContract) {
+      return 1;
+    }
+
+    return rounded;
+  }
+
+  /**
+   * Live equity (falling back to balance) of an account, cached for a short TTL.
+   * Falls back to the stored balance when the platform cannot be reached.
+   */
+  private async getLiveBalance(account: TradingAccount): Promise<number> {
+    try {
+      const info = await this.getAccountInfo(account);
+      return info.equity > 0 ? info.equity : info.balance;
+    } catch (error) {
+      this.logger.warn(`Using stored balance for account ${account.id}: ${error.message}`);
+      return account.currentBalance;
+    }
+  }
+
+  private async getAccountInfo(account: TradingAccount): Promise<AccountInfo> {
+    const cached = this.accountInfoCache.get(account.id);
+    if (cached && Date.now() - cached.fetchedAt < this.accountInfoTtlMs) {
+      return cached.info;
+    }
+
+    const adapter = await this.adapterRegistry.getOrConnect(account);
+    const info = await adapter.getAccountInfo();
+    this.accountInfoCache.set(account.id, { info, fetchedAt: Date.now() });
+
+    return info;
+  }
+}
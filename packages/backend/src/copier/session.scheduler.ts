@@ -0,0 +1,102 @@
+import { Injectable, Logger, OnModuleDestroy } from "@nestjs/common";
+import { PrismaService } from "../prisma/prisma.service";
+import { isFlattenTime, TradingSchedule } from "../common/sessions/trading-schedule";
+import { SlaveFlattener } from "./slave.flattener";
+
+/**
+ * Session Scheduler
+ * Flattens the slaves of a running copier once the flatten cutoff of the copier's trading
+ * schedule, or of the slave's own, is reached (e.g. prop firms that require accounts to be
+ * flat by 16:10 ET). Positions opened during the cutoff are flattened on the next check.
+ */
+@Injectable()
+export class SessionScheduler implements OnModuleDestroy {
+  private readonly logger = new Logger(SessionScheduler.name);
+  private schedules: Map<string, NodeJS.Timeout> = new Map();
+  private enforcing: Set<string> = new Set();
+  private readonly intervalMs = parseInt(process.env.SESSION_CHECK_INTERVAL_MS || "30000");
+
+  constructor(
+    private prisma: PrismaService,
+    private flattener: SlaveFlattener
+  ) {}
+
+  /**
+   * Start checking the flatten cutoffs of a copier
+   */
+  schedule(copierId: string): void {
+    this.unschedule(copierId);
+
+    const interval = setInterval(async () => {
+      try {
+        await this.enforce(copierId);
+      } catch (error) {
+        this.logger.error(`Session check failed for copier ${copierId}:`, error);
+      }
+    }, this.intervalMs);
+
+    this.schedules.set(copierId, interval);
+  }
+
+  unschedule(copierId: string): void {
+    const interval = this.schedules.get(copierId);
+    if (interval) {
+      clearInterval(interval);
+      this.schedules.delete(copierId);
+    }
+  }
+
+  /**
+   * Flatten every slave of the copier that is past a flatten cutoff
+   */
+  async enforce(copierId: string): Promise<void> {
+    // Closing positions can take longer than the interval
+    if (this.enforcing.has(copierId)) {
+      return;
+    }
+
+    this.enforcing.add(copierId);
+    try {
+      const copier = await this.prisma.copier.findUnique({
+        where: { id: copierId },
+        include: {
+          slaveConfigs: {
+            where: { isActive: true },
+            include: {
+              slaveAccount: true,
+            },
+          },
+        },
+      });
+
+      if (!copier) {
+        return;
+      }
+
+      const now = new Date();
+      const copierSchedule = copier.tradingSchedule as unknown as TradingSchedule | null;
+
+      for (const slaveConfig of copier.slaveConfigs) {
+        const slaveSchedule = slaveConfig.tradingSchedule as unknown as TradingSchedule | null;
+        const cutoff = [copierSchedule, slaveSchedule].find((schedule) => schedule && isFlattenTime(schedule, now));
+        if (!cutoff) {
+          continue;
+        }
+
+        try {
+          await this.flattener.flatten(copierId, slaveConfig, `flatten cutoff ${cutoff.flattenAt} ${cutoff.timezone}`);
+        } catch (error) {
+          this.logger.error(`Session flatten failed for slave ${slaveConfig.slaveAccountId}:`, error);
+        }
+      }
+    } finally {
+      this.enforcing.delete(copierId);
+    }
+  }
+
+  onModuleDestroy() {
+    for (const copierId of Array.from(this.schedules.keys())) {
+      this.unschedule(copierId);
+    }
+  }
+}
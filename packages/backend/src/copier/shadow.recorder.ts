@@ -0,0 +1,137 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { TradeSide, TradeType } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { getContractSpec } from "../common/contracts/contract-specs";
+import { MasterEvent } from "./master-event.classifier";
+
+/**
+ * Slave order a copier in dry run would have sent
+ */
+export interface ShadowOrder {
+  type: TradeType;
+  side: TradeSide;
+  quantity: number;
+  limitPrice?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  entry?: boolean; // Opens a new slave position (counted by maxTradesPerSession)
+  signalLatencyMs?: number;
+}
+
+export interface ShadowPosition {
+  symbol: string;
+  side: TradeSide;
+  quantity: number;
+  entryPrice: number; // Average hypothetical fill price
+}
+
+/**
+ * Shadow Recorder
+ * Records the orders of copiers in dry run as shadow trades, filled at the master's price,
+ * and replays them into the hypothetical slave positions later exits of the dry run work on.
+ */
+@Injectable()
+export class ShadowRecorder {
+  private readonly logger = new Logger(ShadowRecorder.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  async record(copierId: string, event: MasterEvent, masterTrade: any, slaveAccountId: string, order: ShadowOrder) {
+    const position = await this.getPosition(copierId, slaveAccountId, event.symbol);
+
+    const shadowTrade = await this.prisma.shadowTrade.create({
+      data: {
+        copierId,
+        slaveAccountId,
+        masterTradeId: masterTrade.id,
+        eventType: event.type,
+        masterSymbol: masterTrade.symbol,
+        symbol: event.symbol,
+        side: order.side,
+        type: order.type,
+        quantity: order.quantity,
+        price: event.price,
+        limitPrice: order.limitPrice,
+        stopLoss: order.stopLoss,
+        takeProfit: order.takeProfit,
+        entry: Boolean(order.entry),
+        realizedPnL: this.getRealizedPnL(position, order, event.price),
+        signalLatencyMs: order.signalLatencyMs,
+      },
+    });
+
+    this.logger.log(
+      `Dry run (${event.type}): ${order.side} ${order.quantity} ${event.symbol} not sent to slave ${slaveAccountId}`
+    );
+
+    // Logged like a real copy, so per-session trade limits count shadow entries too
+    await this.prisma.executionLog.create({
+      data: {
+        copierId,
+        level: "info",
+        message: `Dry run: ${order.side} ${order.quantity} ${event.symbol} would have been sent (${event.type})`,
+        masterTradeId: masterTrade.id,
+        slaveAccountId,
+        details: {
+          kind: "shadow",
+          shadowTradeId: shadowTrade.id,
+          entry: Boolean(order.entry),
+          signalLatencyMs: order.signalLatencyMs ?? null,
+        },
+      },
+    });
+
+    return shadowTrade;
+  }
+
+  /**
+   * Hypothetical position of a slave in a symbol, replayed from its shadow trades
+   */
+  async getPosition(copierId: string, slaveAccountId: string, symbol: string): Promise<ShadowPosition | undefined> {
+    const trades = await this.prisma.shadowTrade.findMany({
+      where: { copierId, slaveAccountId, symbol },
+      select: { side: true, quantity: true, price: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    let position = 0; // Signed, positive when long
+    let entryPrice = 0;
+    for (const trade of trades) {
+      const quantity = trade.side === TradeSide.BUY ? trade.quantity : -trade.quantity;
+      const next = position + quantity;
+
+      if (position === 0 || Math.sign(quantity) === Math.sign(position)) {
+        entryPrice = (entryPrice * Math.abs(position) + trade.price * Math.abs(quantity)) / Math.abs(next);
+      } else if (next !== 0 && Math.sign(next) !== Math.sign(position)) {
+        entryPrice = trade.price; // Reversed, the rest opened at this fill
+      }
+      position = next;
+    }
+
+    if (position === 0) {
+      return undefined;
+    }
+
+    return {
+      symbol,
+      side: position > 0 ? TradeSide.BUY : TradeSide.SELL,
+      quantity: Math.abs(position),
+      entryPrice,
+    };
+  }
+
+  /**
+   * PnL of the part of the order that closes the position, in USD
+   */
+  private getRealizedPnL(position: ShadowPosition | undefined, order: ShadowOrder, price: number): number | null {
+    const spec = position && getContractSpec(position.symbol);
+    if (!spec || position.side === order.side) {
+      return null;
+    }
+
+    const closed = Math.min(order.quantity, position.quantity);
+    const direction = position.side === TradeSide.BUY ? 1 : -1;
+
+    return (price - position.entryPrice) * direction * closed * spec.pointValue;
+  }
+}
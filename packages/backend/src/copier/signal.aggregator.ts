@@ -0,0 +1,226 @@
+import { Injectable } from "@nestjs/common";
+import { SignalAggregationMode, TradeSide } from "@prisma/client";
+import { Position, TradeExecution } from "../accounts/adapters/trading-adapter.interface";
+
+export interface MasterSource {
+  accountId: string;
+  weight: number;
+}
+
+export interface AggregatedSignal {
+  execution: TradeExecution | null; // The execution as it applies to the copier's combined position; null if ignored
+  reason?: string; // Why the execution was ignored
+  previousPosition: number; // Signed position of the source master before and after the execution
+  currentPosition: number;
+}
+
+interface CopierSignals {
+  mode: SignalAggregationMode;
+  weights: Map<string, number>; // Per master account
+  positions: Map<string, Map<string, number>>; // Signed position per master account and symbol
+  owners: Map<string, string>; // Master account that leads each symbol (FIRST_SIGNAL_WINS)
+}
+
+/**
+ * Signal Aggregator
+ * Combines the executions of the master accounts of a copier into one signal stream that the
+ * classifier turns into copy events. NET_POSITION follows the weighted sum of the masters'
+ * positions, so opposite signals offset each other instead of fighting over the slaves.
+ * FIRST_SIGNAL_WINS lets the master that opens a symbol first drive it until that master is
+ * flat, and ignores the other masters on that symbol meanwhile.
+ */
+@Injectable()
+export class SignalAggregator {
+  private copiers: Map<string, CopierSignals> = new Map();
+
+  /**
+   * Start tracking a copier from the current positions of its masters
+   */
+  seed(
+    copierId: string,
+    mode: SignalAggregationMode,
+    masters: Array<MasterSource & { positions: Position[] }>
+  ): void {
+    const signals: CopierSignals = { mode, weights: new Map(), positions: new Map(), owners: new Map() };
+
+    for (const master of masters) {
+      signals.weights.set(master.accountId, master.weight);
+      signals.positions.set(master.accountId, this.toSigned(master.positions));
+    }
+
+    this.copiers.set(copierId, signals);
+  }
+
+  /**
+   * Undo fills on a master's tracked position, e.g. fills already included in the seeded
+   * positions that are about to be replayed
+   */
+  rewind(copierId: string, accountId: string, executions: TradeExecution[]): void {
+    const positions = this.copiers.get(copierId)?.positions.get(accountId);
+    if (!positions) {
+      return;
+    }
+
+    for (const execution of executions) {
+      positions.set(
+        execution.symbol,
+        (positions.get(execution.symbol) || 0) - this.signed(execution.side, execution.quantity)
+      );
+    }
+  }
+
+  /**
+   * Combined position of the copier per symbol, i.e. what the slaves follow
+   */
+  getPositions(copierId: string): Position[] {
+    const signals = this.copiers.get(copierId);
+    if (!signals) {
+      return [];
+    }
+
+    return Array.from(this.combine(signals))
+      .filter(([, quantity]) => quantity !== 0)
+      .map(([symbol, quantity]) => ({
+        symbol,
+        side: quantity > 0 ? TradeSide.BUY : TradeSide.SELL,
+        quantity: Math.abs(quantity),
+        entryPrice: 0,
+        unrealizedPnL: 0,
+      }));
+  }
+
+  /**
+   * Combine live master positions the way a copier does, e.g. for reconciliation.
+   * Symbols without a known leader are led by the first master holding them.
+   */
+  combinePositions(
+    copierId: string,
+    mode: SignalAggregationMode,
+    masters: Array<MasterSource & { positions: Position[] }>
+  ): Map<string, number> {
+    const signals: CopierSignals = {
+      mode,
+      weights: new Map(masters.map((master) => [master.accountId, master.weight])),
+      positions: new Map(masters.map((master) => [master.accountId, this.toSigned(master.positions)])),
+      owners: new Map(this.copiers.get(copierId)?.owners),
+    };
+
+    return this.combine(signals);
+  }
+
+  /**
+   * Apply an execution of one of the copier's masters
+   */
+  aggregate(copierId: string, accountId: string, execution: TradeExecution): AggregatedSignal {
+    const signals = this.copiers.get(copierId);
+    const weight = signals?.weights.get(accountId);
+    if (!signals || weight === undefined) {
+      return { execution: null, reason: "Not a master of this copier", previousPosition: 0, currentPosition: 0 };
+    }
+
+    const positions = signals.positions.get(accountId);
+    const previousPosition = positions.get(execution.symbol) || 0;
+    const owner = signals.owners.get(execution.symbol);
+    const ledByOther =
+      signals.mode === SignalAggregationMode.FIRST_SIGNAL_WINS && owner !== undefined && owner !== accountId;
+
+    // SL/TP updates only count from a master that takes part in the symbol
+    if (execution.status !== "filled" && execution.status !== "partially_filled") {
+      const ignored = previousPosition === 0 || ledByOther;
+      return {
+        execution: ignored ? null : execution,
+        previousPosition,
+        currentPosition: previousPosition,
+      };
+    }
+
+    const currentPosition = previousPosition + this.signed(execution.side, execution.quantity);
+    positions.set(execution.symbol, currentPosition);
+
+    if (signals.mode === SignalAggregationMode.FIRST_SIGNAL_WINS) {
+      if (ledByOther) {
+        return {
+          execution: null,
+          reason: `${execution.symbol} is led by master account ${owner}`,
+          previousPosition,
+          currentPosition,
+        };
+      }
+
+      // A position opened while another master led the symbol is never picked up halfway
+      if (owner === undefined && previousPosition !== 0) {
+        return {
+          execution: null,
+          reason: `${execution.symbol} position was opened while another master led it`,
+          previousPosition,
+          currentPosition,
+        };
+      }
+
+      if (currentPosition === 0) {
+        signals.owners.delete(execution.symbol);
+      } else {
+        signals.owners.set(execution.symbol, accountId);
+      }
+    }
+
+    return {
+      execution: { ...execution, quantity: execution.quantity * weight },
+      previousPosition,
+      currentPosition,
+    };
+  }
+
+  reset(copierId: string): void {
+    this.copiers.delete(copierId);
+  }
+
+  /**
+   * Weighted sum of the masters' positions (NET_POSITION), or the weighted position of each
+   * symbol's leader (FIRST_SIGNAL_WINS). Leaders are assigned to symbols that have none.
+   */
+  private combine(signals: CopierSignals): Map<string, number> {
+    const combined = new Map<string, number>();
+
+    // A leader that is flat again no longer leads
+    for (const [symbol, owner] of Array.from(signals.owners)) {
+      if (!signals.positions.get(owner)?.get(symbol)) {
+        signals.owners.delete(symbol);
+      }
+    }
+
+    for (const [accountId, positions] of signals.positions) {
+      const weight = signals.weights.get(accountId) ?? 1;
+
+      for (const [symbol, quantity] of positions) {
+        if (quantity === 0) {
+          continue;
+        }
+
+        if (signals.mode === SignalAggregationMode.FIRST_SIGNAL_WINS) {
+          const owner = signals.owners.get(symbol) ?? accountId;
+          if (owner !== accountId) {
+            continue;
+          }
+          signals.owners.set(symbol, accountId);
+        }
+
+        combined.set(symbol, (combined.get(symbol) || 0) + quantity * weight);
+      }
+    }
+
+    return combined;
+  }
+
+  private toSigned(positions: Position[]): Map<string, number> {
+    const signed = new Map<string, number>();
+    for (const position of positions) {
+      signed.set(position.symbol, (signed.get(position.symbol) || 0) + this.signed(position.side, position.quantity));
+    }
+    return signed;
+  }
+
+  private signed(side: TradeSide, quantity: number): number {
+    return side === TradeSide.BUY ? quantity : -quantity;
+  }
+}
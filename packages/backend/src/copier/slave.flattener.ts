@@ -0,0 +1,71 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { TradeSide } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { AdapterRegistry } from "../accounts/adapters/adapter.registry";
+import { BracketSynchronizer } from "./bracket.synchronizer";
+import { OrderMirror } from "./order.mirror";
+
+export interface FlattenResult {
+  slaveAccountId: string;
+  closed: string[]; // Symbols whose position was closed
+  errors: Array<{ symbol: string; error: string }>;
+}
+
+/**
+ * Slave Flattener
+ * Closes every open position of a slave account. Mirrored entry orders and brackets are
+ * cancelled first so nothing fills against the flat account, then each position is closed
+ * at market and its copied trades are marked closed.
+ */
+@Injectable()
+export class SlaveFlattener {
+  private readonly logger = new Logger(SlaveFlattener.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private adapterRegistry: AdapterRegistry,
+    private brackets: BracketSynchronizer,
+    private orderMirror: OrderMirror
+  ) {}
+
+  async flatten(copierId: string, slaveConfig: any, reason: string): Promise<FlattenResult> {
+    const slaveAccountId = slaveConfig.slaveAccountId;
+    const slaveAdapter = await this.adapterRegistry.getOrConnect(slaveConfig.slaveAccount);
+    const result: FlattenResult = { slaveAccountId, closed: [], errors: [] };
+
+    await this.orderMirror.cancelForSlave(copierId, slaveAccountId, slaveAdapter, reason);
+
+    const accountInfo = await slaveAdapter.getAccountInfo();
+    for (const position of accountInfo.positions.filter((position) => position.quantity > 0)) {
+      try {
+        await this.brackets.cancel(copierId, slaveAccountId, position.symbol, slaveAdapter, reason);
+
+        const closingSide = position.side === TradeSide.BUY ? TradeSide.SELL : TradeSide.BUY;
+        const execution = await slaveAdapter.closePosition(position.symbol, closingSide);
+
+        await this.prisma.trade.updateMany({
+          where: { copierId, accountId: slaveAccountId, symbol: position.symbol, closedAt: null },
+          data: { exitPrice: execution.price, closedAt: new Date() },
+        });
+        result.closed.push(position.symbol);
+      } catch (error) {
+        this.logger.error(`Failed to flatten ${position.symbol} on slave ${slaveAccountId}:`, error);
+        result.errors.push({ symbol: position.symbol, error: error.message });
+      }
+    }
+
+    if (result.closed.length > 0 || result.errors.length > 0) {
+      await this.prisma.executionLog.create({
+        data: {
+          copierId,
+          level: result.errors.length > 0 ? "error" : "warning",
+          message: `Slave account flattened (${reason})`,
+          slaveAccountId,
+          details: { kind: "flatten", reason, closed: result.closed, errors: result.errors },
+        },
+      });
+    }
+
+    return result;
+  }
+}
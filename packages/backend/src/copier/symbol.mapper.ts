@@ -0,0 +1,73 @@
+import { Injectable } from "@nestjs/common";
+import { SymbolMapping } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { getRootSymbol } from "../common/contracts/contract-specs";
+import { formatContract, isRollableRoot, resolveFrontMonth } from "../common/contracts/contract-rolls";
+
+export interface SymbolRoute {
+  symbol: string; // Instrument to trade on the slave
+  multiplier: number; // Slave contracts per master contract
+}
+
+/**
+ * Symbol Mapper
+ * Translates a master instrument into the instrument a slave trades, using the copier's
+ * symbol mappings: slave-specific mappings before copier-wide ones, exact contracts before
+ * roots. A root on the slave side is resolved to its current front month in the slave
+ * platform's symbol format. Unmapped symbols are traded as they are.
+ */
+@Injectable()
+export class SymbolMapper {
+  constructor(private prisma: PrismaService) {}
+
+  async getMappings(copierId: string): Promise<SymbolMapping[]> {
+    return this.prisma.symbolMapping.findMany({
+      where: { copierId, isActive: true },
+    });
+  }
+
+  async resolve(copierId: string, slaveConfig: any, masterSymbol: string): Promise<SymbolRoute> {
+    return this.route(await this.getMappings(copierId), slaveConfig, masterSymbol);
+  }
+
+  /**
+   * Resolve against mappings that were already loaded (for loops over many symbols)
+   */
+  route(mappings: SymbolMapping[], slaveConfig: any, masterSymbol: string, at: Date = new Date()): SymbolRoute {
+    const symbol = this.normalize(masterSymbol);
+    const root = getRootSymbol(symbol);
+
+    const scopes = [
+      mappings.filter((mapping) => mapping.copierConfigId === slaveConfig.id),
+      mappings.filter((mapping) => !mapping.copierConfigId),
+    ];
+
+    for (const scope of scopes) {
+      const mapping =
+        scope.find((mapping) => this.normalize(mapping.masterSymbol) === symbol) ||
+        scope.find((mapping) => this.normalize(mapping.masterSymbol) === root);
+
+      if (mapping) {
+        return {
+          symbol: this.toContract(mapping.slaveSymbol, slaveConfig.slaveAccount?.platform, at),
+          multiplier: mapping.multiplier,
+        };
+      }
+    }
+
+    return { symbol: masterSymbol, multiplier: 1 };
+  }
+
+  private toContract(symbol: string, platform: any, at: Date): string {
+    if (!isRollableRoot(symbol)) {
+      return symbol;
+    }
+
+    const frontMonth = resolveFrontMonth(this.normalize(symbol), at);
+    return frontMonth ? formatContract(frontMonth, platform) : symbol;
+  }
+
+  private normalize(symbol: string): string {
+    return symbol.trim().toUpperCase();
+  }
+}
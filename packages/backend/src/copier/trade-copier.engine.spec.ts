@@ -0,0 +1,85 @@
+import { RiskScalingType, ScalingRounding, TradeSide } from "@prisma/client";
+import { TradeExecution } from "../accounts/adapters/trading-adapter.interface";
+import { MasterEventClassifier } from "./master-event.classifier";
+import { RiskScalingService } from "./risk-scaling.service";
+import { TradeCopierEngine } from "./trade-copier.engine";
+
+describe("TradeCopierEngine", () => {
+  describe("scaling of partial fills", () => {
+    const masterAccount: any = { id: "master", accountSize: 100000 };
+    const slaveAccount: any = { id: "slave", accountSize: 50000 };
+
+    let classifier: MasterEventClassifier;
+    let engine: any;
+
+    // Only the scaling is needed from the engine
+    beforeEach(() => {
+      classifier = new MasterEventClassifier();
+      engine = Object.assign(Object.create(TradeCopierEngine.prototype), {
+        riskScaling: new RiskScalingService(null),
+      });
+    });
+
+    const copyFills = async (slaveConfig: any, quantities: number[]): Promise<number[]> => {
+      const copier = { masterAccount };
+      const increments: number[] = [];
+
+      for (const [index, quantity] of quantities.entries()) {
+        const execution: TradeExecution = {
+          orderId: "order",
+          tradeId: `fill-${index}`,
+          symbol: "ESZ6",
+          side: TradeSide.BUY,
+          quantity,
+          price: 5000,
+          executedAt: new Date(),
+          status: index === quantities.length - 1 ? "filled" : "partially_filled",
+        };
+        const event = classifier.classify("copier", execution);
+        increments.push(
+          await engine.getScaledIncrement(copier, event, { ...slaveConfig, slaveAccount }, event.quantity, 1)
+        );
+      }
+
+      return increments;
+    };
+
+    it("carries rounding remainders over so the partial fills add up to the scaled order", async () => {
+      const slaveConfig = { scalingType: RiskScalingType.PERCENTAGE, percentageScale: 0.5 };
+
+      const increments = await copyFills(slaveConfig, [1, 1, 1, 1, 1]);
+
+      // 0.5 contracts per fill: scaled one by one every fill would round down to 0
+      expect(increments).toEqual([0, 1, 0, 1, 0]);
+      expect(increments.reduce((sum, quantity) => sum + quantity, 0)).toBe(2);
+    });
+
+    it("rounds the order as a whole with the slave's rounding mode", async () => {
+      const slaveConfig = {
+        scalingType: RiskScalingType.ACCOUNT_SIZE_RATIO,
+        roundingMode: ScalingRounding.ROUND,
+      };
+
+      const increments = await copyFills(slaveConfig, [3, 2, 2]);
+
+      // Half the account size: 1.5, 2.5 and 3.5 contracts after each fill
+      expect(increments).toEqual([2, 1, 1]);
+    });
+
+    it("sends the fixed size once per order, not once per partial fill", async () => {
+      const slaveConfig = { scalingType: RiskScalingType.FIXED, fixedContracts: 2 };
+
+      const increments = await copyFills(slaveConfig, [1, 2, 1]);
+
+      expect(increments).toEqual([2, 0, 0]);
+    });
+
+    it("never exceeds the slave's max contracts over the whole order", async () => {
+      const slaveConfig = { scalingType: RiskScalingType.PERCENTAGE, percentageScale: 1, maxContracts: 3 };
+
+      const increments = await copyFills(slaveConfig, [2, 2, 2]);
+
+      expect(increments).toEqual([2, 1, 0]);
+    });
+  });
+});
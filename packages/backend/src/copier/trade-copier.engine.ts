@@ -1,10 +1,48 @@
 import { Injectable, Logger, OnModuleDestroy } from "@nestjs/common";
 import { PrismaService } from "../prisma/prisma.service";
 import { AccountsService } from "../accounts/accounts.service";
-import { AdapterFactory } from "../accounts/adapters/adapter.factory";
+import { AdapterRegistry } from "../accounts/adapters/adapter.registry";
+import { DrawdownTrackerService } from "../accounts/drawdown-tracker.service";
 import { TradesService } from "../trades/trades.service";
-import { RiskScalingType, TradeSide, TradeType } from "@prisma/client";
-import { TradeOrder } from "../accounts/adapters/trading-adapter.interface";
+import { StaleSignalAction, TradeSide, TradeType, TradingAccount } from "@prisma/client";
+import {
+  ITradingAdapter,
+  Position,
+  TradeExecution,
+  TradeOrder,
+} from "../accounts/adapters/trading-adapter.interface";
+import { MasterEvent, MasterEventClassifier, MasterEventType } from "./master-event.classifier";
+import { RiskScalingService } from "./risk-scaling.service";
+import { PositionReconciler } from "./position.reconciler";
+import { RiskRuleEngine } from "./risk-rules/risk-rule.engine";
+import { CopyQueueService } from "./copy-queue.service";
+import { MasterEventStream } from "./master-event.stream";
+import { CopierHealthMonitor } from "./copier-health.monitor";
+import { BracketSynchronizer } from "./bracket.synchronizer";
+import { OrderMirror } from "./order.mirror";
+import { SymbolMapper } from "./symbol.mapper";
+import { SessionScheduler } from "./session.scheduler";
+import { checkSchedules } from "../common/sessions/trading-schedule";
+import { NewsService } from "../news/news.service";
+import { MasterSource, SignalAggregator } from "./signal.aggregator";
+import { CopyFilter, CopyFilterCheck } from "./copy.filter";
+import { KillSwitchService } from "../accounts/kill-switch.service";
+import { ShadowRecorder } from "./shadow.recorder";
+
+/**
+ * Part of a master event placed on a slave as one order (a reversal has a close and an open leg)
+ */
+type CopyLeg = "open" | "reduce" | "close";
+
+/**
+ * How a slave order was sent, used to record copy latency
+ */
+interface CopyExecution {
+  decision: "market" | "limit";
+  orderSentAt: Date;
+  entry?: boolean; // Opened a new slave position (counted by maxTradesPerSession)
+  closing?: boolean; // Flattened the slave position; recorded closed so the open trades net to the position
+}
 
 /**
  * Core Trade Copier Engine
@@ -19,14 +57,32 @@ export class TradeCopierEngine implements OnModuleDestroy {
   constructor(
     private prisma: PrismaService,
     private accountsService: AccountsService,
-    private adapterFactory: AdapterFactory,
-    private tradesService: TradesService
+    private adapterRegistry: AdapterRegistry,
+    private tradesService: TradesService,
+    private classifier: MasterEventClassifier,
+    private riskScaling: RiskScalingService,
+    private reconciler: PositionReconciler,
+    private riskRules: RiskRuleEngine,
+    private drawdownTracker: DrawdownTrackerService,
+    private copyQueue: CopyQueueService,
+    private masterEvents: MasterEventStream,
+    private healthMonitor: CopierHealthMonitor,
+    private brackets: BracketSynchronizer,
+    private orderMirror: OrderMirror,
+    private symbolMapper: SymbolMapper,
+    private sessions: SessionScheduler,
+    private news: NewsService,
+    private aggregator: SignalAggregator,
+    private copyFilter: CopyFilter,
+    private killSwitch: KillSwitchService,
+    private shadow: ShadowRecorder
   ) {}
 
   /**
-   * Start the copier engine for a specific copier
+   * Start the copier engine for a specific copier.
+   * With catchUp, master fills made since the copier's last handled event are replayed first.
    */
-  async start(copierId: string): Promise<void> {
+  async start(copierId: string, options: { catchUp?: boolean } = {}): Promise<void> {
     if (this.activeCopiers.has(copierId)) {
       this.logger.warn(`Copier ${copierId} is already running`);
       return;
@@ -36,6 +92,12 @@ export class TradeCopierEngine implements OnModuleDestroy {
       where: { id: copierId },
       include: {
         masterAccount: true,
+        masters: {
+          where: { isActive: true },
+          include: {
+            account: true,
+          },
+        },
         slaveConfigs: {
           include: {
             slaveAccount: true,
@@ -50,42 +112,123 @@ export class TradeCopierEngine implements OnModuleDestroy {
 
     this.logger.log(`Starting copier ${copierId} (${copier.name})`);
 
-    // Get adapter for master account
-    const masterAdapter = this.adapterFactory.getAdapter(
-      copier.masterAccount.platform,
-      copier.masterAccount.firm
-    );
+    const masters = this.getMasters(copier);
+    const seeds: Array<MasterSource & { positions: Position[] }> = [];
+    const missedFills: Array<{ accountId: string; fill: TradeExecution }> = [];
+
+    for (const master of masters) {
+      // Ensure each master account has its own connected adapter session
+      const masterAdapter = await this.adapterRegistry.getOrConnect(master.account);
 
-    // Ensure master is connected
-    if (!masterAdapter.isConnected()) {
-      await masterAdapter.connect({
-        apiKey: copier.masterAccount.apiKey || "",
-        apiSecret: copier.masterAccount.apiSecret || "",
-        accountNumber: copier.masterAccount.accountNumber,
-        config: copier.masterAccount.additionalConfig as any,
+      // Fills the master made while nothing was listening (e.g. during a deploy)
+      if (options.catchUp && copier.lastMasterEventAt) {
+        try {
+          const history = await masterAdapter.getTradeHistory(copier.lastMasterEventAt);
+          missedFills.push(
+            ...history
+              .filter((fill) => fill.tradeId !== copier.lastMasterTradeId)
+              .map((fill) => ({ accountId: master.account.id, fill }))
+          );
+        } catch (error) {
+          this.logger.warn(`Could not load missed fills of master ${master.account.id} for copier ${copierId}:`, error);
+        }
+      }
+
+      // Seed the master's current positions so the first events are classified correctly
+      let positions: Position[] = [];
+      try {
+        positions = (await masterAdapter.getAccountInfo()).positions;
+      } catch (error) {
+        this.logger.warn(`Could not load positions of master ${master.account.id} for copier ${copierId}:`, error);
+      }
+      seeds.push({ accountId: master.account.id, weight: master.weight, positions });
+    }
+
+    this.aggregator.seed(copierId, copier.aggregationMode, seeds);
+    // The live positions already include the missed fills that are replayed below
+    for (const master of masters) {
+      const fills = missedFills.filter((missed) => missed.accountId === master.account.id);
+      this.aggregator.rewind(copierId, master.account.id, fills.map((missed) => missed.fill));
+    }
+    this.classifier.seed(copierId, this.aggregator.getPositions(copierId));
+
+    // Replay missed fills before going live; marking them processed keeps polls from forwarding them again
+    if (missedFills.length > 0) {
+      missedFills.sort((a, b) => new Date(a.fill.executedAt).getTime() - new Date(b.fill.executedAt).getTime());
+      for (const { accountId, fill } of missedFills) {
+        await this.masterEvents.markProcessed(accountId, [fill]);
+        await this.handleMasterTrade(copierId, accountId, fill, new Date());
+      }
+
+      await this.prisma.executionLog.create({
+        data: {
+          copierId,
+          level: "info",
+          message: `Caught up on ${missedFills.length} missed master fill(s)`,
+          details: {
+            since: copier.lastMasterEventAt,
+            tradeIds: missedFills.map((missed) => missed.fill.tradeId),
+          },
+        },
       });
     }
 
-    // Subscribe to master trade updates
-    const unsubscribe = masterAdapter.onTradeUpdate(async (execution) => {
-      await this.handleMasterTrade(copierId, execution);
-    });
+    // Subscribe to the trade updates of every master (deduplicated per master account)
+    const unsubscribes: Array<() => void> = [];
+    for (const master of masters) {
+      unsubscribes.push(
+        await this.masterEvents.subscribe(master.account, async (execution) => {
+          await this.handleMasterTrade(copierId, master.account.id, execution, new Date());
+        })
+      );
+    }
 
-    this.tradeSubscriptions.set(copierId, unsubscribe);
+    this.tradeSubscriptions.set(copierId, () => unsubscribes.forEach((unsubscribe) => unsubscribe()));
 
     // Create a heartbeat interval to monitor copier health
-    const heartbeat = setInterval(() => {
-      this.logger.debug(`Copier ${copierId} heartbeat`);
+    const heartbeat = setInterval(async () => {
+      try {
+        await this.healthMonitor.heartbeat(copierId);
+      } catch (error) {
+        this.logger.error(`Health check failed for copier ${copierId}:`, error);
+      }
     }, 30000); // Every 30 seconds
 
     this.activeCopiers.set(copierId, heartbeat);
 
+    // A dry run never sends anything to the slaves, so none of the jobs below run for it
+    if (!copier.dryRun) {
+      // Periodically compare master and slave positions
+      this.reconciler.schedule(copierId, copier.reconciliationMode, copier.reconciliationIntervalMs);
+
+      // Mirror the master's stop-loss/take-profit orders onto the slaves
+      this.brackets.schedule(copierId);
+
+      // Mirror resting master entry orders (when enabled for the copier)
+      this.orderMirror.schedule(copierId);
+
+      // Flatten slaves at the flatten cutoff of their trading schedule
+      this.sessions.schedule(copierId);
+    }
+
+    // Follow the trailing drawdown of every account of the copier
+    for (const account of [
+      ...masters.map((master) => master.account),
+      ...copier.slaveConfigs.map((config) => config.slaveAccount),
+    ]) {
+      try {
+        await this.drawdownTracker.track(account, copierId);
+      } catch (error) {
+        this.logger.warn(`Could not track drawdown of account ${account.id}:`, error);
+      }
+    }
+
     // Log execution
     await this.prisma.executionLog.create({
       data: {
         copierId,
         level: "info",
-        message: `Copier started successfully`,
+        message: copier.dryRun ? `Copier started in dry run` : `Copier started successfully`,
       },
     });
   }
@@ -110,6 +253,15 @@ export class TradeCopierEngine implements OnModuleDestroy {
       this.tradeSubscriptions.delete(copierId);
     }
 
+    this.classifier.reset(copierId);
+    this.aggregator.reset(copierId);
+    this.reconciler.unschedule(copierId);
+    this.brackets.unschedule(copierId);
+    this.orderMirror.unschedule(copierId);
+    this.sessions.unschedule(copierId);
+    this.drawdownTracker.untrackCopier(copierId);
+    this.healthMonitor.forget(copierId);
+
     // Log execution
     await this.prisma.executionLog.create({
       data: {
@@ -120,6 +272,10 @@ export class TradeCopierEngine implements OnModuleDestroy {
     });
   }
 
+  isRunning(copierId: string): boolean {
+    return this.activeCopiers.has(copierId);
+  }
+
   /**
    * Pause the copier (stops copying but keeps monitoring)
    */
@@ -131,7 +287,12 @@ export class TradeCopierEngine implements OnModuleDestroy {
   /**
    * Handle trade execution from master account
    */
-  private async handleMasterTrade(copierId: string, masterExecution: any): Promise<void> {
+  private async handleMasterTrade(
+    copierId: string,
+    masterAccountId: string,
+    masterExecution: TradeExecution,
+    receivedAt: Date
+  ): Promise<void> {
     try {
       const copier = await this.prisma.copier.findUnique({
         where: { id: copierId },
@@ -150,30 +311,97 @@ export class TradeCopierEngine implements OnModuleDestroy {
         return;
       }
 
-      // Create master trade record
-      const masterTrade = await this.prisma.trade.create({
-        data: {
-          copierId,
-          accountId: copier.masterAccountId,
-          symbol: masterExecution.symbol,
-          side: masterExecution.side,
-          type: TradeType.MARKET, // Map from execution type
-          quantity: masterExecution.quantity,
-          entryPrice: masterExecution.price,
-          status: this.mapTradeStatus(masterExecution.status),
-          externalOrderId: masterExecution.orderId,
-          externalTradeId: masterExecution.tradeId,
-          openedAt: masterExecution.executedAt || new Date(),
-          filledAt: masterExecution.executedAt || new Date(),
-        },
-      });
+      // Combine the masters' signals (weights, net position or first signal wins)
+      const signal = this.aggregator.aggregate(copierId, masterAccountId, masterExecution);
+      if (!signal.execution) {
+        if (signal.reason) {
+          await this.prisma.executionLog.create({
+            data: {
+              copierId,
+              level: "info",
+              message: `Master fill not copied: ${signal.reason}`,
+              details: { kind: "aggregation", masterAccountId, tradeId: masterExecution.tradeId },
+            },
+          });
+        }
+        return;
+      }
 
-      // Copy to each slave account
-      const copyPromises = copier.slaveConfigs.map((config) =>
-        this.copyTradeToSlave(copierId, masterTrade, config)
-      );
+      const event = this.classifier.classify(copierId, signal.execution);
+      if (!event) {
+        return;
+      }
+      event.receivedAt = receivedAt;
+
+      // Per-copier cursor for catching up after a restart
+      if (event.type !== MasterEventType.MODIFY) {
+        await this.prisma.copier.update({
+          where: { id: copierId },
+          data: {
+            lastMasterEventAt: masterExecution.executedAt || receivedAt,
+            lastMasterTradeId: masterExecution.tradeId,
+          },
+        });
+      }
 
-      await Promise.allSettled(copyPromises);
+      if (!this.isEventEnabled(copier, event.type)) {
+        await this.prisma.executionLog.create({
+          data: {
+            copierId,
+            level: "info",
+            message: `Master ${event.type} event not copied (disabled in copier settings)`,
+            details: { event: event as any },
+          },
+        });
+        return;
+      }
+
+      if (event.type === MasterEventType.MODIFY) {
+        await this.handleMasterModification(copier, masterAccountId, event);
+        // Pick up a moved stop/target without waiting for the next bracket sync
+        if (copier.copyBrackets && !copier.dryRun) {
+          await this.brackets.sync(copierId);
+        }
+        return;
+      }
+
+      // Create (or add the fill to) the master trade record
+      const masterTrade = await this.recordMasterFill(copierId, masterAccountId, masterExecution);
+
+      // The master's own position closed or reversed (with several masters, the copy event may differ)
+      if (signal.previousPosition !== 0 && Math.sign(signal.currentPosition) !== Math.sign(signal.previousPosition)) {
+        await this.markTradesClosed(copierId, masterAccountId, event.symbol, event.price, masterTrade.id);
+      }
+
+      // Slaves holding their own copy of a mirrored pending order get the fill there
+      const mirrored = copier.mirrorPendingOrders
+        ? await this.orderMirror.claimFill(copierId, masterExecution.orderId, masterExecution.quantity)
+        : new Set<string>();
+      if (mirrored.size > 0) {
+        await this.prisma.executionLog.create({
+          data: {
+            copierId,
+            level: "info",
+            message: `Master fill of a mirrored ${event.symbol} order, not copied again to ${mirrored.size} slave(s)`,
+            masterTradeId: masterTrade.id,
+            details: {
+              kind: "order_mirror",
+              masterOrderId: masterExecution.orderId,
+              slaveAccountIds: Array.from(mirrored),
+            },
+          },
+        });
+      }
+
+      // Queue one copy job per slave account
+      await this.copyQueue.enqueue(
+        copierId,
+        event,
+        masterTrade.id,
+        copier.slaveConfigs
+          .map((config) => config.slaveAccountId)
+          .filter((slaveAccountId) => !mirrored.has(slaveAccountId))
+      );
     } catch (error) {
       this.logger.error(`Error handling master trade for copier ${copierId}:`, error);
       await this.prisma.executionLog.create({
@@ -188,208 +416,906 @@ export class TradeCopierEngine implements OnModuleDestroy {
   }
 
   /**
-   * Copy trade to a slave account with risk scaling
+   * Whether the copier settings allow copying this kind of master event
    */
-  private async copyTradeToSlave(
-    copierId: string,
-    masterTrade: any,
-    slaveConfig: any
-  ): Promise<void> {
-    try {
-      // Check risk rules
-      const riskCheck = await this.checkRiskRules(copierId, slaveConfig);
-      if (!riskCheck.allowed) {
-        this.logger.warn(
-          `Risk rule violated for slave ${slaveConfig.slaveAccountId}: ${riskCheck.reason}`
-        );
-        return;
-      }
+  private isEventEnabled(copier: any, type: MasterEventType): boolean {
+    switch (type) {
+      case MasterEventType.OPEN:
+      case MasterEventType.ADD:
+        return copier.copyEntries;
+      case MasterEventType.REDUCE:
+      case MasterEventType.CLOSE:
+        return copier.copyExits;
+      case MasterEventType.REVERSE:
+        // The closing leg needs copyExits, the opening leg copyEntries as well. Without the
+        // closing leg the opening one is not copied either: the slave would still hold the old side.
+        return copier.copyExits;
+      case MasterEventType.MODIFY:
+        return copier.copyModifications;
+      default:
+        return false;
+    }
+  }
 
-      // Calculate scaled quantity
-      const scaledQuantity = this.calculateScaledQuantity(
-        masterTrade.quantity,
-        slaveConfig,
-        slaveConfig.slaveAccount
-      );
+  /**
+   * Replicate a master event on a slave account (run by the copy job processor).
+   * Errors are thrown so the job can be retried.
+   */
+  async copyToSlave(copier: any, masterEvent: MasterEvent, masterTrade: any, slaveConfig: any): Promise<void> {
+    const copierId = copier.id;
 
-      if (scaledQuantity <= 0) {
-        this.logger.warn(`Scaled quantity is 0 for slave ${slaveConfig.slaveAccountId}`);
-        return;
-      }
+    // Queued copies are dropped too once the user pulled the kill switch
+    if (await this.killSwitch.isEngaged(copier.userId)) {
+      await this.prisma.executionLog.create({
+        data: {
+          copierId,
+          level: "warning",
+          message: `${masterEvent.type} not copied: kill switch engaged`,
+          masterTradeId: masterTrade.id,
+          slaveAccountId: slaveConfig.slaveAccountId,
+          details: { kind: "kill_switch" },
+        },
+      });
+      return;
+    }
 
-      // Get adapter for slave account
-      const slaveAdapter = this.adapterFactory.getAdapter(
-        slaveConfig.slaveAccount.platform,
-        slaveConfig.slaveAccount.firm
-      );
+    // Get (or open) the slave account's own adapter session
+    const slaveAdapter = await this.adapterRegistry.getOrConnect(slaveConfig.slaveAccount);
 
-      // Ensure slave is connected
-      if (!slaveAdapter.isConnected()) {
-        await slaveAdapter.connect({
-          apiKey: slaveConfig.slaveAccount.apiKey || "",
-          apiSecret: slaveConfig.slaveAccount.apiSecret || "",
-          accountNumber: slaveConfig.slaveAccount.accountNumber,
-          config: slaveConfig.slaveAccount.additionalConfig as any,
-        });
-      }
+    // Trade the slave's own instrument (mapped symbol, current front month)
+    const route = await this.symbolMapper.resolve(copierId, slaveConfig, masterEvent.symbol);
+    const event: MasterEvent = slaveConfig.invertDirection
+      ? this.invertEvent({ ...masterEvent, symbol: route.symbol })
+      : { ...masterEvent, symbol: route.symbol };
 
-      // Create trade order for slave
-      const slaveOrder: TradeOrder = {
-        symbol: masterTrade.symbol,
-        side: masterTrade.side,
-        type: TradeType.MARKET, // Map appropriately
-        quantity: scaledQuantity,
-        stopLoss: masterTrade.stopLoss,
-        takeProfit: masterTrade.takeProfit,
-      };
-
-      // Place order on slave account
-      const slaveExecution = await slaveAdapter.placeOrder(slaveOrder);
-
-      // Create slave trade record
-      const slaveTrade = await this.prisma.trade.create({
+    // Entries the slave's filters leave out; the closing leg of a reversal is still copied
+    const filter = await this.checkFilters(copier, slaveConfig, masterEvent, event);
+    if (!filter.allowed) {
+      await this.prisma.executionLog.create({
         data: {
           copierId,
-          accountId: slaveConfig.slaveAccountId,
-          symbol: slaveExecution.symbol,
-          side: slaveExecution.side,
-          type: TradeType.MARKET,
-          quantity: slaveExecution.quantity,
-          entryPrice: slaveExecution.price,
-          status: this.mapTradeStatus(slaveExecution.status),
-          externalOrderId: slaveExecution.orderId,
-          externalTradeId: slaveExecution.tradeId,
-          openedAt: slaveExecution.executedAt || new Date(),
-          filledAt: slaveExecution.executedAt || new Date(),
-          stopLoss: masterTrade.stopLoss,
-          takeProfit: masterTrade.takeProfit,
+          level: "info",
+          message: `Entry not copied (${event.type}): ${filter.reason}`,
+          masterTradeId: masterTrade.id,
+          slaveAccountId: slaveConfig.slaveAccountId,
+          details: { kind: "filter", reason: filter.reason, symbol: masterEvent.symbol, side: event.side },
         },
       });
+      if (event.type !== MasterEventType.REVERSE) {
+        return;
+      }
+    }
+
+    switch (event.type) {
+      case MasterEventType.OPEN:
+      case MasterEventType.ADD:
+        await this.openOnSlave(copier, event, masterTrade, slaveConfig, slaveAdapter, event.quantity, route.multiplier);
+        break;
+
+      case MasterEventType.REDUCE:
+        await this.reduceOnSlave(copier, event, masterTrade, slaveConfig, slaveAdapter);
+        break;
+
+      case MasterEventType.CLOSE:
+        await this.closeOnSlave(copier, event, masterTrade, slaveConfig, slaveAdapter);
+        break;
+
+      case MasterEventType.REVERSE:
+        // Settings may have changed since the job was queued; see isEventEnabled
+        if (!copier.copyExits) {
+          break;
+        }
+        await this.closeOnSlave(copier, event, masterTrade, slaveConfig, slaveAdapter);
+        if (copier.copyEntries && filter.allowed) {
+          await this.openOnSlave(
+            copier,
+            event,
+            masterTrade,
+            slaveConfig,
+            slaveAdapter,
+            Math.abs(event.currentPosition),
+            route.multiplier
+          );
+        }
+        break;
+    }
+  }
+
+  /**
+   * Run the slave's copy filters on the entry part of an event (exits pass)
+   */
+  private async checkFilters(
+    copier: any,
+    slaveConfig: any,
+    masterEvent: MasterEvent,
+    event: MasterEvent
+  ): Promise<CopyFilterCheck> {
+    if (![MasterEventType.OPEN, MasterEventType.ADD, MasterEventType.REVERSE].includes(event.type)) {
+      return { allowed: true };
+    }
+
+    return this.copyFilter.check(copier, slaveConfig, {
+      masterSymbol: masterEvent.symbol,
+      symbol: event.symbol,
+      side: event.side,
+      masterQuantity:
+        event.type === MasterEventType.REVERSE
+          ? Math.abs(event.currentPosition)
+          : event.orderOpenedQuantity ?? event.quantity,
+      opensPosition: event.type !== MasterEventType.ADD,
+    });
+  }
+
+  /**
+   * Record a copy that failed for good (not retried any more)
+   */
+  async recordCopyFailure(
+    copierId: string,
+    event: MasterEvent,
+    masterTradeId: string,
+    slaveAccountId: string,
+    error: Error
+  ): Promise<void> {
+    this.logger.error(`Error copying trade to slave ${slaveAccountId}:`, error);
+
+    // Record failed mapping
+    await this.prisma.tradeMapping.upsert({
+      where: {
+        masterTradeId_slaveAccountId: {
+          masterTradeId,
+          slaveAccountId,
+        },
+      },
+      create: {
+        copierId,
+        masterTradeId,
+        slaveTradeId: "", // No slave trade created
+        slaveAccountId,
+        status: "failed",
+        errorMessage: error.message,
+      },
+      update: {
+        status: "failed",
+        errorMessage: error.message,
+      },
+    });
+
+    await this.prisma.executionLog.create({
+      data: {
+        copierId,
+        level: "error",
+        message: `Failed to copy ${event.type} to slave: ${error.message}`,
+        masterTradeId,
+        slaveAccountId,
+        details: { error: error.toString() },
+      },
+    });
+  }
 
-      // Create trade mapping
-      await this.prisma.tradeMapping.create({
+  /**
+   * Open or add to the slave position with risk scaling
+   */
+  private async openOnSlave(
+    copier: any,
+    event: MasterEvent,
+    masterTrade: any,
+    slaveConfig: any,
+    slaveAdapter: ITradingAdapter,
+    masterQuantity: number,
+    multiplier: number
+  ): Promise<void> {
+    const copierId = copier.id;
+    if (await this.isLegPlaced(copierId, event, masterTrade.id, slaveConfig.slaveAccountId, "open")) {
+      return;
+    }
+
+    // New entries are only copied inside the trading windows of the copier and the slave; exits always are
+    const sessionCheck = checkSchedules([copier.tradingSchedule, slaveConfig.tradingSchedule]);
+    if (!sessionCheck.allowed) {
+      await this.prisma.executionLog.create({
         data: {
           copierId,
+          level: "warning",
+          message: `Entry not copied (${event.type}): ${sessionCheck.reason}`,
           masterTradeId: masterTrade.id,
-          slaveTradeId: slaveTrade.id,
           slaveAccountId: slaveConfig.slaveAccountId,
-          status: "synced",
-          syncedAt: new Date(),
+          details: { kind: "session", reason: sessionCheck.reason },
         },
       });
+      return;
+    }
 
-      this.logger.log(
-        `Trade copied: ${masterTrade.id} -> ${slaveTrade.id} (${scaledQuantity} contracts)`
-      );
-
-      // Log execution
+    // Nor around the news events the copier's news blackout follows
+    const newsEvent = await this.news.findBlackout(copier);
+    if (newsEvent) {
       await this.prisma.executionLog.create({
         data: {
           copierId,
-          level: "info",
-          message: `Trade copied to slave account`,
+          level: "warning",
+          message: `Entry not copied (${event.type}): news blackout for ${newsEvent.currency} ${newsEvent.title}`,
           masterTradeId: masterTrade.id,
-          slaveTradeId: slaveTrade.id,
           slaveAccountId: slaveConfig.slaveAccountId,
+          details: {
+            kind: "news",
+            newsEvent: {
+              id: newsEvent.id,
+              title: newsEvent.title,
+              currency: newsEvent.currency,
+              impact: newsEvent.impact,
+              scheduledAt: newsEvent.scheduledAt,
+            },
+          },
         },
       });
-    } catch (error) {
-      this.logger.error(`Error copying trade to slave ${slaveConfig.slaveAccountId}:`, error);
+      return;
+    }
 
-      // Create failed mapping
-      await this.prisma.tradeMapping.create({
+    // Entries older than the copier's latency tolerance are dropped or sent as a bounded limit order.
+    // Dropped ones are skipped before the risk rules, so no rule action fires for an entry never sent.
+    const signalLatencyMs = this.getSignalLatency(event);
+    const stale = signalLatencyMs > copier.latencyToleranceMs;
+    if (stale && copier.staleSignalAction !== StaleSignalAction.LIMIT) {
+      await this.prisma.executionLog.create({
         data: {
           copierId,
+          level: "warning",
+          message: `Stale ${event.type} signal skipped (${signalLatencyMs}ms > ${copier.latencyToleranceMs}ms)`,
           masterTradeId: masterTrade.id,
-          slaveTradeId: "", // No slave trade created
           slaveAccountId: slaveConfig.slaveAccountId,
-          status: "failed",
-          errorMessage: error.message,
+          details: {
+            decision: "skipped",
+            signalLatencyMs,
+            latencyToleranceMs: copier.latencyToleranceMs,
+          },
         },
       });
+      return;
+    }
+
+    // Calculate scaled quantity
+    const scaledQuantity = await this.getScaledIncrement(copier, event, slaveConfig, masterQuantity, multiplier);
 
+    if (scaledQuantity <= 0) {
+      this.logger.warn(`Scaled quantity is 0 for slave ${slaveConfig.slaveAccountId}`);
+      return;
+    }
+
+    // Check risk rules
+    const riskCheck = await this.riskRules.check(
+      copierId,
+      slaveConfig,
+      slaveConfig.slaveAccount,
+      slaveAdapter,
+      { symbol: event.symbol, side: event.side, quantity: scaledQuantity },
+      copier.dryRun
+    );
+    if (!riskCheck.allowed) {
+      this.logger.warn(
+        `Risk rule violated for slave ${slaveConfig.slaveAccountId}: ${riskCheck.reason}`
+      );
+      return;
+    }
+
+    // An inverted slave holds the opposite position, so the master's target is its stop
+    const stopLoss = slaveConfig.invertDirection ? masterTrade.takeProfit : masterTrade.stopLoss;
+    const takeProfit = slaveConfig.invertDirection ? masterTrade.stopLoss : masterTrade.takeProfit;
+
+    // Never send a copy that could take the slave through its drawdown floor
+    const drawdownCheck = await this.drawdownTracker.checkOrder(slaveConfig.slaveAccountId, {
+      symbol: event.symbol,
+      quantity: scaledQuantity,
+      price: event.price,
+      stopLoss,
+    });
+    if (!drawdownCheck.allowed) {
       await this.prisma.executionLog.create({
         data: {
           copierId,
-          level: "error",
-          message: `Failed to copy trade to slave: ${error.message}`,
+          level: "warning",
+          message: `Copy blocked by drawdown protection: ${drawdownCheck.reason}`,
           masterTradeId: masterTrade.id,
           slaveAccountId: slaveConfig.slaveAccountId,
-          details: { error: error.toString() },
+          details: { kind: "drawdown", reason: drawdownCheck.reason },
         },
       });
+      return;
+    }
+
+    // Create trade order for slave
+    const slaveOrder: TradeOrder = {
+      symbol: event.symbol,
+      side: event.side,
+      type: TradeType.MARKET, // Map appropriately
+      quantity: scaledQuantity,
+      stopLoss,
+      takeProfit,
+    };
+
+    // A stale entry is sent as a limit order bounded by the copier's max slippage
+    if (stale) {
+      slaveOrder.type = TradeType.LIMIT;
+      slaveOrder.price =
+        event.side === TradeSide.BUY ? event.price + copier.maxSlippage : event.price - copier.maxSlippage;
+    }
+
+    // Dry run: record the order the slave would have got instead of sending it
+    if (copier.dryRun) {
+      await this.shadow.record(copierId, event, masterTrade, slaveConfig.slaveAccountId, {
+        type: slaveOrder.type,
+        side: slaveOrder.side,
+        quantity: slaveOrder.quantity,
+        limitPrice: slaveOrder.price,
+        stopLoss,
+        takeProfit,
+        entry: event.type !== MasterEventType.ADD,
+        signalLatencyMs,
+      });
+      return;
     }
+
+    // Place order on slave account
+    const orderSentAt = new Date();
+    const slaveExecution = await slaveAdapter.placeOrder(slaveOrder);
+    await this.markLegPlaced(copierId, event, masterTrade.id, slaveConfig.slaveAccountId, "open", slaveExecution);
+
+    await this.recordSlaveTrade(copierId, event, masterTrade, slaveConfig, slaveExecution, {
+      decision: slaveOrder.type === TradeType.LIMIT ? "limit" : "market",
+      orderSentAt,
+      entry: event.type !== MasterEventType.ADD,
+    });
   }
 
   /**
-   * Calculate scaled quantity based on risk rules
+   * Slave quantity for the part of a master fill that opens or adds to the position.
+   * The master order's running opened quantity is scaled as a whole and the already scaled
+   * part subtracted, so rounding remainders of partial fills carry over instead of being lost.
    */
-  private calculateScaledQuantity(
+  private async getScaledIncrement(
+    copier: any,
+    event: MasterEvent,
+    slaveConfig: any,
     masterQuantity: number,
+    multiplier: number
+  ): Promise<number> {
+    const openedTotal = event.orderOpenedQuantity ?? masterQuantity;
+    const openedBefore = openedTotal - masterQuantity;
+
+    const scaledTotal = await this.riskScaling.calculateScaledQuantity(
+      openedTotal,
+      slaveConfig,
+      slaveConfig.slaveAccount,
+      copier.masterAccount,
+      multiplier
+    );
+    // Not scaled when zero: FIXED scaling would return its fixed size
+    const scaledBefore =
+      openedBefore > 0
+        ? await this.riskScaling.calculateScaledQuantity(
+            openedBefore,
+            slaveConfig,
+            slaveConfig.slaveAccount,
+            copier.masterAccount,
+            multiplier
+          )
+        : 0;
+
+    return scaledTotal - scaledBefore;
+  }
+
+  /**
+   * Reduce the slave position proportionally to the master's reduction
+   */
+  private async reduceOnSlave(
+    copier: any,
+    event: MasterEvent,
+    masterTrade: any,
     slaveConfig: any,
-    slaveAccount: any
-  ): number {
-    switch (slaveConfig.scalingType) {
-      case RiskScalingType.FIXED:
-        return slaveConfig.fixedContracts || masterQuantity;
-
-      case RiskScalingType.PERCENTAGE:
-        const percentage = slaveConfig.percentageScale || 1.0;
-        return Math.floor(masterQuantity * percentage);
-
-      case RiskScalingType.BALANCE_BASED:
-        // Scale based on account balance ratio
-        // This is simplified - in production, you'd compare master vs slave balance
-        const balanceRatio = slaveAccount.currentBalance / 50000; // Assuming 50k standard
-        return Math.floor(masterQuantity * balanceRatio);
+    slaveAdapter: ITradingAdapter
+  ): Promise<void> {
+    if (await this.isLegPlaced(copier.id, event, masterTrade.id, slaveConfig.slaveAccountId, "reduce")) {
+      return;
+    }
 
-      default:
-        return masterQuantity;
+    const slavePosition = await this.getSlavePosition(copier, slaveConfig, slaveAdapter, event.symbol);
+    if (!slavePosition) {
+      this.logger.warn(`No open ${event.symbol} position on slave ${slaveConfig.slaveAccountId} to reduce`);
+      return;
+    }
+
+    const ratio = event.quantity / Math.abs(event.previousPosition);
+    const quantity = Math.min(
+      slavePosition.quantity,
+      Math.max(1, Math.round(slavePosition.quantity * ratio))
+    );
+
+    if (copier.dryRun) {
+      await this.shadow.record(copier.id, event, masterTrade, slaveConfig.slaveAccountId, {
+        type: TradeType.MARKET,
+        side: event.side,
+        quantity,
+        signalLatencyMs: this.getSignalLatency(event),
+      });
+      return;
     }
+
+    // Exits are never dropped for latency, a stale exit still beats an orphaned slave position
+    const orderSentAt = new Date();
+    const slaveExecution = await slaveAdapter.placeOrder({
+      symbol: event.symbol,
+      side: event.side,
+      type: TradeType.MARKET,
+      quantity,
+    });
+    await this.markLegPlaced(copier.id, event, masterTrade.id, slaveConfig.slaveAccountId, "reduce", slaveExecution);
+
+    await this.recordSlaveTrade(copier.id, event, masterTrade, slaveConfig, slaveExecution, {
+      decision: "market",
+      orderSentAt,
+    });
   }
 
   /**
-   * Check if trade is allowed based on risk rules
+   * Flatten the slave position
    */
-  private async checkRiskRules(copierId: string, slaveConfig: any): Promise<{
-    allowed: boolean;
-    reason?: string;
-  }> {
-    // Check daily loss limit
-    if (slaveConfig.dailyLossLimit) {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      const todayTrades = await this.prisma.trade.findMany({
-        where: {
-          copierId,
-          accountId: slaveConfig.slaveAccountId,
-          createdAt: { gte: today },
-          status: { in: ["FILLED"] },
-        },
+  private async closeOnSlave(
+    copier: any,
+    event: MasterEvent,
+    masterTrade: any,
+    slaveConfig: any,
+    slaveAdapter: ITradingAdapter
+  ): Promise<void> {
+    const copierId = copier.id;
+    if (await this.isLegPlaced(copierId, event, masterTrade.id, slaveConfig.slaveAccountId, "close")) {
+      return;
+    }
+
+    const slavePosition = await this.getSlavePosition(copier, slaveConfig, slaveAdapter, event.symbol);
+    if (!slavePosition) {
+      this.logger.warn(`No open ${event.symbol} position on slave ${slaveConfig.slaveAccountId} to close`);
+      return;
+    }
+
+    if (copier.dryRun) {
+      await this.shadow.record(copierId, event, masterTrade, slaveConfig.slaveAccountId, {
+        type: TradeType.MARKET,
+        side: event.side,
+        quantity: slavePosition.quantity,
+        signalLatencyMs: this.getSignalLatency(event),
       });
+      return;
+    }
 
-      const dailyLoss = todayTrades.reduce((sum, trade) => sum + (trade.realizedPnL || 0), 0);
+    // Pull the bracket first so a leg cannot fill against the flat position
+    await this.brackets.cancel(copierId, slaveConfig.slaveAccountId, event.symbol, slaveAdapter);
 
-      if (Math.abs(dailyLoss) >= slaveConfig.dailyLossLimit) {
-        if (slaveConfig.autoDisable) {
-          await this.prisma.copierAccountConfig.update({
-            where: { id: slaveConfig.id },
-            data: {
-              isActive: false,
-              disabledReason: `Daily loss limit exceeded: ${dailyLoss}`,
-            },
+    // Side of the closing execution, i.e. opposite of the open position
+    const orderSentAt = new Date();
+    const slaveExecution = await slaveAdapter.closePosition(event.symbol, event.side);
+    await this.markLegPlaced(copierId, event, masterTrade.id, slaveConfig.slaveAccountId, "close", slaveExecution);
+
+    await this.markTradesClosed(copierId, slaveConfig.slaveAccountId, event.symbol, slaveExecution.price);
+    await this.recordSlaveTrade(copierId, event, masterTrade, slaveConfig, slaveExecution, {
+      decision: "market",
+      orderSentAt,
+      closing: true,
+    });
+  }
+
+  /**
+   * Move the SL/TP of every slave order mapped to the master's open trades
+   */
+  private async handleMasterModification(copier: any, masterAccountId: string, event: MasterEvent): Promise<void> {
+    const updates: Partial<TradeOrder> = {};
+    if (event.stopLoss !== undefined) updates.stopLoss = event.stopLoss;
+    if (event.takeProfit !== undefined) updates.takeProfit = event.takeProfit;
+
+    const openMasterTrades = await this.prisma.trade.findMany({
+      where: {
+        copierId: copier.id,
+        accountId: masterAccountId,
+        symbol: event.symbol,
+        closedAt: null,
+      },
+    });
+
+    if (openMasterTrades.length === 0) {
+      return;
+    }
+
+    await this.prisma.trade.updateMany({
+      where: { id: { in: openMasterTrades.map((trade) => trade.id) } },
+      data: updates,
+    });
+
+    // A dry run holds no slave orders to move
+    if (copier.dryRun) {
+      return;
+    }
+
+    const mappings = await this.prisma.tradeMapping.findMany({
+      where: {
+        copierId: copier.id,
+        masterTradeId: { in: openMasterTrades.map((trade) => trade.id) },
+        status: "synced",
+      },
+    });
+
+    const slaveTrades = await this.prisma.trade.findMany({
+      where: {
+        id: { in: mappings.map((mapping) => mapping.slaveTradeId) },
+        closedAt: null,
+        externalOrderId: { not: null },
+      },
+    });
+
+    const modifyPromises = copier.slaveConfigs.map(async (slaveConfig) => {
+      const trades = slaveTrades.filter((trade) => trade.accountId === slaveConfig.slaveAccountId);
+      if (trades.length === 0) {
+        return;
+      }
+
+      // The master's stop is the target of an inverted slave
+      const slaveUpdates: Partial<TradeOrder> = {};
+      if (updates.stopLoss !== undefined) {
+        slaveUpdates[slaveConfig.invertDirection ? "takeProfit" : "stopLoss"] = updates.stopLoss;
+      }
+      if (updates.takeProfit !== undefined) {
+        slaveUpdates[slaveConfig.invertDirection ? "stopLoss" : "takeProfit"] = updates.takeProfit;
+      }
+
+      try {
+        const slaveAdapter = await this.adapterRegistry.getOrConnect(slaveConfig.slaveAccount);
+
+        for (const trade of trades) {
+          await slaveAdapter.modifyOrder(trade.externalOrderId, slaveUpdates);
+          await this.prisma.trade.update({
+            where: { id: trade.id },
+            data: slaveUpdates,
           });
         }
 
-        return {
-          allowed: false,
-          reason: `Daily loss limit exceeded: ${dailyLoss}`,
-        };
+        await this.prisma.executionLog.create({
+          data: {
+            copierId: copier.id,
+            level: "info",
+            message: `SL/TP modification copied to slave account`,
+            slaveAccountId: slaveConfig.slaveAccountId,
+            details: { symbol: event.symbol, ...slaveUpdates },
+          },
+        });
+      } catch (error) {
+        this.logger.error(`Error copying modification to slave ${slaveConfig.slaveAccountId}:`, error);
+        await this.prisma.executionLog.create({
+          data: {
+            copierId: copier.id,
+            level: "error",
+            message: `Failed to copy SL/TP modification to slave: ${error.message}`,
+            slaveAccountId: slaveConfig.slaveAccountId,
+            details: { error: error.toString() },
+          },
+        });
       }
+    });
+
+    await Promise.allSettled(modifyPromises);
+  }
+
+  /**
+   * Active master accounts of a copier with their weights (the primary master if none are listed)
+   */
+  private getMasters(copier: any): Array<{ account: TradingAccount; weight: number }> {
+    if (copier.masters.length === 0) {
+      return [{ account: copier.masterAccount, weight: 1 }];
+    }
+
+    return copier.masters.map((master) => ({ account: master.account, weight: master.weight }));
+  }
+
+  /**
+   * Mirror an event for a slave that trades against the master: opposite side and
+   * position, stop and target swapped
+   */
+  private invertEvent(event: MasterEvent): MasterEvent {
+    return {
+      ...event,
+      side: event.side === TradeSide.BUY ? TradeSide.SELL : TradeSide.BUY,
+      previousPosition: -event.previousPosition,
+      currentPosition: -event.currentPosition,
+      stopLoss: event.takeProfit,
+      takeProfit: event.stopLoss,
+    };
+  }
+
+  /**
+   * Persist a master fill. Later fills of the same master order are added to the trade of
+   * the first one (quantity and average price) instead of creating a new trade.
+   */
+  private async recordMasterFill(copierId: string, accountId: string, execution: TradeExecution) {
+    const existing = execution.orderId
+      ? await this.prisma.trade.findFirst({
+          where: { copierId, accountId, externalOrderId: execution.orderId },
+          orderBy: { createdAt: "desc" },
+        })
+      : null;
+
+    if (existing) {
+      return this.prisma.trade.update({
+        where: { id: existing.id },
+        data: {
+          quantity: existing.quantity + execution.quantity,
+          entryPrice: this.averagePrice(existing.entryPrice, existing.quantity, execution.price, execution.quantity),
+          status: this.mapTradeStatus(execution.status),
+          externalTradeId: execution.tradeId,
+          filledAt: execution.executedAt || new Date(),
+        },
+      });
+    }
+
+    return this.prisma.trade.create({
+      data: {
+        copierId,
+        accountId,
+        symbol: execution.symbol,
+        side: execution.side,
+        type: TradeType.MARKET, // Map from execution type
+        quantity: execution.quantity,
+        entryPrice: execution.price,
+        status: this.mapTradeStatus(execution.status),
+        externalOrderId: execution.orderId,
+        externalTradeId: execution.tradeId,
+        openedAt: execution.executedAt || new Date(),
+        filledAt: execution.executedAt || new Date(),
+      },
+    });
+  }
+
+  /**
+   * Record that a leg of a master fill reached the slave. Written as soon as the order call
+   * returns, before anything else can fail, so a retried copy job does not send it twice.
+   */
+  private async markLegPlaced(
+    copierId: string,
+    event: MasterEvent,
+    masterTradeId: string,
+    slaveAccountId: string,
+    leg: CopyLeg,
+    slaveExecution: TradeExecution
+  ): Promise<void> {
+    await this.prisma.executionLog.create({
+      data: {
+        copierId,
+        level: "info",
+        message: `${event.type} ${leg} order placed on slave (${slaveExecution.orderId})`,
+        masterTradeId,
+        slaveAccountId,
+        details: { kind: "copy_leg", leg, fillId: event.fillId || "", orderId: slaveExecution.orderId },
+      },
+    });
+  }
+
+  /**
+   * Whether an earlier attempt of the copy job already placed this leg on the slave
+   */
+  private async isLegPlaced(
+    copierId: string,
+    event: MasterEvent,
+    masterTradeId: string,
+    slaveAccountId: string,
+    leg: CopyLeg
+  ): Promise<boolean> {
+    const placed = await this.prisma.executionLog.count({
+      where: {
+        copierId,
+        masterTradeId,
+        slaveAccountId,
+        AND: [
+          { details: { path: ["kind"], equals: "copy_leg" } },
+          { details: { path: ["leg"], equals: leg } },
+          { details: { path: ["fillId"], equals: event.fillId || "" } },
+        ],
+      },
+    });
+
+    if (placed > 0) {
+      this.logger.warn(`${event.type} ${leg} order already placed on slave ${slaveAccountId}, not sent again`);
     }
 
-    return { allowed: true };
+    return placed > 0;
+  }
+
+  /**
+   * Persist a slave execution and map it to the master trade
+   */
+  private async recordSlaveTrade(
+    copierId: string,
+    event: MasterEvent,
+    masterTrade: any,
+    slaveConfig: any,
+    slaveExecution: TradeExecution,
+    copyExecution: CopyExecution
+  ): Promise<void> {
+    const acknowledgedAt = new Date();
+
+    // A later fill of the master order adds to the slave trade copied from the earlier ones
+    const existing =
+      event.orderFilledQuantity > event.quantity
+        ? await this.findMappedSlaveTrade(masterTrade.id, slaveConfig.slaveAccountId, slaveExecution.side)
+        : null;
+
+    const slaveTrade = existing
+      ? await this.prisma.trade.update({
+          where: { id: existing.id },
+          data: {
+            quantity: existing.quantity + slaveExecution.quantity,
+            entryPrice: this.averagePrice(
+              existing.entryPrice,
+              existing.quantity,
+              slaveExecution.price,
+              slaveExecution.quantity
+            ),
+            status: this.mapTradeStatus(slaveExecution.status),
+            externalTradeId: slaveExecution.tradeId,
+            filledAt: slaveExecution.executedAt || new Date(),
+          },
+        })
+      : await this.prisma.trade.create({
+          data: {
+            copierId,
+            accountId: slaveConfig.slaveAccountId,
+            symbol: slaveExecution.symbol,
+            side: slaveExecution.side,
+            type: copyExecution.decision === "limit" ? TradeType.LIMIT : TradeType.MARKET,
+            quantity: slaveExecution.quantity,
+            entryPrice: slaveExecution.price,
+            status: this.mapTradeStatus(slaveExecution.status),
+            externalOrderId: slaveExecution.orderId,
+            externalTradeId: slaveExecution.tradeId,
+            openedAt: slaveExecution.executedAt || new Date(),
+            filledAt: slaveExecution.executedAt || new Date(),
+            closedAt: copyExecution.closing ? new Date() : undefined,
+            stopLoss: masterTrade.stopLoss,
+            takeProfit: masterTrade.takeProfit,
+          },
+        });
+
+    // Create trade mapping (a reversal maps the opening leg over the closing one)
+    await this.prisma.tradeMapping.upsert({
+      where: {
+        masterTradeId_slaveAccountId: {
+          masterTradeId: masterTrade.id,
+          slaveAccountId: slaveConfig.slaveAccountId,
+        },
+      },
+      create: {
+        copierId,
+        masterTradeId: masterTrade.id,
+        slaveTradeId: slaveTrade.id,
+        slaveAccountId: slaveConfig.slaveAccountId,
+        status: "synced",
+        syncedAt: new Date(),
+      },
+      update: {
+        slaveTradeId: slaveTrade.id,
+        status: "synced",
+        syncedAt: new Date(),
+        errorMessage: null,
+      },
+    });
+
+    this.logger.log(
+      `Trade copied (${event.type}): ${masterTrade.id} -> ${slaveTrade.id} (${slaveExecution.quantity} contracts)`
+    );
+
+    // Log execution
+    await this.prisma.executionLog.create({
+      data: {
+        copierId,
+        level: "info",
+        message: `Trade copied to slave account (${event.type})`,
+        masterTradeId: masterTrade.id,
+        slaveTradeId: slaveTrade.id,
+        slaveAccountId: slaveConfig.slaveAccountId,
+        details: {
+          decision: copyExecution.decision,
+          entry: Boolean(copyExecution.entry),
+          signalLatencyMs: this.getSignalLatency(event),
+          orderLatencyMs: acknowledgedAt.getTime() - copyExecution.orderSentAt.getTime(),
+          totalLatencyMs: event.executedAt
+            ? Math.max(0, acknowledgedAt.getTime() - new Date(event.executedAt).getTime())
+            : null,
+        },
+      },
+    });
+  }
+
+  /**
+   * Open slave trade mapped to a master trade, if it is on the given side
+   */
+  private async findMappedSlaveTrade(masterTradeId: string, slaveAccountId: string, side: TradeSide) {
+    const mapping = await this.prisma.tradeMapping.findUnique({
+      where: {
+        masterTradeId_slaveAccountId: { masterTradeId, slaveAccountId },
+      },
+    });
+
+    if (!mapping?.slaveTradeId) {
+      return null;
+    }
+
+    return this.prisma.trade.findFirst({
+      where: { id: mapping.slaveTradeId, side, closedAt: null },
+    });
+  }
+
+  private averagePrice(price: number | null, quantity: number, fillPrice: number, fillQuantity: number): number {
+    if (!price || quantity <= 0) {
+      return fillPrice;
+    }
+
+    return (price * quantity + fillPrice * fillQuantity) / (quantity + fillQuantity);
+  }
+
+  /**
+   * Time between the master fill and the engine receiving it (0 if the platform sent no fill time)
+   */
+  private getSignalLatency(event: MasterEvent): number {
+    if (!event.executedAt || !event.receivedAt) {
+      return 0;
+    }
+
+    // Clock skew between the platform and this server can make the difference negative
+    return Math.max(0, event.receivedAt.getTime() - new Date(event.executedAt).getTime());
+  }
+
+  /**
+   * Mark the open trades of an account/symbol as closed
+   */
+  private async markTradesClosed(
+    copierId: string,
+    accountId: string,
+    symbol: string,
+    exitPrice: number,
+    excludeTradeId?: string
+  ): Promise<void> {
+    await this.prisma.trade.updateMany({
+      where: {
+        copierId,
+        accountId,
+        symbol,
+        closedAt: null,
+        ...(excludeTradeId && { id: { not: excludeTradeId } }),
+      },
+      data: {
+        exitPrice,
+        closedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Open position of a slave in a symbol; the hypothetical one from its shadow trades in a dry run
+   */
+  private async getSlavePosition(
+    copier: any,
+    slaveConfig: any,
+    slaveAdapter: ITradingAdapter,
+    symbol: string
+  ): Promise<{ quantity: number } | undefined> {
+    if (copier.dryRun) {
+      return this.shadow.getPosition(copier.id, slaveConfig.slaveAccountId, symbol);
+    }
+
+    return this.getOpenPosition(slaveAdapter, symbol);
+  }
+
+  /**
+   * Find the open position of a symbol on an account
+   */
+  private async getOpenPosition(adapter: ITradingAdapter, symbol: string): Promise<Position | undefined> {
+    const accountInfo = await adapter.getAccountInfo();
+    return accountInfo.positions.find(
+      (position) => position.symbol === symbol && position.quantity > 0
+    );
   }
 
   /**
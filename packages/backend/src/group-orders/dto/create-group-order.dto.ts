@@ -0,0 +1,81 @@
+import { Type } from "class-transformer";
+import {
+  IsString,
+  IsNumber,
+  IsBoolean,
+  IsOptional,
+  IsEnum,
+  IsInt,
+  IsPositive,
+  IsArray,
+  ArrayNotEmpty,
+  ValidateNested,
+} from "class-validator";
+import { RiskScalingType, ScalingRounding, TradeSide, TradeType } from "@prisma/client";
+
+export class GroupOrderAccountDto {
+  @IsString()
+  accountId: string;
+
+  @IsOptional()
+  @IsEnum(RiskScalingType)
+  scalingType?: RiskScalingType; // FIXED without fixedContracts sends the ticket quantity
+
+  @IsOptional()
+  @IsNumber()
+  fixedContracts?: number;
+
+  @IsOptional()
+  @IsNumber()
+  percentageScale?: number;
+
+  @IsOptional()
+  @IsNumber()
+  maxContracts?: number;
+
+  @IsOptional()
+  @IsEnum(ScalingRounding)
+  roundingMode?: ScalingRounding;
+
+  @IsOptional()
+  @IsBoolean()
+  minimumOneContract?: boolean;
+}
+
+export class CreateGroupOrderDto {
+  @IsString()
+  symbol: string;
+
+  @IsEnum(TradeSide)
+  side: TradeSide;
+
+  @IsOptional()
+  @IsEnum(TradeType)
+  type?: TradeType; // MARKET by default
+
+  @IsInt()
+  @IsPositive()
+  quantity: number; // Before per-account scaling
+
+  @IsOptional()
+  @IsNumber()
+  price?: number; // Required for LIMIT and STOP orders
+
+  @IsOptional()
+  @IsNumber()
+  stopLoss?: number;
+
+  @IsOptional()
+  @IsNumber()
+  takeProfit?: number;
+
+  @IsOptional()
+  @IsString()
+  referenceAccountId?: string; // Account the quantity is sized for, needed by balance and size ratio scaling
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => GroupOrderAccountDto)
+  accounts: GroupOrderAccountDto[];
+}
@@ -0,0 +1 @@
+export * from "./create-group-order.dto";
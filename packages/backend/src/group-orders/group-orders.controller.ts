@@ -0,0 +1,31 @@
+import { Controller, Get, Post, Body, Param, UseGuards, Request } from "@nestjs/common";
+import { GroupOrdersService } from "./group-orders.service";
+import { CreateGroupOrderDto } from "./dto";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+
+@UseGuards(JwtAuthGuard)
+@Controller("trades")
+export class GroupOrdersController {
+  constructor(private readonly groupOrdersService: GroupOrdersService) {}
+
+  /**
+   * Place one order on a group of accounts, scaled per account
+   */
+  @Post("group-order")
+  place(@Request() req, @Body() dto: CreateGroupOrderDto) {
+    return this.groupOrdersService.place(req.user.id, dto);
+  }
+
+  @Get("groups/:groupId")
+  findGroup(@Request() req, @Param("groupId") groupId: string) {
+    return this.groupOrdersService.findGroup(req.user.id, groupId);
+  }
+
+  /**
+   * Close the open trades of a group order on every account
+   */
+  @Post("groups/:groupId/close")
+  closeGroup(@Request() req, @Param("groupId") groupId: string) {
+    return this.groupOrdersService.closeGroup(req.user.id, groupId);
+  }
+}
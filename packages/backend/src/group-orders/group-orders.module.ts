@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { GroupOrdersService } from "./group-orders.service";
+import { GroupOrdersController } from "./group-orders.controller";
+import { AccountsModule } from "../accounts/accounts.module";
+import { CopierModule } from "../copier/copier.module";
+
+@Module({
+  imports: [AccountsModule, CopierModule],
+  controllers: [GroupOrdersController],
+  providers: [GroupOrdersService],
+})
+export class GroupOrdersModule {}
@@ -0,0 +1,339 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from "@nestjs/common";
+import { randomUUID } from "crypto";
+import { RiskScalingType, Trade, TradeSide, TradeStatus, TradeType, TradingAccount } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { AdapterRegistry } from "../accounts/adapters/adapter.registry";
+import { TradeExecution } from "../accounts/adapters/trading-adapter.interface";
+import { DrawdownTrackerService } from "../accounts/drawdown-tracker.service";
+import { KillSwitchService } from "../accounts/kill-switch.service";
+import { RiskScalingService } from "../copier/risk-scaling.service";
+import { RiskRuleEngine } from "../copier/risk-rules/risk-rule.engine";
+import { CreateGroupOrderDto, GroupOrderAccountDto } from "./dto";
+
+export interface GroupOrderResult {
+  accountId: string;
+  accountNumber: string;
+  quantity: number; // Scaled quantity sent (or that would have been sent)
+  status: "placed" | "blocked" | "failed" | "skipped";
+  reason?: string;
+  tradeId?: string;
+}
+
+/**
+ * Group Orders Service
+ * Manual trade tickets: one order fanned out to a chosen set of accounts in parallel, each
+ * with its own scaling, through the same scaling, risk rules and drawdown checks as copied
+ * entries. The trades of a ticket share a group id so the group can be closed together.
+ */
+@Injectable()
+export class GroupOrdersService {
+  private readonly logger = new Logger(GroupOrdersService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private adapterRegistry: AdapterRegistry,
+    private riskScaling: RiskScalingService,
+    private riskRules: RiskRuleEngine,
+    private drawdownTracker: DrawdownTrackerService,
+    private killSwitch: KillSwitchService
+  ) {}
+
+  async place(userId: string, dto: CreateGroupOrderDto) {
+    if (await this.killSwitch.isEngaged(userId)) {
+      throw new BadRequestException("Kill switch is engaged, re-arm it before placing orders");
+    }
+
+    const type = dto.type || TradeType.MARKET;
+    if (type !== TradeType.MARKET && dto.price === undefined) {
+      throw new BadRequestException(`${type} orders need a price`);
+    }
+
+    const accountIds = dto.accounts.map((target) => target.accountId);
+    if (new Set(accountIds).size !== accountIds.length) {
+      throw new BadRequestException("Each account can only appear once in a group order");
+    }
+
+    const accounts = await this.prisma.tradingAccount.findMany({
+      where: { id: { in: accountIds }, userId },
+    });
+    if (accounts.length !== accountIds.length) {
+      throw new NotFoundException("Account not found");
+    }
+
+    const referenceAccount = dto.referenceAccountId
+      ? await this.prisma.tradingAccount.findFirst({ where: { id: dto.referenceAccountId, userId } })
+      : null;
+    if (dto.referenceAccountId && !referenceAccount) {
+      throw new NotFoundException("Reference account not found");
+    }
+
+    const ratioScaling: RiskScalingType[] = [RiskScalingType.BALANCE_BASED, RiskScalingType.ACCOUNT_SIZE_RATIO];
+    if (!referenceAccount && dto.accounts.some((target) => ratioScaling.includes(target.scalingType))) {
+      throw new BadRequestException("Balance and account size scaling need a referenceAccountId");
+    }
+
+    const groupId = randomUUID();
+    const accountsById = new Map(accounts.map((account) => [account.id, account]));
+    const results = await Promise.all(
+      dto.accounts.map((target) =>
+        this.placeOnAccount(groupId, dto, type, target, accountsById.get(target.accountId), referenceAccount)
+      )
+    );
+
+    this.logger.log(
+      `Group order ${groupId}: ${dto.side} ${dto.quantity} ${dto.symbol} placed on ` +
+        `${results.filter((result) => result.status === "placed").length}/${results.length} account(s)`
+    );
+
+    return { groupId, results };
+  }
+
+  async findGroup(userId: string, groupId: string) {
+    const trades = await this.prisma.trade.findMany({
+      where: { groupId, account: { userId } },
+      include: { account: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    if (trades.length === 0) {
+      throw new NotFoundException(`Group order ${groupId} not found`);
+    }
+
+    return trades;
+  }
+
+  /**
+   * Close the open trades of a group with opposite market orders of the same size, so
+   * positions an account holds outside the group are left alone. Legs still working (limit
+   * and stop tickets, unfilled remainders) are cancelled so they cannot fill afterwards, and
+   * whatever part of them filled on the platform is closed.
+   */
+  async closeGroup(userId: string, groupId: string) {
+    const trades = await this.findGroup(userId, groupId);
+    const open = trades.filter(
+      (trade) =>
+        !trade.closedAt &&
+        (trade.status === TradeStatus.PENDING ||
+          trade.status === TradeStatus.FILLED ||
+          trade.status === TradeStatus.PARTIALLY_FILLED)
+    );
+
+    const results = await Promise.all(open.map((trade) => this.closeTrade(trade, trade.account)));
+
+    return { groupId, results };
+  }
+
+  private async placeOnAccount(
+    groupId: string,
+    dto: CreateGroupOrderDto,
+    type: TradeType,
+    target: GroupOrderAccountDto,
+    account: TradingAccount,
+    referenceAccount: TradingAccount | null
+  ): Promise<GroupOrderResult> {
+    const result: GroupOrderResult = {
+      accountId: account.id,
+      accountNumber: account.accountNumber,
+      quantity: 0,
+      status: "placed",
+    };
+
+    try {
+      result.quantity = await this.riskScaling.calculateScaledQuantity(
+        dto.quantity,
+        { ...target, scalingType: target.scalingType || RiskScalingType.FIXED },
+        account,
+        referenceAccount || account
+      );
+      if (result.quantity <= 0) {
+        return { ...result, status: "skipped", reason: "Scaled quantity is 0" };
+      }
+
+      const adapter = await this.adapterRegistry.getOrConnect(account);
+      const order = { symbol: dto.symbol, side: dto.side, quantity: result.quantity };
+
+      // The risk rules the account has as a slave apply to manual orders as well, but only to
+      // block them: a manual order must not disable or flatten the account's copier configs
+      const slaveConfigs = await this.prisma.copierAccountConfig.findMany({
+        where: { slaveAccountId: account.id, isActive: true },
+      });
+      for (const slaveConfig of slaveConfigs) {
+        const riskCheck = await this.riskRules.check(slaveConfig.copierId, slaveConfig, account, adapter, order, true);
+        if (!riskCheck.allowed) {
+          return this.recordRejected(groupId, dto, type, account, {
+            ...result,
+            status: "blocked",
+            reason: riskCheck.reason,
+          });
+        }
+      }
+
+      // Without a price the loss at the stop is unknown, only the drawdown floor itself is checked
+      const drawdownCheck = await this.drawdownTracker.checkOrder(account.id, {
+        ...order,
+        price: dto.price ?? 0,
+        stopLoss: dto.price !== undefined ? dto.stopLoss : undefined,
+      });
+      if (!drawdownCheck.allowed) {
+        return this.recordRejected(groupId, dto, type, account, {
+          ...result,
+          status: "blocked",
+          reason: drawdownCheck.reason,
+        });
+      }
+
+      const execution = await adapter.placeOrder({
+        ...order,
+        type,
+        price: dto.price,
+        stopLoss: dto.stopLoss,
+        takeProfit: dto.takeProfit,
+      });
+      const trade = await this.recordTrade(groupId, dto, type, account, execution);
+
+      return { ...result, tradeId: trade.id };
+    } catch (error) {
+      this.logger.error(`Group order ${groupId} failed on account ${account.id}:`, error);
+      return this.recordRejected(groupId, dto, type, account, { ...result, status: "failed", reason: error.message });
+    }
+  }
+
+  private async closeTrade(trade: Trade, account: TradingAccount) {
+    try {
+      const adapter = await this.adapterRegistry.getOrConnect(account);
+      let quantity = trade.quantity;
+
+      // Limit/stop tickets and unfilled remainders may have filled on the platform since they
+      // were placed: cancel what is still working, then close what actually filled
+      if (
+        (trade.status === TradeStatus.PENDING || trade.status === TradeStatus.PARTIALLY_FILLED) &&
+        trade.externalOrderId
+      ) {
+        const workingOrders = await adapter.getWorkingOrders();
+        if (workingOrders.some((order) => order.orderId === trade.externalOrderId)) {
+          await adapter.cancelOrder(trade.externalOrderId);
+        }
+
+        // The ticket's trade is recorded after the order was acknowledged, its first fill can be older
+        const since = new Date(trade.createdAt.getTime() - 60 * 1000);
+        const fills = (await adapter.getTradeHistory(since)).filter((fill) => fill.orderId === trade.externalOrderId);
+        quantity = fills.reduce((sum, fill) => sum + fill.quantity, 0);
+
+        if (quantity === 0) {
+          await this.prisma.trade.update({
+            where: { id: trade.id },
+            data: { status: TradeStatus.CANCELLED, closedAt: new Date() },
+          });
+
+          return { tradeId: trade.id, accountId: account.id, closed: true, cancelled: true };
+        }
+
+        const filledAt = fills[fills.length - 1].executedAt || new Date();
+        await this.prisma.trade.update({
+          where: { id: trade.id },
+          data: {
+            status: TradeStatus.FILLED,
+            quantity,
+            entryPrice: fills.reduce((sum, fill) => sum + fill.price * fill.quantity, 0) / quantity,
+            openedAt: trade.openedAt ?? fills[0].executedAt ?? filledAt,
+            filledAt,
+          },
+        });
+      } else if (trade.status === TradeStatus.PENDING) {
+        // Without an order id there is nothing to cancel or close on the platform
+        await this.prisma.trade.update({
+          where: { id: trade.id },
+          data: { status: TradeStatus.CANCELLED, closedAt: new Date() },
+        });
+
+        return { tradeId: trade.id, accountId: account.id, closed: true, cancelled: true };
+      }
+
+      const execution = await adapter.placeOrder({
+        symbol: trade.symbol,
+        side: trade.side === TradeSide.BUY ? TradeSide.SELL : TradeSide.BUY,
+        type: TradeType.MARKET,
+        quantity,
+      });
+
+      await this.prisma.trade.update({
+        where: { id: trade.id },
+        data: { exitPrice: execution.price, closedAt: new Date() },
+      });
+
+      return { tradeId: trade.id, accountId: account.id, closed: true, exitPrice: execution.price };
+    } catch (error) {
+      this.logger.error(`Closing trade ${trade.id} of a group order failed:`, error);
+      return { tradeId: trade.id, accountId: account.id, closed: false, error: error.message };
+    }
+  }
+
+  private async recordTrade(
+    groupId: string,
+    dto: CreateGroupOrderDto,
+    type: TradeType,
+    account: TradingAccount,
+    execution: TradeExecution
+  ) {
+    const filled = execution.status === "filled" || execution.status === "partially_filled";
+
+    return this.prisma.trade.create({
+      data: {
+        groupId,
+        accountId: account.id,
+        symbol: dto.symbol,
+        side: dto.side,
+        type,
+        quantity: execution.quantity,
+        entryPrice: execution.price,
+        stopLoss: dto.stopLoss,
+        takeProfit: dto.takeProfit,
+        status: this.mapTradeStatus(execution.status),
+        externalOrderId: execution.orderId,
+        externalTradeId: execution.tradeId,
+        openedAt: filled ? execution.executedAt || new Date() : null,
+        filledAt: filled ? execution.executedAt || new Date() : null,
+      },
+    });
+  }
+
+  /**
+   * Blocked and failed accounts are kept in the group as rejected trades
+   */
+  private async recordRejected(
+    groupId: string,
+    dto: CreateGroupOrderDto,
+    type: TradeType,
+    account: TradingAccount,
+    result: GroupOrderResult
+  ): Promise<GroupOrderResult> {
+    const trade = await this.prisma.trade.create({
+      data: {
+        groupId,
+        accountId: account.id,
+        symbol: dto.symbol,
+        side: dto.side,
+        type,
+        quantity: result.quantity,
+        entryPrice: dto.price,
+        stopLoss: dto.stopLoss,
+        takeProfit: dto.takeProfit,
+        status: TradeStatus.REJECTED,
+      },
+    });
+
+    return { ...result, tradeId: trade.id };
+  }
+
+  private mapTradeStatus(status: TradeExecution["status"]): TradeStatus {
+    const statusMap: Record<TradeExecution["status"], TradeStatus> = {
+      filled: TradeStatus.FILLED,
+      partially_filled: TradeStatus.PARTIALLY_FILLED,
+      pending: TradeStatus.PENDING,
+      cancelled: TradeStatus.CANCELLED,
+      rejected: TradeStatus.REJECTED,
+    };
+
+    return statusMap[status] || TradeStatus.PENDING;
+  }
+}
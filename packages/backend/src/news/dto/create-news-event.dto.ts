@@ -0,0 +1,16 @@
+import { IsString, IsEnum, IsDateString } from "class-validator";
+import { NewsImpact } from "@prisma/client";
+
+export class CreateNewsEventDto {
+  @IsString()
+  title: string;
+
+  @IsString()
+  currency: string;
+
+  @IsEnum(NewsImpact)
+  impact: NewsImpact;
+
+  @IsDateString()
+  scheduledAt: string;
+}
@@ -0,0 +1,24 @@
+import { IsString, IsOptional, IsEnum, IsIn } from "class-validator";
+import { NewsImpact } from "@prisma/client";
+
+export class ImportNewsCalendarDto {
+  @IsOptional()
+  @IsIn(["ics", "csv"])
+  format?: "ics" | "csv"; // Taken from the file extension when omitted
+
+  @IsOptional()
+  @IsString()
+  content?: string; // Calendar text, when no file is uploaded
+
+  @IsOptional()
+  @IsString()
+  timezone?: string; // Timezone of times without an offset (default UTC)
+
+  @IsOptional()
+  @IsEnum(NewsImpact)
+  defaultImpact?: NewsImpact; // For events without an impact (default HIGH)
+
+  @IsOptional()
+  @IsString()
+  defaultCurrency?: string; // For events without a currency (default USD)
+}
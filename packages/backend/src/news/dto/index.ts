@@ -0,0 +1,3 @@
+export * from "./create-news-event.dto";
+export * from "./update-news-event.dto";
+export * from "./import-news-calendar.dto";
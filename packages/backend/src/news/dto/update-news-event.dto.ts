@@ -0,0 +1,4 @@
+import { PartialType } from "@nestjs/mapped-types";
+import { CreateNewsEventDto } from "./create-news-event.dto";
+
+export class UpdateNewsEventDto extends PartialType(CreateNewsEventDto) {}
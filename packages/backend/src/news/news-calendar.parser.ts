@@ -0,0 +1,262 @@
+import { NewsImpact } from "@prisma/client";
+
+export interface ParsedNewsEvent {
+  eventKey: string;
+  title: string;
+  currency: string;
+  impact: NewsImpact;
+  scheduledAt: Date;
+}
+
+export interface ParseOptions {
+  timezone: string; // For times without an offset (CSV rows, floating ICS times)
+  defaultImpact: NewsImpact;
+  defaultCurrency: string;
+}
+
+export interface ParseResult {
+  events: ParsedNewsEvent[];
+  errors: string[]; // Rows or events that were skipped, with the reason
+}
+
+const CURRENCY_PATTERN = /\b(USD|EUR|GBP|JPY|CHF|CAD|AUD|NZD|CNY)\b/;
+
+/**
+ * Parse an iCalendar (.ics) news calendar. Currency and impact are read from the
+ * CATEGORIES, DESCRIPTION or SUMMARY of each event ("USD", "Impact: High").
+ */
+export function parseIcs(content: string, options: ParseOptions): ParseResult {
+  const result: ParseResult = { events: [], errors: [] };
+
+  // Long lines are folded onto continuation lines that start with a space or tab
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+  let fields: Map<string, { params: string; value: string }> | null = null;
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      fields = new Map();
+    } else if (line === "END:VEVENT" && fields) {
+      try {
+        result.events.push(toIcsEvent(fields, options));
+      } catch (error) {
+        result.errors.push(`Event "${fields.get("SUMMARY")?.value || "?"}": ${error.message}`);
+      }
+      fields = null;
+    } else if (fields) {
+      const match = line.match(/^([A-Z-]+)((?:;[^:]*)?):(.*)$/);
+      if (match) {
+        fields.set(match[1], { params: match[2], value: unescapeIcs(match[3]) });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse a CSV news calendar with a header row. Recognized columns (any order, any case):
+ * title/event, currency/country, impact, and either datetime/scheduledAt or date + time.
+ */
+export function parseCsv(content: string, options: ParseOptions): ParseResult {
+  const result: ParseResult = { events: [], errors: [] };
+  const rows = content
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "")
+    .map(splitCsvLine);
+
+  if (rows.length === 0) {
+    return result;
+  }
+
+  const header = rows[0].map((column) => column.trim().toLowerCase());
+  const column = (row: string[], ...names: string[]) => {
+    const index = header.findIndex((name) => names.includes(name));
+    return index >= 0 ? row[index]?.trim() || undefined : undefined;
+  };
+
+  rows.slice(1).forEach((row, index) => {
+    try {
+      const title = column(row, "title", "event", "name");
+      if (!title) {
+        throw new Error("missing title");
+      }
+
+      const dateTime = column(row, "datetime", "scheduledat", "timestamp");
+      const scheduledAt = dateTime
+        ? parseDateTime(dateTime, options.timezone)
+        : parseDateTime(`${column(row, "date") || ""} ${normalizeTime(column(row, "time"))}`, options.timezone);
+
+      const currency = (column(row, "currency", "country") || options.defaultCurrency).toUpperCase();
+      const impactText = column(row, "impact");
+      const impact = impactText ? toImpact(impactText) : options.defaultImpact;
+      if (!impact) {
+        throw new Error(`unknown impact "${impactText}"`);
+      }
+
+      result.events.push({
+        eventKey: `${title}|${currency}|${scheduledAt.toISOString()}`,
+        title,
+        currency,
+        impact,
+        scheduledAt,
+      });
+    } catch (error) {
+      result.errors.push(`Row ${index + 2}: ${error.message}`);
+    }
+  });
+
+  return result;
+}
+
+function toIcsEvent(fields: Map<string, { params: string; value: string }>, options: ParseOptions): ParsedNewsEvent {
+  const title = fields.get("SUMMARY")?.value?.trim();
+  const start = fields.get("DTSTART");
+  if (!title || !start) {
+    throw new Error("missing SUMMARY or DTSTART");
+  }
+
+  const timezone = start.params.match(/TZID=([^;]+)/)?.[1] || options.timezone;
+  const scheduledAt = parseIcsDate(start.value, timezone);
+
+  const text = ["CATEGORIES", "DESCRIPTION", "SUMMARY"].map((name) => fields.get(name)?.value || "").join(" ");
+  const currency = text.toUpperCase().match(CURRENCY_PATTERN)?.[1] || options.defaultCurrency;
+  const impactText = text.match(/\b(high|medium|low)\b(?:\s+impact)?/i)?.[1];
+
+  return {
+    eventKey: fields.get("UID")?.value || `${title}|${currency}|${scheduledAt.toISOString()}`,
+    title,
+    currency,
+    impact: (impactText && toImpact(impactText)) || options.defaultImpact,
+    scheduledAt,
+  };
+}
+
+/**
+ * ICS dates: 20261106T133000Z (UTC), 20261106T083000 (local to the TZID) or 20261106 (all day)
+ */
+function parseIcsDate(value: string, timezone: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) {
+    throw new Error(`invalid date "${value}"`);
+  }
+
+  const [, year, month, day, hour = "00", minute = "00", second = "00", utc] = match;
+  const fields = [year, month, day, hour, minute, second].map((part) => parseInt(part || "0"));
+
+  return fromZonedTime(fields, utc ? "UTC" : timezone);
+}
+
+/**
+ * ISO date-times with an offset are taken as they are, others are local to the timezone
+ */
+function parseDateTime(value: string, timezone: string): Date {
+  const trimmed = value.trim();
+  if (/(Z|[+-]\d{2}:?\d{2})$/.test(trimmed)) {
+    const date = new Date(trimmed);
+    if (isNaN(date.getTime())) {
+      throw new Error(`invalid date "${value}"`);
+    }
+    return date;
+  }
+
+  const match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!match) {
+    throw new Error(`invalid date "${value}"`);
+  }
+
+  return fromZonedTime(match.slice(1).map((part) => parseInt(part || "0")), timezone);
+}
+
+/**
+ * "8:30am" / "14:00" to "HH:mm"; empty for all-day events
+ */
+function normalizeTime(value?: string): string {
+  const match = value?.trim().match(/^(\d{1,2}):(\d{2})\s*(am|pm)?$/i);
+  if (!match) {
+    return "";
+  }
+
+  let hour = parseInt(match[1]) % (match[3] ? 12 : 24);
+  if (match[3]?.toLowerCase() === "pm") {
+    hour += 12;
+  }
+  return `${String(hour).padStart(2, "0")}:${match[2]}`;
+}
+
+/**
+ * UTC instant of a wall-clock time in a timezone
+ */
+function fromZonedTime([year, month, day, hour, minute, second]: number[], timezone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // Twice, so a guess on the other side of a DST change is corrected
+  let instant = wallClock;
+  for (let i = 0; i < 2; i++) {
+    instant = wallClock - getOffset(instant, timezone);
+  }
+  return new Date(instant);
+}
+
+function getOffset(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => parseInt(parts.find((part) => part.type === type)?.value || "0");
+
+  const local = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return local - Math.floor(instant / 1000) * 1000;
+}
+
+function toImpact(value: string): NewsImpact | undefined {
+  switch (value.trim().toLowerCase()) {
+    case "high":
+    case "red":
+    case "3":
+      return NewsImpact.HIGH;
+    case "medium":
+    case "orange":
+    case "2":
+      return NewsImpact.MEDIUM;
+    case "low":
+    case "yellow":
+    case "1":
+      return NewsImpact.LOW;
+    default:
+      return undefined;
+  }
+}
+
+function splitCsvLine(line: string): string[] {
+  const values: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      current += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === "," && !quoted) {
+      values.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  values.push(current);
+
+  return values;
+}
+
+function unescapeIcs(value: string): string {
+  return value.replace(/\\n/gi, "\n").replace(/\\([,;\\])/g, "$1");
+}
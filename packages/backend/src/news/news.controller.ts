@@ -0,0 +1,61 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+} from "@nestjs/common";
+import { FileInterceptor } from "@nestjs/platform-express";
+import { NewsImpact } from "@prisma/client";
+import { NewsService } from "./news.service";
+import { CreateNewsEventDto, UpdateNewsEventDto, ImportNewsCalendarDto } from "./dto";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { AdminGuard } from "../auth/guards/admin.guard";
+
+@UseGuards(JwtAuthGuard)
+@Controller("news")
+export class NewsController {
+  constructor(private readonly newsService: NewsService) {}
+
+  @Get("events")
+  findAll(
+    @Query("from") from?: string,
+    @Query("to") to?: string,
+    @Query("currency") currency?: string,
+    @Query("impact") impact?: NewsImpact
+  ) {
+    return this.newsService.findAll({ from, to, currency, impact });
+  }
+
+  @UseGuards(AdminGuard)
+  @Post("events")
+  create(@Body() dto: CreateNewsEventDto) {
+    return this.newsService.create(dto);
+  }
+
+  @UseGuards(AdminGuard)
+  @Patch("events/:id")
+  update(@Param("id") id: string, @Body() dto: UpdateNewsEventDto) {
+    return this.newsService.update(id, dto);
+  }
+
+  @UseGuards(AdminGuard)
+  @Delete("events/:id")
+  remove(@Param("id") id: string) {
+    return this.newsService.remove(id);
+  }
+
+  // Multipart upload in the "file" field, or the calendar text in `content`
+  @UseGuards(AdminGuard)
+  @Post("import")
+  @UseInterceptors(FileInterceptor("file"))
+  import(@Body() dto: ImportNewsCalendarDto, @UploadedFile() file?: { originalname: string; buffer: Buffer }) {
+    return this.newsService.import(dto, file);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from "@nestjs/common";
+import { NewsService } from "./news.service";
+import { NewsController } from "./news.controller";
+
+@Module({
+  controllers: [NewsController],
+  providers: [NewsService],
+  exports: [NewsService],
+})
+export class NewsModule {}
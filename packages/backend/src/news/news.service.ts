@@ -0,0 +1,165 @@
+import { Injectable, NotFoundException, BadRequestException } from "@nestjs/common";
+import { NewsEvent, NewsImpact } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { CreateNewsEventDto, UpdateNewsEventDto, ImportNewsCalendarDto } from "./dto";
+import { parseCsv, parseIcs } from "./news-calendar.parser";
+
+export interface NewsImportResult {
+  imported: number;
+  updated: number;
+  skipped: string[];
+}
+
+/**
+ * News Service
+ * Economic news calendar used by the copiers' news blackout: copiers with the blackout
+ * enabled do not copy new entries around events of the impacts and currencies they follow.
+ */
+@Injectable()
+export class NewsService {
+  constructor(private prisma: PrismaService) {}
+
+  async findAll(filters?: { from?: string; to?: string; currency?: string; impact?: NewsImpact }) {
+    return this.prisma.newsEvent.findMany({
+      where: {
+        scheduledAt: {
+          gte: filters?.from ? new Date(filters.from) : new Date(),
+          ...(filters?.to && { lte: new Date(filters.to) }),
+        },
+        ...(filters?.currency && { currency: filters.currency.toUpperCase() }),
+        ...(filters?.impact && { impact: filters.impact }),
+      },
+      orderBy: { scheduledAt: "asc" },
+    });
+  }
+
+  async create(dto: CreateNewsEventDto) {
+    const currency = dto.currency.toUpperCase();
+    const scheduledAt = new Date(dto.scheduledAt);
+
+    return this.prisma.newsEvent.create({
+      data: {
+        eventKey: this.buildEventKey(dto.title, currency, scheduledAt),
+        title: dto.title,
+        currency,
+        impact: dto.impact,
+        scheduledAt,
+      },
+    });
+  }
+
+  async update(id: string, dto: UpdateNewsEventDto) {
+    const event = await this.findOne(id);
+    const title = dto.title ?? event.title;
+    const currency = dto.currency?.toUpperCase() ?? event.currency;
+    const scheduledAt = dto.scheduledAt ? new Date(dto.scheduledAt) : event.scheduledAt;
+
+    // Keys built from the event's fields follow them, so a re-import matches the edited event.
+    // Calendar UIDs stay: they identify the event whatever its fields.
+    const derived = event.eventKey === this.buildEventKey(event.title, event.currency, event.scheduledAt);
+
+    return this.prisma.newsEvent.update({
+      where: { id },
+      data: {
+        ...dto,
+        currency,
+        scheduledAt,
+        ...(derived && { eventKey: this.buildEventKey(title, currency, scheduledAt) }),
+      },
+    });
+  }
+
+  async remove(id: string) {
+    await this.findOne(id);
+
+    return this.prisma.newsEvent.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Import an ICS or CSV calendar. Events already imported (same UID, or same title,
+   * currency and time) are updated instead of duplicated.
+   */
+  async import(
+    dto: ImportNewsCalendarDto,
+    file?: { originalname: string; buffer: Buffer }
+  ): Promise<NewsImportResult> {
+    const content = file ? file.buffer.toString("utf8") : dto.content;
+    if (!content) {
+      throw new BadRequestException("Upload a calendar file or send its content");
+    }
+
+    const format = dto.format || (file?.originalname.toLowerCase().endsWith(".csv") ? "csv" : "ics");
+    const timezone = dto.timezone || "UTC";
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    } catch {
+      throw new BadRequestException(`Unknown timezone "${timezone}"`);
+    }
+
+    const options = {
+      timezone,
+      defaultImpact: dto.defaultImpact || NewsImpact.HIGH,
+      defaultCurrency: (dto.defaultCurrency || "USD").toUpperCase(),
+    };
+    const parsed = format === "csv" ? parseCsv(content, options) : parseIcs(content, options);
+
+    const result: NewsImportResult = { imported: 0, updated: 0, skipped: parsed.errors };
+    for (const event of parsed.events) {
+      const existing = await this.prisma.newsEvent.findUnique({ where: { eventKey: event.eventKey } });
+      const data = { ...event, source: file?.originalname || `${format} import` };
+
+      await this.prisma.newsEvent.upsert({
+        where: { eventKey: event.eventKey },
+        create: data,
+        update: data,
+      });
+      if (existing) {
+        result.updated++;
+      } else {
+        result.imported++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * The news event that blocks new entries of a copier right now, if any
+   */
+  async findBlackout(copier: any, at: Date = new Date()): Promise<NewsEvent | null> {
+    if (!copier.newsBlackoutEnabled || copier.newsBlackoutImpacts.length === 0) {
+      return null;
+    }
+
+    // Entries are blocked from `before` minutes ahead of an event until `after` minutes past it
+    return this.prisma.newsEvent.findFirst({
+      where: {
+        scheduledAt: {
+          gte: new Date(at.getTime() - copier.newsBlackoutAfterMinutes * 60 * 1000),
+          lte: new Date(at.getTime() + copier.newsBlackoutBeforeMinutes * 60 * 1000),
+        },
+        impact: { in: copier.newsBlackoutImpacts },
+        ...(copier.newsBlackoutCurrencies.length > 0 && { currency: { in: copier.newsBlackoutCurrencies } }),
+      },
+      orderBy: { scheduledAt: "asc" },
+    });
+  }
+
+  private buildEventKey(title: string, currency: string, scheduledAt: Date): string {
+    return `${title}|${currency}|${scheduledAt.toISOString()}`;
+  }
+
+  private async findOne(id: string) {
+    const event = await this.prisma.newsEvent.findUnique({
+      where: { id },
+    });
+
+    if (!event) {
+      throw new NotFoundException(`News event with ID ${id} not found`);
+    }
+
+    return event;
+  }
+}
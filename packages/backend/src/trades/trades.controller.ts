@@ -12,12 +12,14 @@ export class TradesController {
     @Request() req,
     @Query("copierId") copierId?: string,
     @Query("accountId") accountId?: string,
+    @Query("accountGroupId") accountGroupId?: string,
     @Query("startDate") startDate?: string,
     @Query("endDate") endDate?: string
   ) {
     return this.tradesService.findAll(req.user.id, { 
       copierId, 
       accountId,
+      accountGroupId,
       startDate: startDate ? new Date(startDate) : undefined,
       endDate: endDate ? new Date(endDate) : undefined,
     });
@@ -10,13 +10,17 @@ export class TradesService {
     filters?: { 
       copierId?: string; 
       accountId?: string;
+      accountGroupId?: string;
       startDate?: Date;
       endDate?: Date;
     }
   ) {
-    // Get user's accounts
+    // Get user's accounts (the group's members only when filtering by group)
     const userAccounts = await this.prisma.tradingAccount.findMany({
-      where: { userId },
+      where: {
+        userId,
+        ...(filters?.accountGroupId && { groupMemberships: { some: { groupId: filters.accountGroupId } } }),
+      },
       select: { id: true },
     });
 
@@ -1,10 +1,10 @@
-import { Module } from "@nestjs/common";
+import { Module, forwardRef } from "@nestjs/common";
 import { WebSocketGateway } from "./websocket.gateway";
 import { CopierModule } from "../copier/copier.module";
 import { AuthModule } from "../auth/auth.module";
 
 @Module({
-  imports: [CopierModule, AuthModule],
+  imports: [forwardRef(() => CopierModule), AuthModule],
   providers: [WebSocketGateway],
   exports: [WebSocketGateway],
 })